@@ -0,0 +1,9 @@
+// file: app/api/receipts/[bookingId]/route.ts
+// description: Next.js route handler for downloadable booking receipts (JSON, HTML, PDF)
+// reference: server/_core/receipt_download.ts, server/services/receipts.ts
+import type { NextRequest } from 'next/server';
+import { handleReceiptDownload } from '../../../../server/_core/receipt_download';
+
+export async function GET(req: NextRequest, { params }: { params: Promise<{ bookingId: string }> }) {
+  return handleReceiptDownload(req, (await params).bookingId);
+}
@@ -5,9 +5,13 @@
 'use client';
 
 import { AnimatePresence, motion } from 'framer-motion';
-import { useEffect, useState } from 'react';
+import { skipToken } from '@tanstack/react-query';
+import { useEffect, useRef, useState } from 'react';
 import { SCREENS, type ScreenId } from '@shared/lib/brand';
+import { classifyService, detectUrgency, SERVICE_TAXONOMY } from '@shared/taxonomy';
+import { useAuth } from '@/_core/hooks/useAuth';
 import { PhoneFrame } from '@/components/shared';
+import { useAssistantStream } from '@/hooks/useAssistantStream';
 import { useScreenNavigation } from '@/hooks/useScreenNavigation';
 import type { Message, Provider, BookingDetails } from '@/lib/types';
 import { generateId } from '@/lib/types';
@@ -61,22 +65,44 @@ function ScreenWrapper({ children }: { children: React.ReactNode }) {
   );
 }
 
+/** The booking API's reference to a provider: the stored id, else its Yelp id; null for fixture providers. */
+function providerRefOf(provider: Provider): { providerId: number } | { yelpBusinessId: string } | null {
+  if (/^\d+$/.test(provider.id)) return { providerId: Number(provider.id) };
+  return provider.yelpId ? { yelpBusinessId: provider.yelpId } : null;
+}
+
 function App() {
   const { screen, navigate } = useScreenNavigation(SCREENS.S01_SPLASH);
   const [messages, setMessages] = useState<Message[]>([]);
   const [selectedProvider, setSelectedProvider] = useState<Provider | null>(null);
   const [currentBooking, setCurrentBooking] = useState<BookingDetails | null>(null);
+  // Server booking behind the booking flow; null for guests, whose booking is only simulated
+  const [bookingId, setBookingId] = useState<number | null>(null);
+  // Slot picked on S13 (ISO start time); null books ASAP
+  const [scheduledAt, setScheduledAt] = useState<string | null>(null);
+  // Set once the provider has arrived, so live updates and the simulation move on to S18 only once
+  const arrivedRef = useRef(false);
   const [conversations, setConversations] = useState<any[]>([]);
   const [favorites, setFavorites] = useState<Provider[]>([]);
   const [user, setUser] = useState<any>(null);
 
   const utils = trpc.useUtils();
   const createBooking = trpc.booking.create.useMutation();
+  const { isAuthenticated } = useAuth();
+  const createConversation = trpc.conversation.create.useMutation();
+  const [conversationId, setConversationId] = useState<number | null>(null);
   const [searchResults, setSearchResults] = useState<any[]>([]);
   
   // Store current query and service type for flow
   const [currentQuery, setCurrentQuery] = useState<string>('');
   const [currentServiceType, setCurrentServiceType] = useState<string>('Service');
+  // Server quote for the booking screens: the price shown is the one booking.create stores and authorizes
+  const quoteRef = selectedProvider ? providerRefOf(selectedProvider) : null;
+  const inBookingFlow = screen === SCREENS.S13_BOOKING_CONFIRM || screen === SCREENS.S14_ADD_PAYMENT || screen === SCREENS.S15_PAYMENT_SUCCESS;
+  const quoteQuery = trpc.booking.quote.useQuery(
+    quoteRef && inBookingFlow ? { ...quoteRef, serviceType: currentServiceType, isAsap: scheduledAt === null } : skipToken
+  );
+  const bookingQuote = quoteQuery.data;
   const [previousScreen, setPreviousScreen] = useState<ScreenId | null>(null); // For S11 back navigation
   const [needsClarification, setNeedsClarification] = useState<boolean>(false);
   const [clarificationQuestion, setClarificationQuestion] = useState<string>('');
@@ -110,17 +136,13 @@ function App() {
       rating: rating,
       reviewCount: provider.reviewCount || 0,
       distance: provider.distance || 0,
-      eta: provider.availableIn || 0,
+      eta: provider.availableIn ?? null,
       hourlyRate: provider.hourlyRate || 0,
       callOutFee: provider.callOutFee || 0,
       specialties: provider.specialties?.split(',') || [provider.category || 'Service'],
       available: provider.isAvailable !== false,
-      whyChosen: [
-        index === 0 ? 'Highest-rated in your area' : 'Great option for you',
-        provider.availableIn ? `Available in ${provider.availableIn} minutes` : 'Available now',
-        provider.reviewCount ? `${provider.reviewCount} verified reviews` : 'Great reviews',
-        provider.distance ? `Only ${provider.distance} miles away` : 'Nearby location',
-      ],
+      // Reasons come from the server's ranking score, so only factors that actually count are shown
+      whyChosen: Array.isArray(provider.whyChosen) ? provider.whyChosen : [],
       yelpId: provider.yelpId || null, // Preserve yelpId for fetching real data
     };
   };
@@ -132,7 +154,7 @@ function App() {
         query: query,
         location: { lat: 37.7749, lng: -122.4194 }, // San Francisco coordinates
       });
-      return results || [];
+      return results?.items || [];
     } catch (error) {
       console.error('Search failed:', error);
       return [];
@@ -143,9 +165,8 @@ function App() {
   const handleSendMessage = async (content: string) => {
     // Store query and service type
     setCurrentQuery(content);
-    const serviceType = extractServiceType(content);
-    const serviceTypeLabel = serviceType || 'service';
-    setCurrentServiceType(serviceTypeLabel.charAt(0).toUpperCase() + serviceTypeLabel.slice(1));
+    const classification = classifyService(content);
+    setCurrentServiceType(classification ? SERVICE_TAXONOMY[classification.category].label : 'Service');
 
     // Add user message
     const userMessage: Message = {
@@ -171,6 +192,12 @@ function App() {
       navigate(SCREENS.S05_CONVERSATION_HUB);
     }
 
+    // Signed-in users get the assistant's reply streamed into the conversation
+    if (isAuthenticated) {
+      void streamReply(content, Boolean(classification));
+      return;
+    }
+
     // Create personalized conversation messages based on user's actual query
     const conversationMessages = createPersonalizedResponses(content);
 
@@ -195,16 +222,44 @@ function App() {
     });
   };
 
-  // Helper to extract service type from user message
-  const extractServiceType = (message: string): string | null => {
-    const lower = message.toLowerCase();
-    if (lower.includes('plumber') || lower.includes('plumbing')) return 'plumber';
-    if (lower.includes('locksmith') || lower.includes('lock')) return 'locksmith';
-    if (lower.includes('car wash') || lower.includes('carwash')) return 'car wash';
-    if (lower.includes('haircut') || lower.includes('hair') || lower.includes('salon')) return 'haircut';
-    if (lower.includes('electrician') || lower.includes('electric')) return 'electrician';
-    if (lower.includes('clean') || lower.includes('cleaning')) return 'cleaning service';
-    return null;
+  // The reply being streamed: its message id, and whether to open the search radar once it finishes
+  const streamingReplyRef = useRef<{ id: string, searchAfter: boolean } | null>(null);
+
+  const updateStreamingReply = (update: Partial<Message>) => {
+    const id = streamingReplyRef.current?.id;
+    if (!id) return;
+    setMessages((prev) => prev.map((message) => (message.id === id ? { ...message, ...update } : message)));
+  };
+
+  const assistantStream = useAssistantStream({
+    onText: (text) => updateStreamingReply({ content: text, isTyping: false }),
+    onDone: (reply) => {
+      updateStreamingReply({ content: reply.message?.content ?? reply.text, metadata: reply.message?.metadata ?? null, isTyping: false });
+      const searchAfter = streamingReplyRef.current?.searchAfter ?? false;
+      streamingReplyRef.current = null;
+      if (searchAfter) setTimeout(() => navigate(SCREENS.S07_AI_SEARCH_RADAR), 1500);
+    },
+    onError: () => {
+      updateStreamingReply({ content: "Sorry, I couldn't reach the assistant. Please try again.", isTyping: false });
+      streamingReplyRef.current = null;
+    },
+  });
+
+  const streamReply = async (content: string, searchAfter: boolean) => {
+    const id = generateId();
+    streamingReplyRef.current = { id, searchAfter };
+    setMessages((prev) => [...prev, { id, role: 'ai', content: '', timestamp: new Date(), isTyping: true }]);
+
+    try {
+      const activeConversationId = conversationId ?? (await createConversation.mutateAsync({}))?.id;
+      if (!activeConversationId) throw new Error('Conversation could not be created');
+      setConversationId(activeConversationId);
+      assistantStream.send({ conversationId: activeConversationId, content });
+    } catch (error) {
+      console.error('Failed to start conversation:', error);
+      updateStreamingReply({ content: "Sorry, I couldn't start a conversation. Please try again.", isTyping: false });
+      streamingReplyRef.current = null;
+    }
   };
 
   // Helper to extract the main search term from user message
@@ -238,33 +293,28 @@ function App() {
     return firstWord || cleaned || 'that';
   };
 
-  // Helper to create personalized AI responses based on user query
+  // Helper to create personalized AI responses based on user query; the service and its urgency come from the shared
+  // taxonomy, so these messages agree with the search that follows
   const createPersonalizedResponses = (userQuery: string): string[] => {
-    const searchTerm = extractSearchTerm(userQuery);
-    const lowerQuery = userQuery.toLowerCase();
+    const classification = classifyService(userQuery);
+    const isFood = classification?.category === 'restaurants';
+    // Food keeps the user's own wording ("sushi dinner"); other services use the category name
+    const searchTerm = classification && !isFood ? SERVICE_TAXONOMY[classification.category].label.toLowerCase() : extractSearchTerm(userQuery);
     
     // Create natural, personalized responses
     const responses: string[] = [];
     
     // First message - acknowledge what they're looking for
-    if (lowerQuery.includes('food') || lowerQuery.includes('restaurant') || lowerQuery.includes('cuisine') || lowerQuery.includes('chinese') || lowerQuery.includes('italian') || lowerQuery.includes('mexican') || lowerQuery.includes('japanese')) {
+    if (isFood) {
       responses.push(`${searchTerm} sounds amazing! Let me find the best options near you.`);
-    } else if (lowerQuery.includes('need') || lowerQuery.includes('help') || lowerQuery.includes('emergency')) {
+    } else if (classification?.urgency === 'high' || detectUrgency(userQuery) === 'high') {
       responses.push(`I understand you need ${searchTerm}. Let me see what I can do.`);
-    } else if (lowerQuery.includes('book') || lowerQuery.includes('appointment') || lowerQuery.includes('schedule')) {
-      responses.push(`Looking to book ${searchTerm}? Let me find the best options for you.`);
     } else {
       responses.push(`Looking for ${searchTerm}? Great choice! Let me find the best options near you.`);
     }
     
     // Second message - show we're actively searching
-    if (searchTerm.includes('food') || searchTerm.includes('restaurant') || searchTerm.includes('chinese') || searchTerm.includes('italian') || searchTerm.includes('mexican') || searchTerm.includes('japanese')) {
-      responses.push(`Searching for ${searchTerm} restaurants in your area...`);
-    } else if (searchTerm.includes('near') || searchTerm.includes('close')) {
-      responses.push(`Finding the closest ${searchTerm.replace(/near|close/g, '').trim()} options...`);
-    } else {
-      responses.push(`Searching for ${searchTerm} in your area...`);
-    }
+    responses.push(isFood ? `Searching for ${searchTerm} restaurants in your area...` : `Searching for ${searchTerm} in your area...`);
     
     // Third message - show we're filtering
     responses.push(`Checking ratings, availability, and reviews nearby...`);
@@ -278,10 +328,31 @@ function App() {
 
   const handleBook = () => {
     if (!selectedProvider) return;
+    setScheduledAt(null);
     navigate(SCREENS.S13_BOOKING_CONFIRM);
   };
 
-  const handleConfirmBooking = () => {
+  const handleConfirmBooking = async () => {
+    if (!selectedProvider) return;
+    arrivedRef.current = false;
+    setBookingId(null);
+
+    if (isAuthenticated) {
+      const providerRef = providerRefOf(selectedProvider) ?? {};
+      try {
+        const booking = await createBooking.mutateAsync({
+          ...providerRef,
+          serviceType: currentServiceType,
+          isAsap: scheduledAt === null,
+          scheduledAt: scheduledAt ?? undefined,
+          conversationId: conversationId ?? undefined,
+        });
+        setBookingId(booking?.id ?? null);
+      } catch (error) {
+        console.error('Booking failed:', error);
+        return;
+      }
+    }
     navigate(SCREENS.S14_ADD_PAYMENT);
   };
 
@@ -298,7 +369,9 @@ function App() {
   };
 
   const handleProviderArrived = () => {
-    navigate(SCREENS.S19_JOB_COMPLETE);
+    if (arrivedRef.current) return;
+    arrivedRef.current = true;
+    navigate(SCREENS.S18_JOB_IN_PROGRESS);
   };
 
   const handleJobComplete = () => {
@@ -360,6 +433,7 @@ function App() {
               onNavigate={navigate}
               onSendMessage={handleSendMessage}
               messages={messages}
+              streamStatus={assistantStream.isStreaming ? assistantStream.reply?.status : null}
               quickReplies={pendingQuickReplies}
               onQuickReply={(reply) => {
                 setPendingQuickReplies([]);
@@ -485,7 +559,11 @@ function App() {
             <S13BookingConfirm
               provider={selectedProvider}
               serviceType={currentServiceType}
-              estimatedCost={{ min: selectedProvider.hourlyRate, max: selectedProvider.hourlyRate * 2 }}
+              estimatedCost={bookingQuote?.estimatedCost ?? null}
+              quoting={quoteQuery.isLoading}
+              etaMinutes={scheduledAt === null ? bookingQuote?.etaMinutes : null}
+              providerId={/^\d+$/.test(selectedProvider.id) ? Number(selectedProvider.id) : undefined}
+              onScheduleChange={setScheduledAt}
               onConfirm={handleConfirmBooking}
               onCancel={() => navigate(SCREENS.S09_AI_RECOMMENDATION)}
               onBack={() => navigate(SCREENS.S11_PROVIDER_DETAILS)}
@@ -496,9 +574,13 @@ function App() {
         return (
           <ScreenWrapper>
             <S14AddPayment
-              amount={selectedProvider ? selectedProvider.hourlyRate + 5 : 90}
+              amount={bookingQuote?.estimatedCost.max ?? 0}
               onPaymentComplete={handlePaymentComplete}
-              onBack={() => navigate(SCREENS.S13_BOOKING_CONFIRM)}
+              onBack={() => {
+                // S13 opens on ASAP again, so the slot picked before is dropped with it
+                setScheduledAt(null);
+                navigate(SCREENS.S13_BOOKING_CONFIRM);
+              }}
             />
           </ScreenWrapper>
         );
@@ -506,7 +588,7 @@ function App() {
         return (
           <ScreenWrapper>
             <S15PaymentSuccess
-              amount={selectedProvider ? selectedProvider.hourlyRate + 5 : 90}
+              amount={bookingQuote?.estimatedCost.max ?? 0}
               serviceName={currentServiceType}
               providerName={selectedProvider?.name || 'Provider'}
               onContinue={handlePaymentSuccessContinue}
@@ -518,27 +600,37 @@ function App() {
           <ScreenWrapper>
             <S17LiveTracking
               provider={selectedProvider}
+              bookingId={bookingId ?? undefined}
               onCall={() => {}}
               onMessage={() => {}}
               onArrived={handleProviderArrived}
             />
           </ScreenWrapper>
         ) : null;
+      case SCREENS.S18_JOB_IN_PROGRESS:
+        return selectedProvider ? (
+          <ScreenWrapper>
+            <S18JobInProgress
+              provider={selectedProvider}
+              bookingId={bookingId ?? undefined}
+              serviceType={currentServiceType}
+              onComplete={handleJobComplete}
+              onReportIssue={() => {
+                setPreviousScreen(SCREENS.S18_JOB_IN_PROGRESS);
+                navigate(SCREENS.S20_PROBLEM_RESOLUTION);
+              }}
+              onCall={() => {}}
+            />
+          </ScreenWrapper>
+        ) : null;
       case SCREENS.S19_JOB_COMPLETE:
         return selectedProvider ? (
           <ScreenWrapper>
             <S19JobComplete
               provider={selectedProvider}
+              bookingId={bookingId ?? undefined}
               serviceType={currentServiceType}
-              duration="1h 15m"
-              breakdown={{
-                service: selectedProvider.hourlyRate * 1.25,
-                parts: 25,
-                tax: (selectedProvider.hourlyRate * 1.25 + 25) * 0.1,
-                total: (selectedProvider.hourlyRate * 1.25 + 25) * 1.1,
-              }}
               onRate={() => navigate(SCREENS.S21_RATE_REVIEW)}
-              onDownloadReceipt={() => {}}
             />
           </ScreenWrapper>
         ) : null;
@@ -556,6 +648,7 @@ function App() {
         return (
           <ScreenWrapper>
             <S20ProblemResolution
+              bookingId={bookingId ?? undefined}
               onSelectIssue={(issue) => {
                 console.log('Issue reported:', issue);
                 // Go back to previous screen after reporting issue
@@ -29,6 +29,17 @@ export type AIChatBoxProps = {
    */
   isLoading?: boolean,
 
+  /**
+   * Reply streamed so far while `isLoading` (e.g. from `useAssistantStream`).
+   * Rendered as a partial assistant message in place of the loading indicator.
+   */
+  streamingContent?: string | undefined,
+
+  /**
+   * Progress note shown beside the loading indicator until streamed text arrives
+   */
+  streamingStatus?: string | null | undefined,
+
   /**
    * Placeholder text for the input field
    */
@@ -63,6 +74,8 @@ export function AIChatBox(
     messages,
     onSendMessage,
     isLoading = false,
+    streamingContent,
+    streamingStatus,
     placeholder = 'Type your message...',
     className,
     height = '600px',
@@ -208,9 +221,20 @@ export function AIChatBox(
                     <div className='size-8 shrink-0 mt-1 rounded-full bg-primary/10 flex items-center justify-center'>
                       <Sparkles className='size-4 text-primary' />
                     </div>
-                    <div className='rounded-lg bg-muted px-4 py-2.5'>
-                      <Loader2 className='size-4 animate-spin text-muted-foreground' />
-                    </div>
+                    {streamingContent ?
+                      (
+                        <div className='max-w-[80%] rounded-lg bg-muted px-4 py-2.5 text-foreground'>
+                          <div className='prose prose-sm dark:prose-invert max-w-none'>
+                            <Streamdown>{streamingContent}</Streamdown>
+                          </div>
+                        </div>
+                      ) :
+                      (
+                        <div className='flex items-center gap-2 rounded-lg bg-muted px-4 py-2.5'>
+                          <Loader2 className='size-4 animate-spin text-muted-foreground' />
+                          {streamingStatus && <span className='text-sm text-muted-foreground'>{streamingStatus}</span>}
+                        </div>
+                      )}
                   </div>
                 )}
               </div>
@@ -1,11 +1,12 @@
 'use client';
 
 import { useState } from 'react';
+import { NOTIFICATION_CHANNEL_LABELS, NOTIFICATION_CHANNELS, type NotificationChannel, type NotificationTopic } from '@shared/notifications';
 import { Icon } from '@/components/ui';
 import { trpc } from '@/lib/trpc';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Loader2, Mic, Send, Sparkles } from 'lucide-react';
+import { Loader2, Send, Sparkles } from 'lucide-react';
 import { toast } from 'sonner';
 
 interface S29Props {
@@ -13,42 +14,46 @@ interface S29Props {
 }
 
 export default function S29NotificationSettings({ onBack }: S29Props) {
-  const [settings, setSettings] = useState({
-    bookingUpdates: true,
-    providerMessages: true,
-    promotions: false,
-    reminders: true,
-  });
+  const utils = trpc.useUtils();
+  const { data, isLoading } = trpc.settings.get.useQuery();
+  const settings = data?.notifications;
 
   const [aiMode, setAiMode] = useState(false);
   const [aiInput, setAiInput] = useState('');
-  
+
+  const { mutate: updateSettings } = trpc.settings.update.useMutation({
+    onMutate: async ({ notifications }) => {
+      await utils.settings.get.cancel();
+      const previous = utils.settings.get.getData();
+      utils.settings.get.setData(undefined, current => current && {
+        notifications: notifications.reduce((next, { topic, channel, enabled }) => (
+          topic && channel ? { ...next, [topic]: { ...next[topic], [channel]: enabled } } : next
+        ), current.notifications)
+      });
+      return { previous };
+    },
+    onError: (_error, _input, context) => {
+      utils.settings.get.setData(undefined, context?.previous);
+      toast.error('Failed to update notification settings');
+    },
+    onSettled: () => utils.settings.get.invalidate()
+  });
+
+  // The settings agent stores changes itself; its reply echoes the stored state, so refetch to match it
   const { mutate: sendToAgent, isPending } = trpc.agent.chatSettings.useMutation({
-    onSuccess: (data) => {
-      // Parse tool calls to update local state optimistically
-      // In a real app, the tool execution on backend would update DB, and we'd invalidate queries
-      // For POC, we'll try to interpret the text response or rely on the tool result if we had it
-      
-      // If the agent says "Done", we can assume success
-      toast.success(data.text);
+    onSuccess: (response) => {
+      toast.success(response.text);
       setAiInput('');
-      
-      // Heuristic update for demo purposes based on user intent
-      const text = aiInput.toLowerCase();
-      if (text.includes('disable') || text.includes('off') || text.includes('stop')) {
-        if (text.includes('promotion')) setSettings(p => ({ ...p, promotions: false }));
-        if (text.includes('email')) setSettings(p => ({ ...p, promotions: false })); // assuming email maps to promos for demo
-      } else if (text.includes('enable') || text.includes('on') || text.includes('start')) {
-         if (text.includes('promotion')) setSettings(p => ({ ...p, promotions: true }));
-      }
+      utils.settings.get.invalidate();
     },
     onError: () => {
       toast.error('Failed to update settings via AI');
     }
   });
 
-  const toggle = (key: keyof typeof settings) => {
-    setSettings((prev) => ({ ...prev, [key]: !prev[key] }));
+  const toggle = (topic: NotificationTopic, channel: NotificationChannel) => {
+    if (!settings) return;
+    updateSettings({ notifications: [{ topic, channel, enabled: !settings[topic][channel] }] });
   };
 
   const handleAiSubmit = () => {
@@ -86,7 +91,7 @@ export default function S29NotificationSettings({ onBack }: S29Props) {
                <span className="text-sm font-medium">AI Assistant</span>
              </div>
              <p className="text-xs text-gray-500 mb-3">
-               Tell me how you want to be notified. E.g., "Turn off all promotions" or "Enable SMS for bookings".
+               Tell me how you want to be notified. E.g., "Turn off all promotions" or "Text me booking updates".
              </p>
              <div className="flex gap-2">
                <Input 
@@ -108,33 +113,39 @@ export default function S29NotificationSettings({ onBack }: S29Props) {
            </div>
         )}
 
-        <div className="space-y-3">
-          {notificationTypes.map((type) => (
-            <div
-              key={type.key}
-              className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100"
-            >
-              <div className="flex items-center justify-between">
-                <div className="flex-1">
-                  <p className="font-medium text-[#0A2540] mb-1">{type.label}</p>
-                  <p className="text-xs text-gray-500">{type.description}</p>
+        {isLoading && (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+          </div>
+        )}
+
+        {settings && (
+          <div className="space-y-3">
+            {notificationTypes.map((type) => (
+              <div
+                key={type.key}
+                className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100"
+              >
+                <p className="font-medium text-[#0A2540] mb-1">{type.label}</p>
+                <p className="text-xs text-gray-500 mb-3">{type.description}</p>
+                <div className="flex gap-2">
+                  {NOTIFICATION_CHANNELS.map((channel) => (
+                    <button
+                      key={channel}
+                      onClick={() => toggle(type.key, channel)}
+                      aria-pressed={settings[type.key][channel]}
+                      className={`flex-1 h-8 rounded-full text-xs font-medium transition-colors ${
+                        settings[type.key][channel] ? 'bg-[#FF4742] text-white' : 'bg-gray-100 text-gray-500'
+                      }`}
+                    >
+                      {NOTIFICATION_CHANNEL_LABELS[channel]}
+                    </button>
+                  ))}
                 </div>
-                <button
-                  onClick={() => toggle(type.key)}
-                  className={`relative w-12 h-6 rounded-full transition-colors ${
-                    settings[type.key] ? 'bg-[#FF4742]' : 'bg-gray-300'
-                  }`}
-                >
-                  <div
-                    className={`absolute top-1 left-1 w-4 h-4 rounded-full bg-white transition-transform ${
-                      settings[type.key] ? 'translate-x-6' : 'translate-x-0'
-                    }`}
-                  />
-                </button>
               </div>
-            </div>
-          ))}
-        </div>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   );
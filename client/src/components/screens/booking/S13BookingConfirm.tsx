@@ -2,11 +2,31 @@
 
 import type { Provider } from '@/lib/types';
 import { Icon, Button, Avatar } from '@/components/ui';
+import { trpc } from '@/lib/trpc';
+import { skipToken } from '@tanstack/react-query';
+import { useState } from 'react';
+
+const slotTimeFormat = new Intl.DateTimeFormat('en-US', { hour: 'numeric', minute: '2-digit' });
+
+function localDateKey(offsetDays: number) {
+  const date = new Date();
+  date.setDate(date.getDate() + offsetDays);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
 
 interface S13Props {
   provider: Provider;
   serviceType: string;
-  estimatedCost: { min: number; max: number };
+  /** The server quote (`booking.quote`) the booking is stored with; null while it loads or when there is none. */
+  estimatedCost: { min: number; max: number } | null;
+  /** True while the quote is loading; confirming waits for it. */
+  quoting?: boolean;
+  /** Quoted arrival time for ASAP jobs; falls back to the provider's own ETA. */
+  etaMinutes?: number | null | undefined;
+  /** Internal provider id; enables picking a real time slot instead of ASAP. */
+  providerId?: number | undefined;
+  /** Called with the chosen slot start (ISO), or null for ASAP. */
+  onScheduleChange?: (scheduledAt: string | null) => void;
   onConfirm: () => void;
   onCancel: () => void;
   onBack: () => void;
@@ -16,10 +36,34 @@ export default function S13BookingConfirm({
   provider,
   serviceType,
   estimatedCost,
+  quoting = false,
+  etaMinutes,
+  providerId,
+  onScheduleChange,
   onConfirm,
   onCancel,
   onBack,
 }: S13Props) {
+  const [pickingTime, setPickingTime] = useState(false);
+  const [dayOffset, setDayOffset] = useState(0);
+  const [scheduledAt, setScheduledAt] = useState<string | null>(null);
+  const slots = trpc.provider.getAvailableSlots.useQuery(
+    pickingTime && providerId ? { providerId, date: localDateKey(dayOffset), serviceType, yelpBusinessId: provider.yelpId ?? undefined } : skipToken
+  );
+
+  const chooseTime = (value: string | null) => {
+    setScheduledAt(value);
+    setPickingTime(false);
+    onScheduleChange?.(value);
+  };
+
+  const eta = etaMinutes ?? provider.eta;
+  const costLabel = estimatedCost ? `$${estimatedCost.min}-$${estimatedCost.max}` : quoting ? 'Calculating...' : 'Unavailable';
+
+  const whenLabel = scheduledAt
+    ? `${new Date(scheduledAt).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}, ${slotTimeFormat.format(new Date(scheduledAt))}`
+    : 'ASAP - Today';
+
   return (
     <div className="flex h-full flex-col bg-[#F7FAFC]">
       <div className="flex items-center justify-between px-4 pt-14 pb-4 bg-white border-b border-gray-100">
@@ -38,9 +82,11 @@ export default function S13BookingConfirm({
               <div className="flex items-center gap-2 mb-1">
                 <h2 className="text-lg font-bold text-[#0A2540]">{provider.name}</h2>
                 <span className="bg-[#2ECC71] text-white px-2 py-0.5 rounded-full text-xs font-medium">{provider.rating} ⭐</span>
-                <span className="ml-auto bg-[#2ECC71] text-white px-2 py-0.5 rounded-full text-xs font-medium">
-                  {provider.eta} min
-                </span>
+                {eta !== null && (
+                  <span className="ml-auto bg-[#2ECC71] text-white px-2 py-0.5 rounded-full text-xs font-medium">
+                    {eta} min
+                  </span>
+                )}
               </div>
               <div className="flex items-center gap-2 text-sm text-gray-600">
                 <Icon name="wrench" size="sm" className="text-gray-400" />
@@ -58,13 +104,53 @@ export default function S13BookingConfirm({
                 <Icon name="clock" size="sm" className="text-gray-400 mt-0.5" />
                 <div>
                   <p className="text-sm font-medium text-[#0A2540] mb-1">When</p>
-                  <p className="text-sm text-gray-700">ASAP - Today</p>
+                  <p className="text-sm text-gray-700">{whenLabel}</p>
                 </div>
               </div>
-              <button className="text-sm text-[#FF4742] hover:text-[#FF4742]/80 font-medium">
-                Change
-              </button>
+              {providerId !== undefined && (
+                <button
+                  onClick={() => setPickingTime(open => !open)}
+                  className="text-sm text-[#FF4742] hover:text-[#FF4742]/80 font-medium"
+                >
+                  Change
+                </button>
+              )}
             </div>
+            {pickingTime && (
+              <div className="rounded-xl border border-gray-100 p-3">
+                <div className="flex gap-2 mb-3">
+                  {['Today', 'Tomorrow'].map((label, offset) => (
+                    <button
+                      key={label}
+                      onClick={() => setDayOffset(offset)}
+                      className={`px-3 py-1 rounded-full text-xs font-medium ${dayOffset === offset ? 'bg-[#0A2540] text-white' : 'bg-gray-100 text-gray-600'}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                  <button onClick={() => chooseTime(null)} className="ml-auto text-xs font-medium text-[#FF4742]">
+                    ASAP
+                  </button>
+                </div>
+                {slots.isLoading ? (
+                  <p className="text-sm text-gray-500">Checking availability...</p>
+                ) : slots.data?.slots.length ? (
+                  <div className="grid grid-cols-3 gap-2">
+                    {slots.data.slots.map(slot => (
+                      <button
+                        key={slot.start}
+                        onClick={() => chooseTime(slot.start)}
+                        className={`py-2 rounded-lg text-sm border ${scheduledAt === slot.start ? 'border-[#FF4742] text-[#FF4742]' : 'border-gray-200 text-[#0A2540]'}`}
+                      >
+                        {slotTimeFormat.format(new Date(slot.start))}
+                      </button>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500">No open times on this day.</p>
+                )}
+              </div>
+            )}
             <div className="flex items-start justify-between">
               <div className="flex items-start gap-3">
                 <Icon name="map-pin" size="sm" className="text-gray-400 mt-0.5" />
@@ -85,16 +171,12 @@ export default function S13BookingConfirm({
           <div className="space-y-2">
             <div className="flex justify-between text-sm">
               <span className="text-gray-600">Service</span>
-              <span className="font-medium text-[#0A2540]">${estimatedCost.min}-${estimatedCost.max}</span>
-            </div>
-            <div className="flex justify-between text-sm">
-              <span className="text-gray-600">Service Fee</span>
-              <span className="font-medium text-[#0A2540]">$5.00</span>
+              <span className="font-medium text-[#0A2540]">{costLabel}</span>
             </div>
             <div className="border-t border-gray-200 pt-2 mt-2">
               <div className="flex justify-between">
                 <span className="font-semibold text-[#0A2540]">Total</span>
-                <span className="font-bold text-[#0A2540]">${estimatedCost.min + 5}-${estimatedCost.max + 5}</span>
+                <span className="font-bold text-[#0A2540]">{costLabel}</span>
               </div>
             </div>
           </div>
@@ -102,7 +184,7 @@ export default function S13BookingConfirm({
       </div>
 
       <div className="p-4 border-t border-gray-100 bg-white space-y-3">
-        <Button variant="primary" size="lg" fullWidth onClick={onConfirm}>
+        <Button variant="primary" size="lg" fullWidth onClick={onConfirm} disabled={quoting}>
           Confirm & Continue
         </Button>
         <button onClick={onCancel} className="w-full py-2 text-sm text-gray-500 hover:text-[#0A2540]">
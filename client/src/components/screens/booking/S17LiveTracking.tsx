@@ -2,23 +2,50 @@
 
 import type { Provider } from '@/lib/types';
 import { Button, Avatar } from '@/components/ui';
+import { useBookingLive } from '@/hooks/useBookingLive';
 import { motion } from 'framer-motion';
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
+
+const START_POSITION = { x: 30, y: 70 };
 
 interface S17Props {
   provider: Provider;
+  /** Server booking to follow live; without it the provider's approach is simulated. */
+  bookingId?: number | undefined;
   onCall: () => void;
   onMessage: () => void;
   onArrived: () => void;
 }
 
-export default function S17LiveTracking({ provider, onCall, onMessage, onArrived }: S17Props) {
+export default function S17LiveTracking({ provider, bookingId, onCall, onMessage, onArrived }: S17Props) {
   const [eta, setEta] = useState(provider.eta || 15);
-  const [providerPosition, setProviderPosition] = useState({ x: 30, y: 70 });
+  const [providerPosition, setProviderPosition] = useState(START_POSITION);
   const userPosition = { x: 50, y: 30 };
+  const live = useBookingLive(bookingId);
+  const initialEta = useRef<number | null>(null);
+
+  // Follow the booking's reported ETA: the pin moves toward the user as the ETA shrinks
+  useEffect(() => {
+    if (!live) return;
+    if (live.status === 'in_progress' || live.status === 'completed') {
+      onArrived();
+      return;
+    }
+    if (live.eta === null) return;
+
+    initialEta.current ??= Math.max(live.eta, 1);
+    const remaining = Math.min(1, live.eta / initialEta.current);
+    setEta(live.eta);
+    setProviderPosition({
+      x: userPosition.x + (START_POSITION.x - userPosition.x) * remaining,
+      y: userPosition.y + (START_POSITION.y - userPosition.y) * remaining
+    });
+  }, [live, onArrived]);
 
   // Simulate provider movement
   useEffect(() => {
+    if (bookingId) return;
+
     const moveInterval = setInterval(() => {
       setProviderPosition(prev => {
         const dx = (userPosition.x - prev.x) * 0.1;
@@ -40,7 +67,7 @@ export default function S17LiveTracking({ provider, onCall, onMessage, onArrived
     }, 2000);
 
     return () => clearInterval(moveInterval);
-  }, [onArrived]);
+  }, [bookingId, onArrived]);
 
   return (
     <div className="flex h-full flex-col bg-[#F7FAFC] relative">
@@ -3,17 +3,25 @@
 import { useState, useEffect } from 'react';
 import type { Provider } from '@/lib/types';
 import { Icon, Button } from '@/components/ui';
+import { useBookingLive } from '@/hooks/useBookingLive';
 
 interface S18Props {
   provider: Provider;
+  /** Server booking to follow live; completes the screen when the booking is marked completed. */
+  bookingId?: number | undefined;
   serviceType: string;
   onComplete: () => void;
   onReportIssue: () => void;
   onCall: () => void;
 }
 
-export default function S18JobInProgress({ provider, serviceType, onComplete, onReportIssue, onCall }: S18Props) {
+export default function S18JobInProgress({ provider, bookingId, serviceType, onComplete, onReportIssue, onCall }: S18Props) {
   const [elapsed, setElapsed] = useState(0);
+  const live = useBookingLive(bookingId);
+
+  useEffect(() => {
+    if (live?.status === 'completed') onComplete();
+  }, [live?.status, onComplete]);
 
   useEffect(() => {
     const interval = setInterval(() => {
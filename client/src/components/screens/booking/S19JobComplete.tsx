@@ -2,17 +2,29 @@
 
 import type { Provider } from '@/lib/types';
 import { Icon, Button } from '@/components/ui';
+import { receiptDownloadUrl, useBookingReceipt } from '@/hooks/useBookingReceipt';
 
 interface S19Props {
   provider: Provider;
+  /** Server booking whose receipt (`booking.getReceipt`) is shown and downloaded. */
+  bookingId?: number | undefined;
   serviceType: string;
-  duration: string;
-  breakdown: { service: number; parts: number; tax: number; total: number };
   onRate: () => void;
-  onDownloadReceipt: () => void;
 }
 
-export default function S19JobComplete({ provider, serviceType, duration, breakdown, onRate, onDownloadReceipt }: S19Props) {
+const formatCents = (cents: number) => `${cents < 0 ? '-' : ''}$${(Math.abs(cents) / 100).toFixed(2)}`;
+
+function formatDuration(startedAt: string | null, completedAt: string | null) {
+  if (!startedAt || !completedAt) return null;
+  const minutes = Math.max(0, Math.round((new Date(completedAt).getTime() - new Date(startedAt).getTime()) / 60_000));
+  const hours = Math.floor(minutes / 60);
+  return hours ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+}
+
+export default function S19JobComplete({ provider, bookingId, serviceType, onRate }: S19Props) {
+  const { receipt, isLoading } = useBookingReceipt(bookingId);
+  const duration = receipt ? formatDuration(receipt.startedAt, receipt.completedAt) : null;
+
   return (
     <div className="flex h-full flex-col bg-[#F7FAFC]">
       <div className="flex-1 overflow-y-auto px-6 py-6">
@@ -21,31 +33,33 @@ export default function S19JobComplete({ provider, serviceType, duration, breakd
             <Icon name="check-circle" size="xl" className="text-white" />
           </div>
           <h1 className="text-2xl font-bold text-[#0A2540] mb-2">Job Complete!</h1>
-          <p className="text-sm text-gray-600">{serviceType} completed successfully</p>
+          <p className="text-sm text-gray-600">
+            {serviceType} by {provider.name} completed successfully{duration ? ` in ${duration}` : ''}
+          </p>
         </div>
 
         <div className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100 mb-4">
           <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-4">BREAKDOWN</h3>
-          <div className="space-y-3">
-            <div className="flex justify-between text-sm">
-              <span className="text-gray-600">Service ({duration})</span>
-              <span className="font-medium text-[#0A2540]">${breakdown.service.toFixed(2)}</span>
-            </div>
-            <div className="flex justify-between text-sm">
-              <span className="text-gray-600">Parts/Materials</span>
-              <span className="font-medium text-[#0A2540]">${breakdown.parts.toFixed(2)}</span>
-            </div>
-            <div className="flex justify-between text-sm">
-              <span className="text-gray-600">Tax</span>
-              <span className="font-medium text-[#0A2540]">${breakdown.tax.toFixed(2)}</span>
-            </div>
-            <div className="border-t border-gray-200 pt-3 mt-3">
-              <div className="flex justify-between">
-                <span className="font-bold text-[#0A2540]">Total</span>
-                <span className="text-xl font-bold text-[#0A2540]">${breakdown.total.toFixed(2)}</span>
+          {receipt ? (
+            <div className="space-y-3">
+              {receipt.lineItems.map((item) => (
+                <div key={item.code} className="flex justify-between text-sm">
+                  <span className="text-gray-600">{item.label}</span>
+                  <span className="font-medium text-[#0A2540]">{formatCents(item.amountCents)}</span>
+                </div>
+              ))}
+              <div className="border-t border-gray-200 pt-3 mt-3">
+                <div className="flex justify-between">
+                  <span className="font-bold text-[#0A2540]">Total</span>
+                  <span className="text-xl font-bold text-[#0A2540]">{formatCents(receipt.totalCents)}</span>
+                </div>
               </div>
             </div>
-          </div>
+          ) : (
+            <p className="text-sm text-gray-600">
+              {isLoading ? 'Loading your receipt...' : 'Your receipt will be available once the booking is closed.'}
+            </p>
+          )}
         </div>
       </div>
 
@@ -53,11 +67,17 @@ export default function S19JobComplete({ provider, serviceType, duration, breakd
         <Button variant="primary" size="lg" fullWidth onClick={onRate}>
           Rate & Review
         </Button>
-        <button onClick={onDownloadReceipt} className="w-full py-2 text-sm text-gray-500 hover:text-[#0A2540]">
-          Download Receipt
-        </button>
+        {receipt && (
+          <a
+            href={receiptDownloadUrl(receipt.bookingId, 'pdf')}
+            target="_blank"
+            rel="noreferrer"
+            className="block w-full py-2 text-center text-sm text-gray-500 hover:text-[#0A2540]"
+          >
+            Download Receipt
+          </a>
+        )}
       </div>
     </div>
   );
 }
-
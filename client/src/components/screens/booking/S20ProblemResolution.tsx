@@ -2,21 +2,33 @@
 
 import { useState } from 'react';
 import { Icon, Button } from '@/components/ui';
+import { trpc } from '@/lib/trpc';
 
 interface S20Props {
+  /** Server booking the issue is about; when set, choosing an issue opens a dispute for the ops team. */
+  bookingId?: number | undefined;
   onSelectIssue: (issue: string) => void;
   onBack: () => void;
 }
 
-const issues = [
+const issues: { id: 'quality' | 'behavior' | 'pricing' | 'other', label: string, icon: string }[] = [
   { id: 'quality', label: 'Quality of work', icon: 'alert-circle' },
   { id: 'behavior', label: 'Provider behavior', icon: 'user' },
   { id: 'pricing', label: 'Pricing dispute', icon: 'credit-card' },
   { id: 'other', label: 'Other issue', icon: 'info' },
 ];
 
-export default function S20ProblemResolution({ onSelectIssue, onBack }: S20Props) {
+export default function S20ProblemResolution({ bookingId, onSelectIssue, onBack }: S20Props) {
   const [selected, setSelected] = useState<string | null>(null);
+  const openDispute = trpc.dispute.open.useMutation();
+
+  const reportIssue = async (issue: (typeof issues)[number]['id']) => {
+    setSelected(issue);
+    if (bookingId) {
+      await openDispute.mutateAsync({ bookingId, reason: issue });
+    }
+    onSelectIssue(issue);
+  };
 
   return (
     <div className="flex h-full flex-col bg-[#F7FAFC]">
@@ -35,10 +47,8 @@ export default function S20ProblemResolution({ onSelectIssue, onBack }: S20Props
           {issues.map((issue) => (
             <button
               key={issue.id}
-              onClick={() => {
-                setSelected(issue.id);
-                onSelectIssue(issue.id);
-              }}
+              disabled={openDispute.isPending}
+              onClick={() => void reportIssue(issue.id).catch(() => setSelected(null))}
               className={`w-full bg-white p-4 rounded-2xl shadow-sm border transition-all text-left ${
                 selected === issue.id ? 'border-[#0A2540] bg-[#0A2540]/5' : 'border-gray-100 hover:shadow-md'
               }`}
@@ -52,6 +62,8 @@ export default function S20ProblemResolution({ onSelectIssue, onBack }: S20Props
             </button>
           ))}
         </div>
+
+        {openDispute.error && <p className="text-sm text-[#FF4742] mt-4">{openDispute.error.message}</p>}
       </div>
     </div>
   );
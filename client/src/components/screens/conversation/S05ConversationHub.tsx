@@ -6,16 +6,23 @@
 
 import { useState, useEffect, useRef } from 'react';
 import { SCREENS, type ScreenId } from '@shared/lib/brand';
+import { useAuth } from '@/_core/hooks/useAuth';
 import type { Message } from '@/lib/types';
+import { trpc } from '@/lib/trpc';
 import { Icon } from '@/components/ui';
 import { ChatBubble } from '@/components/shared';
 
+/** Wait this long after the last keystroke before asking for suggestions. */
+const SUGGEST_DEBOUNCE_MS = 200;
+
 interface S05Props {
   onNavigate: (screen: ScreenId) => void;
   onSendMessage: (content: string) => void;
   messages: Message[];
   quickReplies?: string[];
   onQuickReply?: (reply: string) => void;
+  /** Progress of the reply being streamed (e.g. "Thinking…"); the reply's own text arrives through `messages`. */
+  streamStatus?: string | null | undefined;
 }
 
 export default function S05ConversationHub({ 
@@ -23,21 +30,59 @@ export default function S05ConversationHub({
   onSendMessage, 
   messages, 
   quickReplies = [],
-  onQuickReply 
+  onQuickReply,
+  streamStatus
 }: S05Props) {
   const [input, setInput] = useState('');
+  const [inputFocused, setInputFocused] = useState(false);
+  const [suggestPrefix, setSuggestPrefix] = useState('');
+  const [deviceLocation, setDeviceLocation] = useState<{ lat: number, lng: number } | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const { user } = useAuth();
+  const locationAllowed = user?.locationEnabled !== false;
+  const utils = trpc.useUtils();
+
+  const suggestions = trpc.search.suggest.useQuery(
+    { prefix: suggestPrefix || undefined, location: deviceLocation ?? undefined },
+    { enabled: inputFocused }
+  );
+  const refreshSuggestions = () => utils.search.suggest.invalidate();
+  const deleteHistoryEntry = trpc.search.deleteHistoryEntry.useMutation({ onSuccess: refreshSuggestions });
+  const clearHistory = trpc.search.clearHistory.useMutation({ onSuccess: refreshSuggestions });
+  const { recent = [], popular = [], services = [] } = suggestions.data ?? {};
+  const showSuggestions = inputFocused && recent.length + popular.length + services.length > 0;
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSuggestPrefix(input.trim()), SUGGEST_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [input]);
+
+  useEffect(() => {
+    if (!locationAllowed) return;
+    if (typeof window === 'undefined' || !('geolocation' in navigator)) return;
+
+    navigator.geolocation.getCurrentPosition(
+      (pos) => setDeviceLocation({ lat: pos.coords.latitude, lng: pos.coords.longitude }),
+      () => setDeviceLocation(null),
+      { maximumAge: 300_000 }
+    );
+  }, [locationAllowed]);
   const suggestedPrompts = ['Find a plumber 🔧', 'I need a locksmith 🔑', 'Best car wash nearby 🚗', 'Book a haircut 💇'];
 
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages, streamStatus]);
 
   const handleSend = () => {
     if (!input.trim()) return;
-    onSendMessage(input.trim());
+    sendText(input.trim());
+  };
+
+  const sendText = (text: string) => {
+    onSendMessage(text);
     setInput('');
+    setInputFocused(false);
   };
 
   return (
@@ -83,8 +128,22 @@ export default function S05ConversationHub({
         ) : (
           <div className="space-y-4">
             {messages.map((msg) => (
-              <ChatBubble key={msg.id} role={msg.role === 'user' ? 'user' : 'ai'} content={msg.content} isTyping={msg.isTyping ?? false} />
+              <ChatBubble
+                key={msg.id}
+                role={msg.role === 'user' ? 'user' : 'ai'}
+                content={msg.content}
+                isTyping={msg.isTyping ?? false}
+                metadata={msg.metadata}
+                onOptionSelect={onSendMessage}
+              />
             ))}
+
+            {streamStatus && (
+              <p className="ml-10 flex items-center gap-2 text-xs text-gray-400">
+                <span className="h-1.5 w-1.5 rounded-full bg-[#FF4742] animate-pulse" />
+                {streamStatus}
+              </p>
+            )}
             
             {/* Show quick reply buttons if available */}
             {quickReplies.length > 0 && onQuickReply && (
@@ -106,14 +165,78 @@ export default function S05ConversationHub({
         )}
       </div>
 
-      <div className="border-t border-gray-100 bg-white p-4">
+      <div className="relative border-t border-gray-100 bg-white p-4">
+        {/* Suggestions; mouse-down is cancelled so picking one doesn't blur the input first */}
+        {showSuggestions && (
+          <div
+            className="absolute bottom-full left-4 right-4 mb-2 max-h-72 overflow-y-auto rounded-2xl border border-gray-100 bg-white py-2 shadow-lg"
+            onMouseDown={(e) => e.preventDefault()}
+          >
+            {recent.length > 0 && (
+              <div className="flex items-center justify-between px-4 pb-1 pt-1">
+                <span className="text-xs text-gray-400">Recent</span>
+                <button
+                  onClick={() => clearHistory.mutate()}
+                  disabled={clearHistory.isPending}
+                  className="text-xs font-medium text-[#FF4742] hover:text-[#FF4742]/80"
+                >
+                  Clear history
+                </button>
+              </div>
+            )}
+            {recent.map((search) => (
+              <div key={`recent-${search.id}`} className="flex items-center gap-3 px-4 py-2 hover:bg-[#F7FAFC]">
+                <Icon name="clock" size="sm" className="text-gray-400" />
+                <button onClick={() => sendText(search.query)} className="flex-1 truncate text-left text-sm text-[#1A202C]">
+                  {search.query}
+                </button>
+                <button
+                  onClick={() => deleteHistoryEntry.mutate({ id: search.id })}
+                  aria-label={`Remove "${search.query}" from history`}
+                  className="text-gray-400 hover:text-[#0A2540]"
+                >
+                  <Icon name="x" size="sm" />
+                </button>
+              </div>
+            ))}
+            {popular.length > 0 && <p className="px-4 pb-1 pt-2 text-xs text-gray-400">Popular nearby</p>}
+            {popular.map((search) => (
+              <button
+                key={`popular-${search.query}`}
+                onClick={() => sendText(search.query)}
+                className="flex w-full items-center gap-3 px-4 py-2 text-left hover:bg-[#F7FAFC]"
+              >
+                <Icon name="map-pin" size="sm" className="text-gray-400" />
+                <span className="flex-1 truncate text-sm text-[#1A202C]">{search.query}</span>
+                <span className="text-xs text-gray-400">{search.searchers} people</span>
+              </button>
+            ))}
+            {services.length > 0 && <p className="px-4 pb-1 pt-2 text-xs text-gray-400">Services</p>}
+            {services.map((service) => (
+              <button
+                key={`service-${service.category}`}
+                onClick={() => sendText(service.text)}
+                className="flex w-full items-center gap-3 px-4 py-2 text-left hover:bg-[#F7FAFC]"
+              >
+                <Icon name="search" size="sm" className="text-gray-400" />
+                <span className="flex-1 truncate text-sm text-[#1A202C]">{service.text}</span>
+                <span className="text-xs text-gray-400">{service.label}</span>
+              </button>
+            ))}
+          </div>
+        )}
         <div className="flex items-center gap-2">
           <div className="flex-1 flex items-center gap-2 rounded-2xl bg-[#F7FAFC] px-4 py-3">
             <input
               type="text"
               value={input}
-              onChange={(e) => setInput(e.target.value)}
+              onChange={(e) => {
+                setInput(e.target.value);
+                setInputFocused(true);
+              }}
               onKeyDown={(e) => e.key === 'Enter' && handleSend()}
+              onFocus={() => setInputFocused(true)}
+              onBlur={() => setInputFocused(false)}
               placeholder="What do you need help with?"
               className="flex-1 bg-transparent outline-none text-sm text-[#1A202C] placeholder:text-gray-400"
             />
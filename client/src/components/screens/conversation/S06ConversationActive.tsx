@@ -56,7 +56,14 @@ export default function S06ConversationActive({
       <div className="flex-1 overflow-y-auto px-4 py-4">
         <div className="space-y-4">
           {messages.map((msg) => (
-            <ChatBubble key={msg.id} role={msg.role === 'user' ? 'user' : 'ai'} content={msg.content} isTyping={msg.isTyping} />
+            <ChatBubble
+              key={msg.id}
+              role={msg.role === 'user' ? 'user' : 'ai'}
+              content={msg.content}
+              isTyping={msg.isTyping}
+              metadata={msg.metadata}
+              onOptionSelect={onQuickReply}
+            />
           ))}
           {isTyping && <ChatBubble role="ai" content="" isTyping={true} />}
         </div>
@@ -30,11 +30,13 @@ export default function S09AIRecommendation({ provider, onBook, onSeeOthers, onV
 
       <div className="flex-1 overflow-y-auto px-4 py-4">
         <div className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100 mx-4 mb-4">
-          <div className="mb-4">
-            <span className="inline-flex items-center gap-1 bg-[#2ECC71] text-white px-3 py-1 rounded-full text-xs font-medium">
-              <span>•</span> Available in {provider.eta} mins
-            </span>
-          </div>
+          {provider.eta !== null && (
+            <div className="mb-4">
+              <span className="inline-flex items-center gap-1 bg-[#2ECC71] text-white px-3 py-1 rounded-full text-xs font-medium">
+                <span>•</span> Available in {provider.eta} mins
+              </span>
+            </div>
+          )}
 
           <div className="flex items-start gap-4 mb-6">
             <div className="flex-1">
@@ -62,20 +64,22 @@ export default function S09AIRecommendation({ provider, onBook, onSeeOthers, onV
             </div>
           </div>
 
-          <div className="border-t border-gray-100 pt-4">
-            <div className="flex items-center gap-2 mb-3">
-              <Icon name="zap" size="sm" className="text-[#2ECC71]" />
-              <h3 className="text-xs font-semibold text-[#2ECC71] uppercase tracking-wide">WHY I CHOSE {provider_first_name.toUpperCase()} FOR YOU</h3>
+          {provider.whyChosen.length > 0 && (
+            <div className="border-t border-gray-100 pt-4">
+              <div className="flex items-center gap-2 mb-3">
+                <Icon name="zap" size="sm" className="text-[#2ECC71]" />
+                <h3 className="text-xs font-semibold text-[#2ECC71] uppercase tracking-wide">WHY I CHOSE {provider_first_name.toUpperCase()} FOR YOU</h3>
+              </div>
+              <ul className="space-y-2">
+                {provider.whyChosen.map((reason, idx) => (
+                  <li key={idx} className="flex items-start gap-2 text-sm text-gray-700">
+                    <Icon name="check" size="xs" className="text-[#2ECC71] mt-0.5 flex-shrink-0" />
+                    <span>{reason}</span>
+                  </li>
+                ))}
+              </ul>
             </div>
-            <ul className="space-y-2">
-              {provider.whyChosen.map((reason, idx) => (
-                <li key={idx} className="flex items-start gap-2 text-sm text-gray-700">
-                  <Icon name="check" size="xs" className="text-[#2ECC71] mt-0.5 flex-shrink-0" />
-                  <span>{reason}</span>
-                </li>
-              ))}
-            </ul>
-          </div>
+          )}
         </div>
 
         <div className="pb-6 space-y-3">
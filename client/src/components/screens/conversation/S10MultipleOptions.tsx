@@ -64,7 +64,7 @@ export default function S10MultipleOptions({ providers, onSelectProvider, onBack
                         </ul>
                         <div className="mt-3 flex items-center justify-between text-xs">
                           <span className="text-gray-600">${provider.hourlyRate}/hr</span>
-                          <span className="text-[#2ECC71] font-medium">{provider.eta} min ETA</span>
+                          {provider.eta !== null && <span className="text-[#2ECC71] font-medium">{provider.eta} min ETA</span>}
                         </div>
                       </div>
                     )}
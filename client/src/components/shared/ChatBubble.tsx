@@ -1,9 +1,10 @@
 // file: client/src/components/shared/ChatBubble.tsx
-// description: Chat bubble UI component for user/AI messages with optional typing indicator
-// reference: client/src/components/ui/avatar.tsx, client/src/lib/types.ts
+// description: Chat bubble UI component for user/AI messages with optional typing indicator and metadata cards
+// reference: client/src/components/ui/avatar.tsx, client/src/lib/types.ts, shared/messageMetadata.ts
 
 'use client';
 
+import { type MessageMetadata, splitClarification } from '@shared/messageMetadata';
 import { cn } from '@/lib/utils';
 import { Avatar } from '@/components/ui';
 
@@ -15,6 +16,10 @@ interface ChatBubbleProps {
   timestamp?: Date | undefined;
   isTyping?: boolean | undefined;
   avatar?: string | undefined;
+  /** Structured payload of an assistant message, rendered as cards under the text. */
+  metadata?: MessageMetadata | null | undefined;
+  /** Called with the option a user taps under a clarifying question. */
+  onOptionSelect?: ((option: string) => void) | undefined;
 }
 
 export function ChatBubble({ 
@@ -23,8 +28,12 @@ export function ChatBubble({
   timestamp,
   isTyping = false,
   avatar,
+  metadata,
+  onOptionSelect,
 }: ChatBubbleProps) {
   const isUser = role === 'user';
+  // The options are shown as buttons, so they are left out of the text
+  const text = metadata?.kind === 'clarification' ? splitClarification(content).body : content;
 
   return (
     <div className={cn(
@@ -54,7 +63,10 @@ export function ChatBubble({
             <div className="h-2 w-2 rounded-full bg-current opacity-40 animate-bounce" style={{ animationDelay: '300ms' }} />
           </div>
         ) : (
-          <p className="text-sm leading-relaxed">{content}</p>
+          <>
+            <p className="text-sm leading-relaxed whitespace-pre-wrap">{text}</p>
+            {metadata && <MessageMetadataCard metadata={metadata} onOptionSelect={onOptionSelect} />}
+          </>
         )}
       </div>
 
@@ -68,6 +80,63 @@ export function ChatBubble({
   );
 }
 
+interface MessageMetadataCardProps {
+  metadata: MessageMetadata;
+  onOptionSelect?: ((option: string) => void) | undefined;
+}
+
+/** Option buttons, recommended providers or a progress bar, depending on the message's metadata. */
+export function MessageMetadataCard({ metadata, onOptionSelect }: MessageMetadataCardProps) {
+  if (metadata.kind === 'clarification') {
+    return metadata.options.length > 0 ? (
+      <div className="mt-3 flex flex-wrap gap-2">
+        {metadata.options.map((option) => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => onOptionSelect?.(option)}
+            disabled={!onOptionSelect}
+            className="rounded-full border border-gray-200 bg-white px-3 py-1.5 text-xs font-medium text-[#FF4742] hover:bg-[#FF4742] hover:text-white transition-all disabled:pointer-events-none"
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+    ) : null;
+  }
+
+  if (metadata.kind === 'recommendation') {
+    return (
+      <div className="mt-3 space-y-2">
+        {metadata.providers.map((provider) => (
+          <a
+            key={provider.yelpBusinessId}
+            href={provider.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex gap-3 rounded-xl border border-gray-100 bg-[#F7FAFC] p-2 hover:shadow-sm transition-all"
+          >
+            {provider.imageUrl && (
+              <img src={provider.imageUrl} alt="" className="h-12 w-12 flex-shrink-0 rounded-lg object-cover" />
+            )}
+            <div className="min-w-0">
+              <p className="truncate text-sm font-semibold text-[#0A2540]">{provider.name}</p>
+              <p className="text-xs text-gray-500">{provider.reason}</p>
+              {provider.address && <p className="truncate text-xs text-gray-400">{provider.address}</p>}
+            </div>
+          </a>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-3 h-1.5 w-full overflow-hidden rounded-full bg-gray-100">
+      <div className="h-full rounded-full bg-[#FF4742] transition-all" style={{ width: `${Math.round(metadata.progress * 100)}%` }} />
+    </div>
+  );
+}
+
 export function TypingIndicator() {
   return (
     <div className="flex gap-2">
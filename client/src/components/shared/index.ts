@@ -1,5 +1,5 @@
 export { PhoneFrame } from './PhoneFrame';
 export { StatusBar } from './StatusBar';
-export { ChatBubble, TypingIndicator } from './ChatBubble';
+export { ChatBubble, MessageMetadataCard, TypingIndicator } from './ChatBubble';
 export { ScreenNavigator } from './ScreenNavigator';
 
@@ -0,0 +1,92 @@
+'use client';
+
+import { useCallback, useRef, useState } from 'react';
+import type { RecommendedProvider } from '@shared/messageMetadata';
+import { skipToken } from '@tanstack/react-query';
+import { trpc } from '@/lib/trpc';
+import type { inferRouterOutputs } from '@trpc/server';
+import type { AppRouter } from '../../../server/routers';
+
+// Events are tracked (`{ id, data }`) so a reconnect resumes after the last one received
+type TrackedStreamEvent = inferRouterOutputs<AppRouter>['conversation']['streamMessage'] extends AsyncIterable<infer Event> ? Event : never;
+type StreamEvent = TrackedStreamEvent['data'];
+
+export type StreamMessageInput = { conversationId: number; content: string; location?: { lat: number; lng: number } };
+export type SavedAssistantMessage = NonNullable<Extract<StreamEvent, { type: 'done' }>['message']>;
+
+export type AssistantReply = {
+  text: string;
+  status: string | null;
+  /** 0 to 1 while waiting for the reply's text, otherwise null. */
+  progress: number | null;
+  providers: RecommendedProvider[];
+  message: SavedAssistantMessage | null;
+  error: string | null;
+};
+
+export type AssistantStreamHandlers = {
+  /** Called with the whole reply so far after every delta. */
+  onText?: (text: string) => void;
+  onProviders?: (providers: RecommendedProvider[]) => void;
+  onDone?: (reply: AssistantReply) => void;
+  onError?: (message: string) => void;
+};
+
+const EMPTY_REPLY: AssistantReply = { text: '', status: null, progress: null, providers: [], message: null, error: null };
+
+/**
+ * One streamed assistant reply at a time over `conversation.streamMessage`. `send` starts a reply (replacing any in
+ * flight) and `cancel` stops listening; the server saves the reply either way. A dropped connection reconnects to the
+ * same reply instead of sending the message again.
+ */
+export function useAssistantStream(handlers: AssistantStreamHandlers = {}) {
+  const [input, setInput] = useState<(StreamMessageInput & { clientMessageId: string }) | null>(null);
+  const [reply, setReply] = useState<AssistantReply | null>(null);
+  const replyRef = useRef<AssistantReply>(EMPTY_REPLY);
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  const update = (next: AssistantReply) => {
+    replyRef.current = next;
+    setReply(next);
+  };
+
+  trpc.conversation.streamMessage.useSubscription(input ?? skipToken, {
+    onData: ({ data: event }) => {
+      const current = replyRef.current;
+      if (event.type === 'status') {
+        update({ ...current, status: event.message, progress: event.progress });
+      } else if (event.type === 'delta') {
+        update({ ...current, text: current.text + event.text, progress: null });
+        handlersRef.current.onText?.(replyRef.current.text);
+      } else if (event.type === 'providers') {
+        update({ ...current, providers: event.providers });
+        handlersRef.current.onProviders?.(event.providers);
+      } else {
+        update({ ...current, status: null, progress: null, message: event.message });
+        setInput(null);
+        handlersRef.current.onDone?.(replyRef.current);
+      }
+    },
+    onError: error => {
+      update({ ...replyRef.current, status: null, progress: null, error: error.message });
+      setInput(null);
+      handlersRef.current.onError?.(error.message);
+    }
+  });
+
+  const send = useCallback((next: StreamMessageInput) => {
+    update(EMPTY_REPLY);
+    // Identifies the message to the server, which runs the reply once however often the stream reconnects
+    setInput({ ...next, clientMessageId: crypto.randomUUID() });
+  }, []);
+
+  const cancel = useCallback(() => {
+    setInput(null);
+    setReply(prev => prev && { ...prev, status: null, progress: null });
+  }, []);
+
+  return { reply, isStreaming: input !== null, send, cancel };
+}
+
+export default useAssistantStream;
@@ -0,0 +1,38 @@
+'use client';
+
+import { useState } from 'react';
+import { skipToken } from '@tanstack/react-query';
+import { trpc } from '@/lib/trpc';
+
+export type BookingLiveState = {
+  status: 'pending' | 'confirmed' | 'in_progress' | 'completed' | 'cancelled';
+  lat: string | null;
+  lng: string | null;
+  eta: number | null;
+  updatedAt: string;
+};
+
+/**
+ * Live status and provider position/ETA for a booking, streamed from `booking.onUpdate`.
+ * Returns `null` until the first snapshot arrives, or when no booking id is given.
+ */
+export function useBookingLive(bookingId: number | null | undefined) {
+  const [live, setLive] = useState<BookingLiveState | null>(null);
+
+  trpc.booking.onUpdate.useSubscription(bookingId ? { bookingId } : skipToken, {
+    onData: event => {
+      setLive(prev => {
+        if (event.type === 'snapshot') {
+          return { status: event.status, lat: event.lat, lng: event.lng, eta: event.eta, updatedAt: event.at };
+        }
+        if (!prev) return prev;
+        if (event.type === 'status') return { ...prev, status: event.status, updatedAt: event.at };
+        return { ...prev, lat: event.lat, lng: event.lng, eta: event.eta, updatedAt: event.at };
+      });
+    }
+  });
+
+  return live;
+}
+
+export default useBookingLive;
@@ -0,0 +1,26 @@
+'use client';
+
+import { skipToken } from '@tanstack/react-query';
+import { trpc } from '@/lib/trpc';
+
+export type ReceiptDownloadFormat = 'html' | 'pdf';
+
+export function receiptDownloadUrl(bookingId: number, format: ReceiptDownloadFormat = 'pdf') {
+  return `/api/receipts/${bookingId}?format=${format}`;
+}
+
+/**
+ * Server-generated receipt for a completed booking (`booking.getReceipt`), plus a download helper for the PDF/HTML copy.
+ * `receipt` stays undefined when no booking id is given or the booking has no receipt yet.
+ */
+export function useBookingReceipt(bookingId: number | null | undefined) {
+  const query = trpc.booking.getReceipt.useQuery(bookingId ? { id: bookingId } : skipToken, { retry: false });
+
+  const download = (format: ReceiptDownloadFormat = 'pdf') => {
+    if (bookingId) window.open(receiptDownloadUrl(bookingId, format), '_blank');
+  };
+
+  return { receipt: query.data, isLoading: query.isLoading, error: query.error, download };
+}
+
+export default useBookingReceipt;
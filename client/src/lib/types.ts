@@ -1,4 +1,5 @@
 import type { ScreenId } from '@shared/lib/brand';
+import type { MessageMetadata } from '@shared/messageMetadata';
 
 // ============================================================================
 // MESSAGE TYPES
@@ -13,6 +14,8 @@ export interface Message {
   timestamp: Date;
   quickReplies?: string[];
   recommendation?: Provider;
+  /** Structured payload of a saved assistant message (clarification, recommendation or status). */
+  metadata?: MessageMetadata | null | undefined;
   isTyping?: boolean;
 }
 
@@ -27,7 +30,7 @@ export interface Provider {
   rating: number;
   reviewCount: number;
   distance: number;
-  eta: number;
+  eta: number | null; // minutes; null when the provider does not publish one
   hourlyRate: number;
   callOutFee: number;
   specialties: string[];
@@ -12,7 +12,7 @@ import { trpc } from '@/lib/trpc';
 interface ProviderOption {
   id: number;
   yelpId?: string | null;
-  source?: 'yelp' | 'internal';
+  source?: 'yelp' | 'internal' | 'mock';
   name: string;
   category: string;
   description?: string | null;
@@ -75,7 +75,8 @@ export default function AISearchRadar({ query, onComplete, onSkip }: AISearchRad
     );
   }, [locationAllowed]);
 
-  const { data: providers, isLoading } = trpc.provider.search.useQuery({ query, location: deviceLocation ?? undefined });
+  const { data, isLoading } = trpc.provider.search.useQuery({ query, location: deviceLocation ?? undefined });
+  const providers = data?.items;
 
   const topProvider = useMemo<ProviderOption | null>(() => {
     if (providers && providers.length > 0) return providers[0] as ProviderOption;
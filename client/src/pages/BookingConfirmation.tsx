@@ -8,6 +8,7 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
+import { trpc } from '@/lib/trpc';
 import { motion } from 'framer-motion';
 import { ArrowLeft, Check, Clock, MapPin, Star, Wrench } from 'lucide-react';
 import { useState } from 'react';
@@ -49,8 +50,9 @@ export default function BookingConfirmation({ provider, serviceType, onConfirm,
   const rating = provider.rating ? (provider.rating / 10).toFixed(1) : '4.9';
   const hourlyRate = provider.hourlyRate || 85;
   const callOutFee = provider.callOutFee || 0;
-  const estimatedMin = hourlyRate;
-  const estimatedMax = hourlyRate * 2;
+  const quote = trpc.booking.quote.useQuery({ providerId: provider.id, serviceType, isAsap });
+  const estimatedMin = quote.data?.estimatedCost.min ?? hourlyRate;
+  const estimatedMax = quote.data?.estimatedCost.max ?? hourlyRate * 2;
 
   const handleConfirm = () => {
     const basePayload = { isAsap, locationAddress, specialInstructions };
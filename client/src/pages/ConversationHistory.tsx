@@ -1,10 +1,16 @@
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { trpc } from '@/lib/trpc';
+import { serviceLabel } from '@shared/taxonomy';
 import { formatDistanceToNow } from 'date-fns';
 import { motion } from 'framer-motion';
-import { ArrowLeft, Clock, MessageCircle, Plus } from 'lucide-react';
+import { ArrowLeft, Clock, MessageCircle, Plus, Search } from 'lucide-react';
+import { useEffect, useState } from 'react';
+
+/** Wait this long after the last keystroke before searching. */
+const SEARCH_DEBOUNCE_MS = 300;
 
 interface ConversationHistoryProps {
   onSelectConversation: (conversationId: number) => void;
@@ -14,6 +20,15 @@ interface ConversationHistoryProps {
 
 export default function ConversationHistory({ onSelectConversation, onNewConversation, onBack }: ConversationHistoryProps) {
   const { data: conversations, isLoading } = trpc.conversation.list.useQuery();
+  const [searchText, setSearchText] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const isSearching = searchQuery.length > 0;
+  const { data: searchResults, isFetching: isSearchFetching } = trpc.conversation.search.useQuery({ query: searchQuery }, { enabled: isSearching });
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSearchQuery(searchText.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchText]);
 
   return (
     <div className='min-h-screen bg-background flex flex-col'>
@@ -30,10 +45,54 @@ export default function ConversationHistory({ onSelectConversation, onNewConvers
         </Button>
       </div>
 
+      {/* Search */}
+      <div className='px-4 pt-4'>
+        <div className='relative'>
+          <Search className='w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground' />
+          <Input
+            value={searchText}
+            onChange={(event) => setSearchText(event.target.value)}
+            placeholder='Search your conversations'
+            className='pl-9'
+            aria-label='Search conversations' />
+        </div>
+      </div>
+
       {/* Conversation List */}
       <ScrollArea className='flex-1'>
         <div className='p-4 space-y-3'>
-          {isLoading ?
+          {isSearching ?
+            (
+              searchResults && searchResults.length > 0 ?
+                searchResults.map(({ conversation, matches }) => (
+                  <Card
+                    key={conversation.id}
+                    className='cursor-pointer hover:shadow-md transition-shadow'
+                    onClick={() => onSelectConversation(conversation.id)}>
+                    <CardContent className='p-4'>
+                      <h3 className='font-medium text-foreground truncate'>{conversation.title || 'New conversation'}</h3>
+                      <div className='mt-2 space-y-1'>
+                        {matches.map((match) => (
+                          <p key={match.messageId} className='text-sm text-muted-foreground line-clamp-2'>
+                            <span className='font-medium'>{match.role === 'user' ? 'You' : 'YUBER'}:</span>{' '}
+                            {match.snippet.map((segment, index) =>
+                              segment.match ?
+                                <mark key={index} className='bg-primary/20 text-foreground rounded-sm'>{segment.text}</mark> :
+                                <span key={index}>{segment.text}</span>
+                            )}
+                          </p>
+                        ))}
+                      </div>
+                    </CardContent>
+                  </Card>
+                )) :
+                (
+                  <p className='text-center text-muted-foreground py-12'>
+                    {isSearchFetching ? 'Searching…' : `No conversations mention "${searchQuery}"`}
+                  </p>
+                )
+            ) :
+            isLoading ?
             (
               <div className='space-y-3'>
                 {[1, 2, 3].map((i) => (
@@ -67,7 +126,7 @@ export default function ConversationHistory({ onSelectConversation, onNewConvers
                           {conversation.serviceType && (
                             <>
                               <span>•</span>
-                              <span className='capitalize'>{conversation.serviceType}</span>
+                              <span>{serviceLabel(conversation.serviceType)}</span>
                             </>
                           )}
                         </div>
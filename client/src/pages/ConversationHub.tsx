@@ -2,7 +2,9 @@
 // description: Conversational hub screen with messaging and quick prompts
 // reference: client/src/lib/trpc.ts, client/src/_core/hooks/useAuth.ts
 'use client';
+import { type MessageMetadata, splitClarification } from '@shared/messageMetadata';
 import { useAuth } from '@/_core/hooks/useAuth';
+import { MessageMetadataCard } from '@/components/shared';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
@@ -16,6 +18,7 @@ interface Message {
   role: 'user' | 'assistant';
   content: string;
   messageType?: string;
+  metadata?: MessageMetadata | null;
   createdAt?: Date;
 }
 
@@ -61,7 +64,7 @@ export default function ConversationHub({ onMenuOpen, onSearchStart, conversatio
   useEffect(() => {
     if (existingMessages) {
       setMessages(existingMessages.map((m) => {
-        const baseMessage: Message = { id: m.id, role: m.role as 'user' | 'assistant', content: m.content };
+        const baseMessage: Message = { id: m.id, role: m.role as 'user' | 'assistant', content: m.content, metadata: m.metadata };
         const messageType = m.messageType;
         const createdAt = m.createdAt ? new Date(m.createdAt) : null;
 
@@ -226,7 +229,7 @@ export default function ConversationHub({ onMenuOpen, onSearchStart, conversatio
         const response = await sendMessage.mutateAsync({ conversationId: currentConversationId, content: content.trim() });
 
         if (response) {
-          const aiMessageBase: Message = { id: response.id, role: 'assistant', content: response.content };
+          const aiMessageBase: Message = { id: response.id, role: 'assistant', content: response.content, metadata: response.metadata };
           const messageType = response.messageType;
           setMessages(prev => [...prev, messageType ? { ...aiMessageBase, messageType } : aiMessageBase]);
         }
@@ -293,7 +296,10 @@ export default function ConversationHub({ onMenuOpen, onSearchStart, conversatio
                   className={`chat-bubble ${message.role === 'user' ? 'chat-bubble-user' : 'chat-bubble-ai'} ${
                     message.messageType === 'status' ? 'italic text-muted-foreground' : ''
                   }`}>
-                  <p className='text-base whitespace-pre-wrap'>{message.content}</p>
+                  <p className='text-base whitespace-pre-wrap'>
+                    {message.metadata?.kind === 'clarification' ? splitClarification(message.content).body : message.content}
+                  </p>
+                  {message.metadata && <MessageMetadataCard metadata={message.metadata} onOptionSelect={handlePromptClick} />}
                 </div>
               </motion.div>
             ))}
@@ -2,6 +2,7 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
+import { useBookingReceipt } from '@/hooks/useBookingReceipt';
 import { motion } from 'framer-motion';
 import { AlertCircle, Check, Clock, CreditCard, Download, Share2, Star, Wrench } from 'lucide-react';
 
@@ -22,6 +23,8 @@ interface JobCompleteReceiptProps {
   tipAmount: number;
   totalAmount: number;
   paymentMethod: string;
+  /** When set, amounts come from the server receipt for this booking and Download fetches its PDF. */
+  receiptBookingId?: number | undefined;
   onRateReview: () => void;
   onReportProblem: () => void;
   onGoHome: () => void;
@@ -39,11 +42,13 @@ export default function JobCompleteReceipt(
     tipAmount,
     totalAmount,
     paymentMethod,
+    receiptBookingId,
     onRateReview,
     onReportProblem,
     onGoHome
   }: JobCompleteReceiptProps
 ) {
+  const { receipt, download } = useBookingReceipt(receiptBookingId);
   const duration = Math.round((endTime.getTime() - startTime.getTime()) / 60000);
   const formatDuration = (minutes: number) => {
     const hrs = Math.floor(minutes / 60);
@@ -116,7 +121,7 @@ export default function JobCompleteReceipt(
               <div className='flex items-center justify-between mb-4'>
                 <h3 className='font-semibold text-foreground'>Receipt</h3>
                 <div className='flex gap-2'>
-                  <Button variant='ghost' size='icon'>
+                  <Button variant='ghost' size='icon' disabled={!receipt} onClick={() => download('pdf')}>
                     <Download className='w-4 h-4' />
                   </Button>
                   <Button variant='ghost' size='icon'>
@@ -128,7 +133,7 @@ export default function JobCompleteReceipt(
               <div className='space-y-3 text-sm'>
                 <div className='flex justify-between'>
                   <span className='text-muted-foreground'>Booking ID</span>
-                  <span className='text-foreground font-mono'>{bookingId}</span>
+                  <span className='text-foreground font-mono'>{receipt?.orderId ?? bookingId}</span>
                 </div>
                 <div className='flex justify-between'>
                   <span className='text-muted-foreground flex items-center gap-1'>
@@ -148,28 +153,39 @@ export default function JobCompleteReceipt(
 
                 <Separator className='my-3' />
 
-                <div className='flex justify-between'>
-                  <span className='text-muted-foreground'>Labor</span>
-                  <span className='text-foreground'>${laborCost.toFixed(2)}</span>
-                </div>
-                {materialsCost > 0 && (
-                  <div className='flex justify-between'>
-                    <span className='text-muted-foreground'>Materials</span>
-                    <span className='text-foreground'>${materialsCost.toFixed(2)}</span>
-                  </div>
-                )}
-                {tipAmount > 0 && (
-                  <div className='flex justify-between'>
-                    <span className='text-muted-foreground'>Tip</span>
-                    <span className='text-foreground'>${tipAmount.toFixed(2)}</span>
-                  </div>
-                )}
+                {receipt
+                  ? receipt.lineItems.map(item => (
+                    <div key={item.code} className='flex justify-between'>
+                      <span className='text-muted-foreground'>{item.label}</span>
+                      <span className='text-foreground'>{item.amountCents < 0 ? '-' : ''}${(Math.abs(item.amountCents) / 100).toFixed(2)}</span>
+                    </div>
+                  ))
+                  : (
+                    <>
+                      <div className='flex justify-between'>
+                        <span className='text-muted-foreground'>Labor</span>
+                        <span className='text-foreground'>${laborCost.toFixed(2)}</span>
+                      </div>
+                      {materialsCost > 0 && (
+                        <div className='flex justify-between'>
+                          <span className='text-muted-foreground'>Materials</span>
+                          <span className='text-foreground'>${materialsCost.toFixed(2)}</span>
+                        </div>
+                      )}
+                      {tipAmount > 0 && (
+                        <div className='flex justify-between'>
+                          <span className='text-muted-foreground'>Tip</span>
+                          <span className='text-foreground'>${tipAmount.toFixed(2)}</span>
+                        </div>
+                      )}
+                    </>
+                  )}
 
                 <Separator className='my-3' />
 
                 <div className='flex justify-between text-base'>
                   <span className='font-semibold text-foreground'>Total</span>
-                  <span className='font-bold text-foreground'>${totalAmount.toFixed(2)}</span>
+                  <span className='font-bold text-foreground'>${(receipt ? receipt.totalCents / 100 : totalAmount).toFixed(2)}</span>
                 </div>
 
                 <div className='flex justify-between text-sm pt-2'>
@@ -177,7 +193,9 @@ export default function JobCompleteReceipt(
                     <CreditCard className='w-3.5 h-3.5' />
                     Payment
                   </span>
-                  <span className='text-foreground'>{paymentMethod}</span>
+                  <span className='text-foreground'>
+                    {receipt?.paymentMethod ? `${receipt.paymentMethod.cardType} •••• ${receipt.paymentMethod.lastFour}` : paymentMethod}
+                  </span>
                 </div>
               </div>
             </CardContent>
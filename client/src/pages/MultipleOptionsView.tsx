@@ -1,20 +1,21 @@
 // file: client/src/pages/MultipleOptionsView.tsx
-// description: Lists alternative providers for a service type and lets users pick one
+// description: Lists alternative providers for a service type with filter chips, sorting and "show more" paging
 // reference: client/src/lib/trpc.ts, client/src/App.tsx
 
 import { useAuth } from '@/_core/hooks/useAuth';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { trpc } from '@/lib/trpc';
 import { motion } from 'framer-motion';
 import { ArrowLeft, MapPin, Star } from 'lucide-react';
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 
 interface ProviderOption {
   id: number;
   yelpId?: string | null;
-  source?: 'yelp' | 'internal';
+  source?: 'yelp' | 'internal' | 'mock';
   name: string;
   category: string;
   description?: string | null;
@@ -30,6 +31,35 @@ interface ProviderOption {
   servicesOffered?: string[] | null;
 }
 
+type SortMode = 'best_match' | 'rating' | 'distance' | 'price';
+
+interface SearchFilters {
+  minRating?: number;
+  maxDistanceMiles?: number;
+  priceLevels?: number[];
+  openNow?: boolean;
+  ecoFriendly?: boolean;
+  transactions?: Array<'delivery' | 'pickup' | 'restaurant_reservation'>;
+}
+
+const PAGE_SIZE = 10;
+
+const FILTER_CHIPS: { id: string, label: string, filters: SearchFilters }[] = [
+  { id: 'open_now', label: 'Open now', filters: { openNow: true } },
+  { id: 'top_rated', label: '4.5+ stars', filters: { minRating: 4.5 } },
+  { id: 'nearby', label: 'Within 5 mi', filters: { maxDistanceMiles: 5 } },
+  { id: 'budget', label: '$ – $$', filters: { priceLevels: [1, 2] } },
+  { id: 'eco', label: 'Eco-friendly', filters: { ecoFriendly: true } },
+  { id: 'delivery', label: 'Delivery', filters: { transactions: ['delivery'] } }
+];
+
+const SORT_OPTIONS: { value: SortMode, label: string }[] = [
+  { value: 'best_match', label: 'Best match' },
+  { value: 'rating', label: 'Top rated' },
+  { value: 'distance', label: 'Nearest' },
+  { value: 'price', label: 'Lowest price' }
+];
+
 interface MultipleOptionsViewProps {
   serviceType: string;
   onSelectProvider: (provider: ProviderOption) => void;
@@ -52,15 +82,23 @@ export default function MultipleOptionsView({ serviceType, onSelectProvider, onB
     );
   }, [locationAllowed]);
 
-  const { data: providers, isLoading } = trpc.provider.search.useQuery({ query: serviceType, location: deviceLocation ?? undefined });
+  const [activeChips, setActiveChips] = useState<string[]>([]);
+  const [sort, setSort] = useState<SortMode>('best_match');
+  const filters = useMemo(
+    () => FILTER_CHIPS.filter(chip => activeChips.includes(chip.id)).reduce<SearchFilters>((all, chip) => ({ ...all, ...chip.filters }), {}),
+    [activeChips]
+  );
 
-  if (isLoading) {
-    return (
-      <div className='min-h-screen bg-background flex items-center justify-center'>
-        <div className='animate-pulse text-muted-foreground'>Loading options...</div>
-      </div>
-    );
-  }
+  // Filters and sort are part of the query key, so changing them starts again from the first page
+  const search = trpc.provider.search.useInfiniteQuery(
+    { query: serviceType, location: deviceLocation ?? undefined, filters, sort, limit: PAGE_SIZE },
+    { getNextPageParam: lastPage => lastPage.nextCursor }
+  );
+  const providers = search.data?.pages.flatMap(page => page.items) ?? [];
+
+  const toggleChip = (id: string) => {
+    setActiveChips(current => (current.includes(id) ? current.filter(chip => chip !== id) : [...current, id]));
+  };
 
   return (
     <div className='min-h-screen bg-background'>
@@ -72,15 +110,49 @@ export default function MultipleOptionsView({ serviceType, onSelectProvider, onB
           </Button>
           <div>
             <h1 className='text-lg font-semibold text-foreground'>Other great options for you</h1>
-            <p className='text-sm text-muted-foreground'>{providers?.length || 0} providers found</p>
+            <p className='text-sm text-muted-foreground'>
+              {providers.length}{search.hasNextPage ? '+' : ''} providers found
+            </p>
           </div>
         </div>
+
+        {/* Filters and sort */}
+        <div className='flex items-center gap-2 px-4 pb-3 overflow-x-auto'>
+          <Select value={sort} onValueChange={value => setSort(value as SortMode)}>
+            <SelectTrigger size='sm' className='shrink-0'>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SORT_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {FILTER_CHIPS.map(chip => (
+            <Button
+              key={chip.id}
+              size='sm'
+              variant={activeChips.includes(chip.id) ? 'default' : 'outline'}
+              className='rounded-full shrink-0'
+              onClick={() => toggleChip(chip.id)}>
+              {chip.label}
+            </Button>
+          ))}
+        </div>
       </div>
 
       {/* Provider List */}
       <div className='p-4 space-y-3'>
-        {providers?.map((provider: ProviderOption, index: number) => (
-          <motion.div key={provider.id} initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: index * 0.05 }}>
+        {search.isLoading && (
+          <div className='py-12 text-center animate-pulse text-muted-foreground'>Loading options...</div>
+        )}
+
+        {providers.map((provider: ProviderOption, index: number) => (
+          <motion.div
+            key={`${provider.source}-${provider.id}`}
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: (index % PAGE_SIZE) * 0.05 }}>
             <Card
               className='cursor-pointer hover:shadow-md transition-shadow'
               onClick={() => onSelectProvider(provider as ProviderOption)}>
@@ -132,10 +204,20 @@ export default function MultipleOptionsView({ serviceType, onSelectProvider, onB
           </motion.div>
         ))}
 
-        {(!providers || providers.length === 0) && (
+        {search.hasNextPage && (
+          <Button variant='outline' className='w-full' disabled={search.isFetchingNextPage} onClick={() => search.fetchNextPage()}>
+            {search.isFetchingNextPage ? 'Loading...' : 'Show more'}
+          </Button>
+        )}
+
+        {!search.isLoading && providers.length === 0 && (
           <div className='text-center py-12'>
-            <p className='text-muted-foreground'>No other providers found in your area.</p>
-            <Button variant='outline' onClick={onBack} className='mt-4'>Go back</Button>
+            <p className='text-muted-foreground'>
+              {activeChips.length > 0 ? 'No providers match these filters.' : 'No other providers found in your area.'}
+            </p>
+            {activeChips.length > 0
+              ? <Button variant='outline' onClick={() => setActiveChips([])} className='mt-4'>Clear filters</Button>
+              : <Button variant='outline' onClick={onBack} className='mt-4'>Go back</Button>}
           </div>
         )}
       </div>
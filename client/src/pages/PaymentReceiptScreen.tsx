@@ -1,10 +1,14 @@
 'use client';
 
+import { useBookingReceipt } from '@/hooks/useBookingReceipt';
+
 interface PaymentReceiptScreenProps {
   total: number;
   serviceTime: string;
   serviceFee: number;
   materials?: number;
+  /** When set, the server receipt for this booking replaces the passed amounts and Download fetches its PDF. */
+  bookingId?: number | undefined;
   onDownload: () => void;
   onDone: () => void;
 }
@@ -14,9 +18,13 @@ export default function PaymentReceiptScreen({
   serviceTime,
   serviceFee,
   materials = 0,
+  bookingId,
   onDownload,
   onDone
 }: PaymentReceiptScreenProps) {
+  const { receipt, download } = useBookingReceipt(bookingId);
+  const totalPaid = receipt ? receipt.totalCents / 100 : total;
+
   return (
     <div className="w-full h-full bg-[#F6F9FC] rounded-[40px] overflow-hidden relative flex flex-col">
       <div className="p-6 pt-12 text-center">
@@ -32,30 +40,41 @@ export default function PaymentReceiptScreen({
         <div className="absolute bottom-0 left-0 w-full h-2 bg-[radial-gradient(circle,transparent_4px,#fff_5px)] bg-[length:16px_8px] -mb-1"></div>
 
         <div className="space-y-3 mb-6">
-          <div className="flex justify-between text-sm">
-            <span className="text-gray-500">Service Time ({serviceTime})</span>
-            <span className="font-medium text-[#0A2540]">${(total - serviceFee - materials).toFixed(2)}</span>
-          </div>
-          <div className="flex justify-between text-sm">
-            <span className="text-gray-500">Service Fee</span>
-            <span className="font-medium text-[#0A2540]">${serviceFee.toFixed(2)}</span>
-          </div>
-          {materials > 0 && (
-            <div className="flex justify-between text-sm">
-              <span className="text-gray-500">Materials</span>
-              <span className="font-medium text-[#0A2540]">${materials.toFixed(2)}</span>
-            </div>
-          )}
+          {receipt
+            ? receipt.lineItems.map(item => (
+              <div key={item.code} className="flex justify-between text-sm">
+                <span className="text-gray-500">{item.label}</span>
+                <span className="font-medium text-[#0A2540]">{item.amountCents < 0 ? '-' : ''}${(Math.abs(item.amountCents) / 100).toFixed(2)}</span>
+              </div>
+            ))
+            : (
+              <>
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-500">Service Time ({serviceTime})</span>
+                  <span className="font-medium text-[#0A2540]">${(total - serviceFee - materials).toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-500">Service Fee</span>
+                  <span className="font-medium text-[#0A2540]">${serviceFee.toFixed(2)}</span>
+                </div>
+                {materials > 0 && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-500">Materials</span>
+                    <span className="font-medium text-[#0A2540]">${materials.toFixed(2)}</span>
+                  </div>
+                )}
+              </>
+            )}
         </div>
         <div className="border-t border-dashed border-gray-200 pt-4 flex justify-between items-center">
           <span className="font-bold text-[#0A2540]">Total Paid</span>
-          <span className="text-xl font-bold text-[#0A2540]">${total.toFixed(2)}</span>
+          <span className="text-xl font-bold text-[#0A2540]">${totalPaid.toFixed(2)}</span>
         </div>
       </div>
 
       <div className="p-6 mt-auto">
         <button
-          onClick={onDownload}
+          onClick={() => (receipt ? download('pdf') : onDownload())}
           className="w-full border border-gray-300 text-[#0A2540] py-3 rounded-xl font-medium hover:bg-gray-50 mb-3">
           Download PDF
         </button>
@@ -10,6 +10,8 @@ import { useState } from 'react';
 interface ProblemResolutionCenterProps {
   bookingId: string;
   providerName: string;
+  /** Set when the booking was cancelled: the reason given and the policy fee charged. */
+  cancellation?: { reason: string | null, fee: number | null };
   onSubmit: (issue: { type: string, description: string }) => void;
   onBack: () => void;
 }
@@ -22,7 +24,7 @@ const issueTypes = [
   { id: 'other', label: 'Other issue', icon: AlertCircle, description: 'Something else went wrong' }
 ];
 
-export default function ProblemResolutionCenter({ bookingId, providerName, onSubmit, onBack }: ProblemResolutionCenterProps) {
+export default function ProblemResolutionCenter({ bookingId, providerName, cancellation, onSubmit, onBack }: ProblemResolutionCenterProps) {
   const [selectedIssue, setSelectedIssue] = useState<string>('');
   const [description, setDescription] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -52,6 +54,19 @@ export default function ProblemResolutionCenter({ bookingId, providerName, onSub
       </div>
 
       <div className='p-4 space-y-6'>
+        {/* Cancellation Summary */}
+        {cancellation && (
+          <Card className='bg-muted/50'>
+            <CardContent className='p-4'>
+              <h4 className='font-medium text-foreground mb-2'>Booking cancelled</h4>
+              {cancellation.reason && <p className='text-sm text-muted-foreground'>Reason: {cancellation.reason}</p>}
+              <p className='text-sm text-muted-foreground'>
+                Cancellation fee: {cancellation.fee ? `$${cancellation.fee.toFixed(2)}` : 'None'}
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Issue Type Selection */}
         <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}>
           <h3 className='font-medium text-foreground mb-3'>What went wrong?</h3>
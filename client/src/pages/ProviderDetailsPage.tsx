@@ -88,13 +88,17 @@ export default function ProviderDetailsPage({ providerId, provider, onBook, onBa
   const addFavorite = trpc.favorites.add.useMutation();
   const removeFavorite = trpc.favorites.remove.useMutation();
 
+  // Yelp businesses get a stored provider id when first favorited
+  const [favoriteProviderId, setFavoriteProviderId] = useState<number | undefined>(providerId);
+
   const handleToggleFavorite = async () => {
-    if (!isAuthenticated || !providerId) return;
+    if (!isAuthenticated || (!favoriteProviderId && !currentYelpId)) return;
 
-    if (isFavorite) {
-      await removeFavorite.mutateAsync({ providerId });
+    if (isFavorite && favoriteProviderId) {
+      await removeFavorite.mutateAsync({ providerId: favoriteProviderId });
     } else {
-      await addFavorite.mutateAsync({ providerId });
+      const added = await addFavorite.mutateAsync(favoriteProviderId ? { providerId: favoriteProviderId } : { yelpBusinessId: currentYelpId ?? undefined });
+      setFavoriteProviderId(added.providerId);
     }
     setIsFavorite(!isFavorite);
   };
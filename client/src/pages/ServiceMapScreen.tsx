@@ -33,10 +33,11 @@ export default function ServiceMapScreen({ query, onProviderSelect, onBack, loca
     }
   }, [location]);
 
-  const { data: providers, isLoading } = trpc.provider.search.useQuery({
+  const { data, isLoading } = trpc.provider.search.useQuery({
     query,
     location: deviceLocation ?? undefined
   });
+  const providers = data?.items;
 
   const topProvider = providers && providers.length > 0 ? providers[0] : null;
 
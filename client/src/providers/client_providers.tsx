@@ -6,7 +6,7 @@
 import { trpc } from '@/lib/trpc';
 import { UNAUTHED_ERR_MSG } from '@shared/const';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
-import { httpBatchLink, TRPCClientError } from '@trpc/client';
+import { httpBatchLink, httpSubscriptionLink, splitLink, TRPCClientError } from '@trpc/client';
 import { type ReactNode, useEffect, useState } from 'react';
 import { getLoginUrl } from '../const';
 
@@ -26,13 +26,18 @@ export function ClientProviders({ children }: ClientProvidersProps) {
   const [queryClient] = useState(() => new QueryClient());
   const [trpcClient] = useState(() =>
     trpc.createClient({
-      links: [httpBatchLink({
-        url: '/api/trpc',
-        fetch(input, init) {
-          const normalizedInit: RequestInit = { ...(init ?? {}), credentials: 'include', signal: init?.signal ?? null };
+      links: [splitLink({
+        // Subscriptions (live booking updates) stream over SSE; everything else is batched over HTTP.
+        condition: op => op.type === 'subscription',
+        true: httpSubscriptionLink({ url: '/api/trpc', eventSourceOptions: { withCredentials: true } }),
+        false: httpBatchLink({
+          url: '/api/trpc',
+          fetch(input, init) {
+            const normalizedInit: RequestInit = { ...(init ?? {}), credentials: 'include', signal: init?.signal ?? null };
 
-          return fetch(input, normalizedInit);
-        }
+            return fetch(input, normalizedInit);
+          }
+        })
       })]
     })
   );
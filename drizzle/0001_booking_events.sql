@@ -0,0 +1,12 @@
+CREATE TABLE `bookingEvents` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`bookingId` integer NOT NULL,
+	`actorId` integer,
+	`actorRole` text DEFAULT 'system' NOT NULL,
+	`fromStatus` text,
+	`toStatus` text NOT NULL,
+	`reason` text,
+	`createdAt` integer DEFAULT (unixepoch()) NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `bookingEvents_booking_createdAt_idx` ON `bookingEvents` (`bookingId`,`createdAt`);
\ No newline at end of file
@@ -0,0 +1,57 @@
+CREATE TABLE `agentMessages` (
+	`id` text PRIMARY KEY NOT NULL,
+	`sessionId` text NOT NULL,
+	`userId` text NOT NULL,
+	`role` text NOT NULL,
+	`content` text NOT NULL,
+	`createdAt` integer DEFAULT (unixepoch()) NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `agentMessages_session_createdAt_idx` ON `agentMessages` (`sessionId`,`createdAt`);--> statement-breakpoint
+CREATE TABLE `agentPreferences` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`userId` text NOT NULL,
+	`key` text NOT NULL,
+	`value` text NOT NULL,
+	`updatedAt` integer DEFAULT (unixepoch()) NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `agentPreferences_user_key_unique` ON `agentPreferences` (`userId`,`key`);--> statement-breakpoint
+CREATE TABLE `dispatches` (
+	`id` text PRIMARY KEY NOT NULL,
+	`requestId` text NOT NULL,
+	`agentId` text NOT NULL,
+	`eta` integer NOT NULL,
+	`costEstimate` integer NOT NULL,
+	`status` text DEFAULT 'dispatched' NOT NULL,
+	`yelpLink` text NOT NULL,
+	`dispatchedAt` integer DEFAULT (unixepoch()) NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `dispatches_requestId_idx` ON `dispatches` (`requestId`);--> statement-breakpoint
+CREATE TABLE `payments` (
+	`id` text PRIMARY KEY NOT NULL,
+	`dispatchId` text NOT NULL,
+	`amount` real NOT NULL,
+	`method` text NOT NULL,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`transactionId` text NOT NULL,
+	`createdAt` integer DEFAULT (unixepoch()) NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `payments_dispatchId_idx` ON `payments` (`dispatchId`);--> statement-breakpoint
+CREATE TABLE `requests` (
+	`id` text PRIMARY KEY NOT NULL,
+	`userId` text NOT NULL,
+	`issue` text NOT NULL,
+	`category` text,
+	`urgency` text DEFAULT 'medium' NOT NULL,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`latitude` real NOT NULL,
+	`longitude` real NOT NULL,
+	`dispatchId` text,
+	`createdAt` integer DEFAULT (unixepoch()) NOT NULL,
+	`updatedAt` integer DEFAULT (unixepoch()) NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `requests_user_createdAt_idx` ON `requests` (`userId`,`createdAt`);
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `bookings` ADD `cancelledAt` integer;--> statement-breakpoint
+ALTER TABLE `bookings` ADD `cancellationReason` text;--> statement-breakpoint
+ALTER TABLE `bookings` ADD `cancellationFee` real;
\ No newline at end of file
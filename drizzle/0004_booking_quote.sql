@@ -0,0 +1 @@
+ALTER TABLE `bookings` ADD `quoteJson` text;
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE `paymentLedger` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`bookingId` integer NOT NULL,
+	`userId` integer NOT NULL,
+	`paymentMethodId` integer NOT NULL,
+	`type` text NOT NULL,
+	`status` text NOT NULL,
+	`amountCents` integer NOT NULL,
+	`currency` text DEFAULT 'usd' NOT NULL,
+	`gateway` text NOT NULL,
+	`gatewayReference` text,
+	`parentEntryId` integer,
+	`failureCode` text,
+	`reason` text,
+	`createdAt` integer DEFAULT (unixepoch()) NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `paymentLedger_booking_idx` ON `paymentLedger` (`bookingId`,`createdAt`);
\ No newline at end of file
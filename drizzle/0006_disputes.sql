@@ -0,0 +1,29 @@
+CREATE TABLE `disputeEvidence` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`disputeId` integer NOT NULL,
+	`userId` integer NOT NULL,
+	`kind` text NOT NULL,
+	`content` text NOT NULL,
+	`createdAt` integer DEFAULT (unixepoch()) NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `disputeEvidence_dispute_idx` ON `disputeEvidence` (`disputeId`);--> statement-breakpoint
+CREATE TABLE `disputes` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`bookingId` integer NOT NULL,
+	`userId` integer NOT NULL,
+	`reason` text NOT NULL,
+	`description` text,
+	`status` text DEFAULT 'open' NOT NULL,
+	`resolution` text,
+	`refundAmount` real,
+	`creditAmount` real,
+	`resolutionNote` text,
+	`resolvedBy` integer,
+	`resolvedAt` integer,
+	`createdAt` integer DEFAULT (unixepoch()) NOT NULL,
+	`updatedAt` integer DEFAULT (unixepoch()) NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `disputes_booking_idx` ON `disputes` (`bookingId`);--> statement-breakpoint
+CREATE INDEX `disputes_status_idx` ON `disputes` (`status`);
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE `apiCache` (
+	`key` text PRIMARY KEY NOT NULL,
+	`endpoint` text NOT NULL,
+	`paramsJson` text NOT NULL,
+	`responseJson` text NOT NULL,
+	`freshUntil` integer NOT NULL,
+	`staleUntil` integer NOT NULL,
+	`createdAt` integer DEFAULT (unixepoch()) NOT NULL,
+	`updatedAt` integer DEFAULT (unixepoch()) NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `apiCache_endpoint_idx` ON `apiCache` (`endpoint`);--> statement-breakpoint
+CREATE INDEX `apiCache_staleUntil_idx` ON `apiCache` (`staleUntil`);
\ No newline at end of file
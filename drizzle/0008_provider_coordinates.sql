@@ -0,0 +1,41 @@
+-- Provider coordinates move from text to REAL so they can be indexed and range-scanned. Values that do not parse
+-- as a number in range become NULL instead of SQLite's CAST default of 0.0.
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_providers` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`category` text NOT NULL,
+	`description` text,
+	`imageUrl` text,
+	`bannerUrl` text,
+	`rating` integer DEFAULT 0,
+	`reviewCount` integer DEFAULT 0,
+	`hourlyRate` integer,
+	`callOutFee` integer DEFAULT 0,
+	`address` text,
+	`latitude` real,
+	`longitude` real,
+	`phone` text,
+	`website` text,
+	`hoursJson` text,
+	`servicesJson` text,
+	`amenitiesJson` text,
+	`isAvailable` integer DEFAULT true NOT NULL,
+	`availableIn` integer DEFAULT 5,
+	`specialties` text,
+	`ecoFriendly` integer DEFAULT false NOT NULL,
+	`createdAt` integer DEFAULT (unixepoch()) NOT NULL,
+	`updatedAt` integer DEFAULT (unixepoch()) NOT NULL
+);
+--> statement-breakpoint
+INSERT INTO `__new_providers`("id", "name", "category", "description", "imageUrl", "bannerUrl", "rating", "reviewCount", "hourlyRate", "callOutFee", "address", "latitude", "longitude", "phone", "website", "hoursJson", "servicesJson", "amenitiesJson", "isAvailable", "availableIn", "specialties", "ecoFriendly", "createdAt", "updatedAt")
+SELECT "id", "name", "category", "description", "imageUrl", "bannerUrl", "rating", "reviewCount", "hourlyRate", "callOutFee", "address",
+	CASE WHEN trim("latitude") GLOB '[-+0-9.]*' AND trim("latitude") NOT GLOB '*[^-+0-9.eE]*' AND abs(CAST(trim("latitude") AS REAL)) <= 90 THEN CAST(trim("latitude") AS REAL) END,
+	CASE WHEN trim("longitude") GLOB '[-+0-9.]*' AND trim("longitude") NOT GLOB '*[^-+0-9.eE]*' AND abs(CAST(trim("longitude") AS REAL)) <= 180 THEN CAST(trim("longitude") AS REAL) END,
+	"phone", "website", "hoursJson", "servicesJson", "amenitiesJson", "isAvailable", "availableIn", "specialties", "ecoFriendly", "createdAt", "updatedAt"
+FROM `providers`;--> statement-breakpoint
+DROP TABLE `providers`;--> statement-breakpoint
+ALTER TABLE `__new_providers` RENAME TO `providers`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;--> statement-breakpoint
+CREATE UNIQUE INDEX `providers_name_unique` ON `providers` (`name`);--> statement-breakpoint
+CREATE INDEX `providers_lat_lng_idx` ON `providers` (`latitude`,`longitude`);
@@ -0,0 +1,3 @@
+ALTER TABLE `providers` ADD `yelpId` text;--> statement-breakpoint
+ALTER TABLE `providers` ADD `photosJson` text;--> statement-breakpoint
+CREATE UNIQUE INDEX `providers_yelpId_unique` ON `providers` (`yelpId`);
\ No newline at end of file
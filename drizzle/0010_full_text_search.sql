@@ -0,0 +1,46 @@
+-- Full-text indexes over provider profiles and chat messages. Both are external-content FTS5 tables (the text stays
+-- in `providers` / `messages`) kept in sync by triggers; drizzle-kit does not model virtual tables or triggers, so a
+-- migration that rebuilds either table must recreate its triggers and run the 'rebuild' command again.
+CREATE VIRTUAL TABLE `providers_fts` USING fts5(
+	`name`, `category`, `description`, `specialties`, `servicesJson`,
+	content = 'providers', content_rowid = 'id', tokenize = 'porter unicode61 remove_diacritics 2'
+);
+--> statement-breakpoint
+CREATE TRIGGER `providers_fts_insert` AFTER INSERT ON `providers` BEGIN
+	INSERT INTO `providers_fts`(rowid, `name`, `category`, `description`, `specialties`, `servicesJson`)
+	VALUES (new.`id`, new.`name`, new.`category`, new.`description`, new.`specialties`, new.`servicesJson`);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `providers_fts_delete` AFTER DELETE ON `providers` BEGIN
+	INSERT INTO `providers_fts`(`providers_fts`, rowid, `name`, `category`, `description`, `specialties`, `servicesJson`)
+	VALUES ('delete', old.`id`, old.`name`, old.`category`, old.`description`, old.`specialties`, old.`servicesJson`);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `providers_fts_update` AFTER UPDATE OF `name`, `category`, `description`, `specialties`, `servicesJson` ON `providers` BEGIN
+	INSERT INTO `providers_fts`(`providers_fts`, rowid, `name`, `category`, `description`, `specialties`, `servicesJson`)
+	VALUES ('delete', old.`id`, old.`name`, old.`category`, old.`description`, old.`specialties`, old.`servicesJson`);
+	INSERT INTO `providers_fts`(rowid, `name`, `category`, `description`, `specialties`, `servicesJson`)
+	VALUES (new.`id`, new.`name`, new.`category`, new.`description`, new.`specialties`, new.`servicesJson`);
+END;
+--> statement-breakpoint
+INSERT INTO `providers_fts`(`providers_fts`) VALUES ('rebuild');
+--> statement-breakpoint
+CREATE VIRTUAL TABLE `messages_fts` USING fts5(
+	`content`,
+	content = 'messages', content_rowid = 'id', tokenize = 'porter unicode61 remove_diacritics 2'
+);
+--> statement-breakpoint
+CREATE TRIGGER `messages_fts_insert` AFTER INSERT ON `messages` BEGIN
+	INSERT INTO `messages_fts`(rowid, `content`) VALUES (new.`id`, new.`content`);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `messages_fts_delete` AFTER DELETE ON `messages` BEGIN
+	INSERT INTO `messages_fts`(`messages_fts`, rowid, `content`) VALUES ('delete', old.`id`, old.`content`);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `messages_fts_update` AFTER UPDATE OF `content` ON `messages` BEGIN
+	INSERT INTO `messages_fts`(`messages_fts`, rowid, `content`) VALUES ('delete', old.`id`, old.`content`);
+	INSERT INTO `messages_fts`(rowid, `content`) VALUES (new.`id`, new.`content`);
+END;
+--> statement-breakpoint
+INSERT INTO `messages_fts`(`messages_fts`) VALUES ('rebuild');
@@ -0,0 +1,11 @@
+CREATE TABLE `notificationPreferences` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`userId` integer NOT NULL,
+	`topic` text NOT NULL,
+	`email` integer NOT NULL,
+	`push` integer NOT NULL,
+	`sms` integer NOT NULL,
+	`updatedAt` integer DEFAULT (unixepoch()) NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `notificationPreferences_user_topic_unique` ON `notificationPreferences` (`userId`,`topic`);
\ No newline at end of file
@@ -3,7 +3,9 @@
 // reference: server/db.ts, drizzle.config.ts
 
 import { sql } from 'drizzle-orm';
-import { index, integer, sqliteTable, text, uniqueIndex } from 'drizzle-orm/sqlite-core';
+import { index, integer, real, sqliteTable, text, uniqueIndex } from 'drizzle-orm/sqlite-core';
+import { type MessageMetadata } from '../shared/messageMetadata';
+import { NOTIFICATION_TOPICS } from '../shared/notifications';
 
 /**
  * Core user table backing auth flow.
@@ -46,7 +48,8 @@ export type Conversation = typeof conversations.$inferSelect;
 export type InsertConversation = typeof conversations.$inferInsert;
 
 /**
- * Messages - individual chat messages
+ * Messages - individual chat messages. `metadata` is the structured payload of non-text messages (see
+ * shared/messageMetadata.ts) and `messageType` is its kind; server/db.ts validates both ways.
  */
 export const messages = sqliteTable('messages', {
   id: integer('id').primaryKey({ autoIncrement: true }),
@@ -54,7 +57,7 @@ export const messages = sqliteTable('messages', {
   role: text('role', { enum: ['user', 'assistant', 'system'] }).notNull(),
   content: text('content').notNull(),
   messageType: text('messageType', { enum: ['text', 'clarification', 'recommendation', 'status'] }).notNull().default('text'),
-  metadata: text('metadata', { mode: 'json' }),
+  metadata: text('metadata', { mode: 'json' }).$type<MessageMetadata>(),
   createdAt: integer('createdAt', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`)
 });
 
@@ -66,18 +69,21 @@ export type InsertMessage = typeof messages.$inferInsert;
  */
 export const providers = sqliteTable('providers', {
   id: integer('id').primaryKey({ autoIncrement: true }),
+  /** Set for providers materialized from a Yelp business (first booking or favorite). */
+  yelpId: text('yelpId'),
   name: text('name').notNull(),
   category: text('category').notNull(),
   description: text('description'),
   imageUrl: text('imageUrl'),
   bannerUrl: text('bannerUrl'),
+  photosJson: text('photosJson', { mode: 'json' }),
   rating: integer('rating').default(0),
   reviewCount: integer('reviewCount').default(0),
   hourlyRate: integer('hourlyRate'),
   callOutFee: integer('callOutFee').default(0),
   address: text('address'),
-  latitude: text('latitude'),
-  longitude: text('longitude'),
+  latitude: real('latitude'),
+  longitude: real('longitude'),
   phone: text('phone'),
   website: text('website'),
   hoursJson: text('hoursJson', { mode: 'json' }),
@@ -89,11 +95,20 @@ export const providers = sqliteTable('providers', {
   ecoFriendly: integer('ecoFriendly', { mode: 'boolean' }).notNull().default(false),
   createdAt: integer('createdAt', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
   updatedAt: integer('updatedAt', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`)
-}, (table) => ({ nameUnique: uniqueIndex('providers_name_unique').on(table.name) }));
+}, (table) => ({
+  nameUnique: uniqueIndex('providers_name_unique').on(table.name),
+  yelpIdUnique: uniqueIndex('providers_yelpId_unique').on(table.yelpId),
+  idxCoordinates: index('providers_lat_lng_idx').on(table.latitude, table.longitude)
+}));
 
 export type Provider = typeof providers.$inferSelect;
 export type InsertProvider = typeof providers.$inferInsert;
 
+/**
+ * Booking lifecycle states shared by bookings and their transition history
+ */
+export const BOOKING_STATUSES = ['pending', 'confirmed', 'in_progress', 'completed', 'cancelled'] as const;
+
 /**
  * Bookings - service bookings
  */
@@ -105,7 +120,7 @@ export const bookings = sqliteTable('bookings', {
   conversationId: integer('conversationId'),
   serviceType: text('serviceType').notNull(),
   serviceDescription: text('serviceDescription'),
-  status: text('status', { enum: ['pending', 'confirmed', 'in_progress', 'completed', 'cancelled'] }).notNull().default('pending'),
+  status: text('status', { enum: BOOKING_STATUSES }).notNull().default('pending'),
   scheduledAt: integer('scheduledAt', { mode: 'timestamp' }),
   isAsap: integer('isAsap', { mode: 'boolean' }).notNull().default(true),
   locationAddress: text('locationAddress'),
@@ -115,12 +130,16 @@ export const bookings = sqliteTable('bookings', {
   estimatedCostMin: integer('estimatedCostMin'),
   estimatedCostMax: integer('estimatedCostMax'),
   finalCost: integer('finalCost'),
+  quoteJson: text('quoteJson', { mode: 'json' }),
   durationMinutes: integer('durationMinutes'),
   providerEta: integer('providerEta'),
   providerLat: text('providerLat'),
   providerLng: text('providerLng'),
   startedAt: integer('startedAt', { mode: 'timestamp' }),
   completedAt: integer('completedAt', { mode: 'timestamp' }),
+  cancelledAt: integer('cancelledAt', { mode: 'timestamp' }),
+  cancellationReason: text('cancellationReason'),
+  cancellationFee: real('cancellationFee'),
   createdAt: integer('createdAt', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
   updatedAt: integer('updatedAt', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`)
 });
@@ -128,6 +147,23 @@ export const bookings = sqliteTable('bookings', {
 export type Booking = typeof bookings.$inferSelect;
 export type InsertBooking = typeof bookings.$inferInsert;
 
+/**
+ * Booking events - append-only status transition history per booking
+ */
+export const bookingEvents = sqliteTable('bookingEvents', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  bookingId: integer('bookingId').notNull(),
+  actorId: integer('actorId'),
+  actorRole: text('actorRole', { enum: ['user', 'admin', 'provider', 'system'] }).notNull().default('system'),
+  fromStatus: text('fromStatus', { enum: BOOKING_STATUSES }),
+  toStatus: text('toStatus', { enum: BOOKING_STATUSES }).notNull(),
+  reason: text('reason'),
+  createdAt: integer('createdAt', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`)
+}, (table) => ({ idxBookingCreatedAt: index('bookingEvents_booking_createdAt_idx').on(table.bookingId, table.createdAt) }));
+
+export type BookingEvent = typeof bookingEvents.$inferSelect;
+export type InsertBookingEvent = typeof bookingEvents.$inferInsert;
+
 /**
  * Reviews - user reviews for providers
  */
@@ -162,6 +198,73 @@ export const paymentMethods = sqliteTable('paymentMethods', {
 export type PaymentMethod = typeof paymentMethods.$inferSelect;
 export type InsertPaymentMethod = typeof paymentMethods.$inferInsert;
 
+export const LEDGER_ENTRY_TYPES = ['authorization', 'capture', 'refund', 'tip', 'void'] as const;
+
+/**
+ * Payment ledger - append-only money movements per booking (amounts in cents).
+ * Named `paymentLedger` because `payments` belongs to the Mastra dispatch workflow.
+ */
+export const paymentLedger = sqliteTable('paymentLedger', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  bookingId: integer('bookingId').notNull(),
+  userId: integer('userId').notNull(),
+  paymentMethodId: integer('paymentMethodId').notNull(),
+  type: text('type', { enum: LEDGER_ENTRY_TYPES }).notNull(),
+  status: text('status', { enum: ['succeeded', 'failed'] }).notNull(),
+  amountCents: integer('amountCents').notNull(),
+  currency: text('currency').notNull().default('usd'),
+  gateway: text('gateway').notNull(),
+  gatewayReference: text('gatewayReference'),
+  parentEntryId: integer('parentEntryId'),
+  failureCode: text('failureCode'),
+  reason: text('reason'),
+  createdAt: integer('createdAt', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`)
+}, (table) => ({ idxBooking: index('paymentLedger_booking_idx').on(table.bookingId, table.createdAt) }));
+
+export type LedgerEntry = typeof paymentLedger.$inferSelect;
+export type InsertLedgerEntry = typeof paymentLedger.$inferInsert;
+
+export const DISPUTE_REASONS = ['quality', 'behavior', 'pricing', 'timing', 'other'] as const;
+export const DISPUTE_STATUSES = ['open', 'under_review', 'resolving', 'resolved', 'rejected'] as const;
+
+/**
+ * Disputes - problem reports against a booking, worked by the ops team
+ */
+export const disputes = sqliteTable('disputes', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  bookingId: integer('bookingId').notNull(),
+  userId: integer('userId').notNull(),
+  reason: text('reason', { enum: DISPUTE_REASONS }).notNull(),
+  description: text('description'),
+  status: text('status', { enum: DISPUTE_STATUSES }).notNull().default('open'),
+  resolution: text('resolution', { enum: ['refund', 'credit', 'reject'] }),
+  refundAmount: real('refundAmount'),
+  creditAmount: real('creditAmount'),
+  resolutionNote: text('resolutionNote'),
+  resolvedBy: integer('resolvedBy'),
+  resolvedAt: integer('resolvedAt', { mode: 'timestamp' }),
+  createdAt: integer('createdAt', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
+  updatedAt: integer('updatedAt', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`)
+}, (table) => ({ idxBooking: index('disputes_booking_idx').on(table.bookingId), idxStatus: index('disputes_status_idx').on(table.status) }));
+
+export type Dispute = typeof disputes.$inferSelect;
+export type InsertDispute = typeof disputes.$inferInsert;
+
+/**
+ * Dispute evidence - notes, photos and documents attached to a dispute
+ */
+export const disputeEvidence = sqliteTable('disputeEvidence', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  disputeId: integer('disputeId').notNull(),
+  userId: integer('userId').notNull(),
+  kind: text('kind', { enum: ['note', 'photo', 'document', 'link'] }).notNull(),
+  content: text('content').notNull(),
+  createdAt: integer('createdAt', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`)
+}, (table) => ({ idxDispute: index('disputeEvidence_dispute_idx').on(table.disputeId) }));
+
+export type DisputeEvidence = typeof disputeEvidence.$inferSelect;
+export type InsertDisputeEvidence = typeof disputeEvidence.$inferInsert;
+
 /**
  * Favorite Providers - user's saved providers
  */
@@ -191,6 +294,23 @@ export const referrals = sqliteTable('referrals', {
 export type Referral = typeof referrals.$inferSelect;
 export type InsertReferral = typeof referrals.$inferInsert;
 
+/**
+ * Notification preferences - the channels each topic is delivered on, one row per user and topic.
+ * Topics without a row use DEFAULT_NOTIFICATION_PREFERENCES from shared/notifications.ts.
+ */
+export const notificationPreferences = sqliteTable('notificationPreferences', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('userId').notNull(),
+  topic: text('topic', { enum: NOTIFICATION_TOPICS }).notNull(),
+  email: integer('email', { mode: 'boolean' }).notNull(),
+  push: integer('push', { mode: 'boolean' }).notNull(),
+  sms: integer('sms', { mode: 'boolean' }).notNull(),
+  updatedAt: integer('updatedAt', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`)
+}, (table) => ({ userTopicUnique: uniqueIndex('notificationPreferences_user_topic_unique').on(table.userId, table.topic) }));
+
+export type NotificationPreferenceRow = typeof notificationPreferences.$inferSelect;
+export type InsertNotificationPreferenceRow = typeof notificationPreferences.$inferInsert;
+
 /**
  * Search history - track user searches with optional coordinates
  */
@@ -205,3 +325,108 @@ export const searchHistory = sqliteTable('searchHistory', {
 
 export type SearchHistory = typeof searchHistory.$inferSelect;
 export type InsertSearchHistory = typeof searchHistory.$inferInsert;
+
+/**
+ * Service requests - Mastra emergency workflow intake (issue → category → dispatch)
+ */
+export const requests = sqliteTable('requests', {
+  id: text('id').primaryKey(),
+  userId: text('userId').notNull(),
+  issue: text('issue').notNull(),
+  category: text('category'),
+  urgency: text('urgency', { enum: ['low', 'medium', 'high'] }).notNull().default('medium'),
+  status: text('status', {
+    enum: ['pending', 'categorized', 'searching', 'matched', 'dispatched', 'in_progress', 'completed', 'cancelled']
+  }).notNull().default('pending'),
+  latitude: real('latitude').notNull(),
+  longitude: real('longitude').notNull(),
+  dispatchId: text('dispatchId'),
+  createdAt: integer('createdAt', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
+  updatedAt: integer('updatedAt', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`)
+}, (table) => ({ idxUserCreatedAt: index('requests_user_createdAt_idx').on(table.userId, table.createdAt) }));
+
+export type ServiceRequest = typeof requests.$inferSelect;
+export type InsertServiceRequest = typeof requests.$inferInsert;
+
+/**
+ * Dispatches - provider assignments created for service requests
+ */
+export const dispatches = sqliteTable('dispatches', {
+  id: text('id').primaryKey(),
+  requestId: text('requestId').notNull(),
+  agentId: text('agentId').notNull(),
+  eta: integer('eta').notNull(),
+  costEstimate: integer('costEstimate').notNull(),
+  status: text('status', { enum: ['dispatched', 'in_progress', 'completed', 'cancelled'] }).notNull().default('dispatched'),
+  yelpLink: text('yelpLink').notNull(),
+  dispatchedAt: integer('dispatchedAt', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`)
+}, (table) => ({ idxRequest: index('dispatches_requestId_idx').on(table.requestId) }));
+
+export type Dispatch = typeof dispatches.$inferSelect;
+export type InsertDispatch = typeof dispatches.$inferInsert;
+
+/**
+ * Payments - payment attempts recorded against dispatches
+ */
+export const payments = sqliteTable('payments', {
+  id: text('id').primaryKey(),
+  dispatchId: text('dispatchId').notNull(),
+  amount: real('amount').notNull(),
+  method: text('method').notNull(),
+  status: text('status', { enum: ['pending', 'processing', 'completed', 'failed'] }).notNull().default('pending'),
+  transactionId: text('transactionId').notNull(),
+  createdAt: integer('createdAt', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`)
+}, (table) => ({ idxDispatch: index('payments_dispatchId_idx').on(table.dispatchId) }));
+
+export type Payment = typeof payments.$inferSelect;
+export type InsertPayment = typeof payments.$inferInsert;
+
+/**
+ * Agent messages - session-scoped chat memory for Mastra agents
+ */
+export const agentMessages = sqliteTable('agentMessages', {
+  id: text('id').primaryKey(),
+  sessionId: text('sessionId').notNull(),
+  userId: text('userId').notNull(),
+  role: text('role', { enum: ['user', 'assistant', 'system'] }).notNull(),
+  content: text('content').notNull(),
+  createdAt: integer('createdAt', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`)
+}, (table) => ({ idxSessionCreatedAt: index('agentMessages_session_createdAt_idx').on(table.sessionId, table.createdAt) }));
+
+export type AgentMessage = typeof agentMessages.$inferSelect;
+export type InsertAgentMessage = typeof agentMessages.$inferInsert;
+
+/**
+ * Agent preferences - long-term key/value user context for Mastra agents
+ */
+export const agentPreferences = sqliteTable('agentPreferences', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: text('userId').notNull(),
+  key: text('key').notNull(),
+  value: text('value').notNull(),
+  updatedAt: integer('updatedAt', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`)
+}, (table) => ({ userKeyUnique: uniqueIndex('agentPreferences_user_key_unique').on(table.userId, table.key) }));
+
+export type AgentPreference = typeof agentPreferences.$inferSelect;
+export type InsertAgentPreference = typeof agentPreferences.$inferInsert;
+
+/**
+ * API cache - upstream (Yelp REST / Yelp AI) responses keyed by endpoint and normalized params.
+ * Entries are served as-is until `freshUntil`, served while revalidating until `staleUntil`, then refetched.
+ */
+export const apiCache = sqliteTable('apiCache', {
+  key: text('key').primaryKey(),
+  endpoint: text('endpoint').notNull(),
+  paramsJson: text('paramsJson', { mode: 'json' }).notNull(),
+  responseJson: text('responseJson', { mode: 'json' }).notNull(),
+  freshUntil: integer('freshUntil', { mode: 'timestamp' }).notNull(),
+  staleUntil: integer('staleUntil', { mode: 'timestamp' }).notNull(),
+  createdAt: integer('createdAt', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
+  updatedAt: integer('updatedAt', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`)
+}, (table) => ({
+  idxEndpoint: index('apiCache_endpoint_idx').on(table.endpoint),
+  idxStaleUntil: index('apiCache_staleUntil_idx').on(table.staleUntil)
+}));
+
+export type ApiCacheEntry = typeof apiCache.$inferSelect;
+export type InsertApiCacheEntry = typeof apiCache.$inferInsert;
@@ -17,8 +17,8 @@ const demoProviders = [
     hourlyRate: 85,
     callOutFee: 0,
     address: '123 Main St, Austin, TX',
-    latitude: '30.2672',
-    longitude: '-97.7431',
+    latitude: 30.2672,
+    longitude: -97.7431,
     phone: '(512) 555-0123',
     isAvailable: true,
     availableIn: 5,
@@ -37,8 +37,8 @@ const demoProviders = [
     hourlyRate: 75,
     callOutFee: 25,
     address: '456 Oak Ave, Austin, TX',
-    latitude: '30.2849',
-    longitude: '-97.7341',
+    latitude: 30.2849,
+    longitude: -97.7341,
     phone: '(512) 555-0456',
     isAvailable: true,
     availableIn: 15,
@@ -58,8 +58,8 @@ const demoProviders = [
     hourlyRate: 95,
     callOutFee: 0,
     address: '789 Tech Blvd, Austin, TX',
-    latitude: '30.2500',
-    longitude: '-97.7500',
+    latitude: 30.2500,
+    longitude: -97.7500,
     phone: '(512) 555-0789',
     isAvailable: true,
     availableIn: 10,
@@ -78,8 +78,8 @@ const demoProviders = [
     hourlyRate: 35,
     callOutFee: 0,
     address: '321 Wash Way, Austin, TX',
-    latitude: '30.2900',
-    longitude: '-97.7200',
+    latitude: 30.2900,
+    longitude: -97.7200,
     phone: '(512) 555-0321',
     isAvailable: true,
     availableIn: 0,
@@ -97,8 +97,8 @@ const demoProviders = [
     hourlyRate: 20,
     callOutFee: 0,
     address: '555 Express Lane, Austin, TX',
-    latitude: '30.2600',
-    longitude: '-97.7600',
+    latitude: 30.2600,
+    longitude: -97.7600,
     phone: '(512) 555-0555',
     isAvailable: true,
     availableIn: 5,
@@ -117,8 +117,8 @@ const demoProviders = [
     hourlyRate: 45,
     callOutFee: 0,
     address: '100 Italian Way, Austin, TX',
-    latitude: '30.2700',
-    longitude: '-97.7400',
+    latitude: 30.2700,
+    longitude: -97.7400,
     phone: '(512) 555-0100',
     isAvailable: true,
     availableIn: 30,
@@ -136,8 +136,8 @@ const demoProviders = [
     hourlyRate: 55,
     callOutFee: 0,
     address: '200 Sushi Blvd, Austin, TX',
-    latitude: '30.2750',
-    longitude: '-97.7350',
+    latitude: 30.2750,
+    longitude: -97.7350,
     phone: '(512) 555-0200',
     isAvailable: true,
     availableIn: 15,
@@ -157,8 +157,8 @@ const demoProviders = [
     hourlyRate: 65,
     callOutFee: 0,
     address: '400 Style St, Austin, TX',
-    latitude: '30.2650',
-    longitude: '-97.7450',
+    latitude: 30.2650,
+    longitude: -97.7450,
     phone: '(512) 555-0400',
     isAvailable: true,
     availableIn: 45,
@@ -177,8 +177,8 @@ const demoProviders = [
     hourlyRate: 45,
     callOutFee: 0,
     address: '500 Clean Ave, Austin, TX',
-    latitude: '30.2800',
-    longitude: '-97.7300',
+    latitude: 30.2800,
+    longitude: -97.7300,
     phone: '(512) 555-0500',
     isAvailable: true,
     availableIn: 60,
@@ -197,8 +197,8 @@ const demoProviders = [
     hourlyRate: 55,
     callOutFee: 15,
     address: '600 Repair Rd, Austin, TX',
-    latitude: '30.2550',
-    longitude: '-97.7550',
+    latitude: 30.2550,
+    longitude: -97.7550,
     phone: '(512) 555-0600',
     isAvailable: true,
     availableIn: 30,
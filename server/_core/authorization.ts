@@ -0,0 +1,48 @@
+// file: server/_core/authorization.ts
+// description: Record-level authorization: owner-scoped resource loaders for user procedures and unscoped ones for admin procedures
+// reference: server/_core/trpc.ts, server/db.ts, server/routers.ts
+
+import { TRPCError } from '@trpc/server';
+import { type Booking, type Conversation, type Dispute, type User } from '../../drizzle/schema';
+import * as db from '../db';
+
+export type Actor = Pick<User, 'id' | 'role'>;
+
+export function isAdmin(user: Pick<User, 'role'> | null | undefined): boolean {
+  return user?.role === 'admin';
+}
+
+/**
+ * Missing and foreign records are reported alike, so callers cannot probe which ids exist.
+ */
+function found<T>(record: T | undefined, label: string): T {
+  if (!record) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: `${label} not found.` });
+  }
+  return record;
+}
+
+// Ownership policy: user procedures only ever read the caller's own records, admins included. Admin routes are
+// adminProcedures and load records with the `loadAny*` helpers below.
+
+export async function loadConversation(actor: Actor, conversationId: number): Promise<Conversation> {
+  return found(await db.getConversationForUser(conversationId, actor.id), 'Conversation');
+}
+
+export async function loadBooking(actor: Actor, bookingId: number): Promise<Booking> {
+  return found(await db.getBookingForUser(bookingId, actor.id), 'Booking');
+}
+
+export async function loadDispute(actor: Actor, disputeId: number): Promise<Dispute> {
+  return found(await db.getDisputeForUser(disputeId, actor.id), 'Dispute');
+}
+
+/** Any user's booking; for adminProcedure routes only. */
+export async function loadAnyBooking(bookingId: number): Promise<Booking> {
+  return found(await db.getBookingById(bookingId), 'Booking');
+}
+
+/** Any user's dispute; for adminProcedure routes only. */
+export async function loadAnyDispute(disputeId: number): Promise<Dispute> {
+  return found(await db.getDisputeById(disputeId), 'Dispute');
+}
@@ -3,6 +3,7 @@
 // reference: server/db.ts, server/_core/llm.ts
 
 import { z } from 'zod';
+import { LLM_BACKENDS } from './llm_backend';
 
 const envSchema = z.object({
   TURSO_DATABASE_URL: z.string().optional(),
@@ -11,8 +12,18 @@ const envSchema = z.object({
   YELP_API_KEY: z.string().optional(),
   YELP_CLIENT_ID: z.string().optional(),
   GROQ_API_KEY: z.string().optional(),
+  OPENAI_API_KEY: z.string().optional(),
+  LLM_BACKEND: z.enum(LLM_BACKENDS).optional(),
+  LLM_MODEL: z.string().optional(),
+  LLM_BASE_URL: z.string().url().optional(),
   VITE_APP_ID: z.string().optional(),
   OWNER_OPEN_ID: z.string().optional(),
+  TRAVEL_SPEED_MPH: z.coerce.number().positive().optional(),
+  PAYMENT_GATEWAY: z.string().optional(),
+  SALES_TAX_PERCENT: z.coerce.number().min(0).max(100).optional(),
+  YELP_DAILY_QUOTA: z.coerce.number().int().positive().optional(),
+  PROVIDER_SOURCES: z.string().optional(),
+  PROVIDER_SEARCH_MODE: z.enum(['cascade', 'parallel']).optional(),
   NODE_ENV: z.enum(['development', 'production', 'test']).optional()
 }).transform(env => ({
   databaseUrl: env.TURSO_DATABASE_URL ?? '',
@@ -21,9 +32,19 @@ const envSchema = z.object({
   yelpApiKey: env.YELP_API_KEY ?? '',
   yelpClientId: env.YELP_CLIENT_ID ?? '',
   groqApiKey: env.GROQ_API_KEY ?? '',
+  openaiApiKey: env.OPENAI_API_KEY ?? '',
+  llmBackend: env.LLM_BACKEND ?? (env.NODE_ENV === 'test' ? 'stub' : 'yelp'),
+  llmModel: env.LLM_MODEL ?? '',
+  llmBaseUrl: env.LLM_BASE_URL ?? '',
   appId: env.VITE_APP_ID ?? 'yuber-local',
   isProduction: env.NODE_ENV === 'production',
-  ownerOpenId: env.OWNER_OPEN_ID ?? 'local-owner'
+  ownerOpenId: env.OWNER_OPEN_ID ?? 'local-owner',
+  travelSpeedMph: env.TRAVEL_SPEED_MPH ?? 25,
+  paymentGateway: env.PAYMENT_GATEWAY ?? 'fake',
+  salesTaxPercent: env.SALES_TAX_PERCENT ?? 8,
+  yelpDailyQuota: env.YELP_DAILY_QUOTA ?? 5000,
+  providerSources: (env.PROVIDER_SOURCES ?? 'yelp_rest,yelp_ai,internal').split(',').map(name => name.trim()).filter(Boolean),
+  providerSearchMode: env.PROVIDER_SEARCH_MODE ?? 'cascade'
 }));
 
 const envSource = typeof Bun !== 'undefined' ? Bun.env : process.env;
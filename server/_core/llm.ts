@@ -1,42 +1,88 @@
 // file: server/_core/llm.ts
-// description: Yelp AI orchestration that leverages the typed Yelp client and env config
-// reference: server/_core/env.ts, server/_core/yelp_ai_client.ts
+// description: Chat model entry point: the backend selected by LLM_BACKEND (Yelp AI by default) plus Yelp AI helpers
+// reference: server/_core/env.ts, server/_core/llm_backend.ts, server/_core/yelp_ai_client.ts
 
+import { ENV } from './env';
+import { type InvokeParams, type InvokeResult, type LLMBackend, type LLMBackendName, type Message, replayResult, type StreamChunk } from './llm_backend';
+import { OpenAICompatibleBackend, openAICompatibleConfig } from './llm_openai';
+import { StubLLMBackend } from './llm_stub';
 import { createYelpClient } from './yelp_ai_client';
-import { type UserContext, type YelpAIResponse } from './yelp_ai_types';
-export type Role = 'system' | 'user' | 'assistant';
-export type Message = { role: Role, content: string };
-export type InvokeParams = { messages: Message[], location?: { latitude: number, longitude: number }, conversationId?: number };
-type YelpBusinesses = NonNullable<YelpAIResponse['response']['businesses']>;
-export type InvokeResult = { text: string, businesses: YelpBusinesses, conversationId?: string | null };
+import { type UserContext } from './yelp_ai_types';
+
+export type { InvokeParams, InvokeResult, LLMBackend, LLMBackendName, Message, Role, StreamChunk } from './llm_backend';
 
 const conversationChatMap = new Map<number, string>();
 
 /**
- * Call Yelp AI Chat API v2 through the shared client
- * This is the ONLY external API we use for AI features
+ * Yelp AI Chat API v2 through the shared client. Yelp AI keeps its own thread per conversation and only sees the user
+ * messages; its replies come with the businesses it found.
  */
-export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
-  const client = createYelpClient();
+export class YelpAIBackend implements LLMBackend {
+  readonly name = 'yelp';
 
-  const userMessages = params.messages.filter(m => m.role === 'user');
-  const query = userMessages.map(m => m.content).join(' ');
+  async invoke(params: InvokeParams): Promise<InvokeResult> {
+    const client = createYelpClient();
 
-  const userContext: UserContext | undefined = params.location ? { location: params.location } : undefined;
-  const existingChatId = params.conversationId ? conversationChatMap.get(params.conversationId) ?? null : null;
+    const userMessages = params.messages.filter(m => m.role === 'user');
+    const query = userMessages.map(m => m.content).join(' ');
 
-  if (existingChatId) {
-    client.setChatId(existingChatId);
-  }
+    const userContext: UserContext | undefined = params.location ? { location: params.location } : undefined;
+    const existingChatId = params.conversationId ? conversationChatMap.get(params.conversationId) ?? null : null;
+
+    if (existingChatId) {
+      client.setChatId(existingChatId);
+    }
+
+    const response = await client.sendMessage(query, userContext);
+
+    if (params.conversationId && response.chat_id) {
+      conversationChatMap.set(params.conversationId, response.chat_id);
+    }
 
-  const response = await client.sendMessage(query, userContext);
-  const nextBusinesses: YelpBusinesses = response.response.businesses ?? [];
+    return { text: response.response.text, businesses: response.response.businesses ?? [], conversationId: response.chat_id ?? null };
+  }
 
-  if (params.conversationId && response.chat_id) {
-    conversationChatMap.set(params.conversationId, response.chat_id);
+  /** Yelp AI answers in one piece, so its reply is only chunked once complete, not streamed as it is generated. */
+  async *stream(params: InvokeParams): AsyncGenerator<StreamChunk> {
+    yield* replayResult(await this.invoke(params));
   }
+}
+
+const backends: Record<LLMBackendName, () => LLMBackend> = {
+  yelp: () => new YelpAIBackend(),
+  openai: () => new OpenAICompatibleBackend(openAICompatibleConfig('openai')),
+  groq: () => new OpenAICompatibleBackend(openAICompatibleConfig('groq')),
+  stub: () => new StubLLMBackend()
+};
 
-  return { text: response.response.text, businesses: nextBusinesses, conversationId: response.chat_id ?? null };
+let activeBackend: LLMBackend | null = null;
+
+/**
+ * Backend selected by LLM_BACKEND: `yelp` (default), `openai`, `groq` or `stub` (offline fixtures, the default under
+ * NODE_ENV=test).
+ */
+export function getLLMBackend(): LLMBackend {
+  activeBackend ??= backends[ENV.llmBackend]();
+  return activeBackend;
+}
+
+/** Overrides the active backend (e.g. a stub with scripted replies in tests). */
+export function setLLMBackend(backend: LLMBackend | null): void {
+  activeBackend = backend;
+}
+
+/**
+ * One complete reply from the active backend
+ */
+export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
+  return getLLMBackend().invoke(params);
+}
+
+/**
+ * Streaming form of `invokeLLM`: text chunks in order, then the businesses (when there are any).
+ */
+export function streamLLM(params: InvokeParams): AsyncGenerator<StreamChunk> {
+  return getLLMBackend().stream(params);
 }
 
 /**
@@ -50,12 +96,13 @@ export async function chat(query: string, location?: { latitude: number, longitu
 }
 
 /**
- * Search for service providers using Yelp AI, with explicit location context in the user message
+ * Search for service providers using Yelp AI, with explicit location context in the user message. Always Yelp AI
+ * whatever LLM_BACKEND says: the `yelp_ai` provider source relies on its businesses.
  */
 export async function searchProviders(serviceRequest: string, location: { latitude: number, longitude: number }): Promise<InvokeResult> {
   const userContent = `${serviceRequest} near ${location.latitude}, ${location.longitude}`;
 
-  return invokeLLM({
+  return new YelpAIBackend().invoke({
     messages: [{
       role: 'system',
       content: 'You are a helpful assistant that finds local service providers. Always recommend the best-rated, most reliable providers.'
@@ -0,0 +1,44 @@
+// file: server/_core/llm_backend.ts
+// description: Chat model backend interface and the message/result types shared by every backend
+// reference: server/_core/llm.ts, server/_core/llm_openai.ts, server/_core/llm_stub.ts
+
+import { type YelpAIResponse } from './yelp_ai_types';
+
+export type Role = 'system' | 'user' | 'assistant';
+export type Message = { role: Role, content: string };
+export type InvokeParams = { messages: Message[], location?: { latitude: number, longitude: number }, conversationId?: number };
+export type YelpBusinesses = NonNullable<YelpAIResponse['response']['businesses']>;
+export type InvokeResult = { text: string, businesses: YelpBusinesses, conversationId?: string | null };
+export type StreamChunk = { type: 'text', text: string } | { type: 'businesses', businesses: YelpBusinesses };
+
+export const LLM_BACKENDS = ['yelp', 'openai', 'groq', 'stub'] as const;
+export type LLMBackendName = (typeof LLM_BACKENDS)[number];
+
+/**
+ * What the conversation path needs from a chat model. `stream` yields text chunks in order, then the businesses behind
+ * the reply (only backends that search, like Yelp AI, return any).
+ */
+export interface LLMBackend {
+  readonly name: LLMBackendName;
+  invoke(params: InvokeParams): Promise<InvokeResult>;
+  stream(params: InvokeParams): AsyncGenerator<StreamChunk>;
+}
+
+/** Words per text chunk when replaying a reply that arrived in one piece. */
+const STREAM_SEGMENT_WORDS = 4;
+
+/**
+ * Splits a complete reply into text chunks of a few words, sent as fast as the client reads them. This is not real
+ * streaming: nothing reaches the client until the whole reply has arrived.
+ */
+export async function* replayResult(result: InvokeResult): AsyncGenerator<StreamChunk> {
+  const words = result.text.match(/\s*\S+\s*/g) ?? [];
+
+  for (let index = 0; index < words.length; index += STREAM_SEGMENT_WORDS) {
+    yield { type: 'text', text: words.slice(index, index + STREAM_SEGMENT_WORDS).join('') };
+  }
+
+  if (result.businesses.length > 0) {
+    yield { type: 'businesses', businesses: result.businesses };
+  }
+}
@@ -0,0 +1,58 @@
+// file: server/_core/llm_openai.ts
+// description: Chat backend for OpenAI-compatible chat completion endpoints (OpenAI, Groq, or any LLM_BASE_URL)
+// reference: server/_core/llm_backend.ts, server/_core/env.ts, server/mastra/model.ts
+
+import OpenAI from 'openai';
+import { ENV } from './env';
+import { type InvokeParams, type InvokeResult, type LLMBackend, type StreamChunk } from './llm_backend';
+
+const GROQ_BASE_URL = 'https://api.groq.com/openai/v1';
+
+export type OpenAICompatibleConfig = { name: 'openai' | 'groq', apiKey: string, baseURL: string | undefined, model: string };
+
+/** Endpoint, key and model for `name`; LLM_BASE_URL and LLM_MODEL override the defaults. */
+export function openAICompatibleConfig(name: 'openai' | 'groq'): OpenAICompatibleConfig {
+  if (name === 'groq') {
+    return { name, apiKey: ENV.groqApiKey, baseURL: ENV.llmBaseUrl || GROQ_BASE_URL, model: ENV.llmModel || 'llama-3.3-70b-versatile' };
+  }
+  return { name, apiKey: ENV.openaiApiKey, baseURL: ENV.llmBaseUrl || undefined, model: ENV.llmModel || 'gpt-4o' };
+}
+
+function toChatMessages({ messages, location }: InvokeParams): OpenAI.Chat.ChatCompletionMessageParam[] {
+  const context: OpenAI.Chat.ChatCompletionMessageParam[] = location
+    ? [{ role: 'system', content: `The user is near latitude ${location.latitude}, longitude ${location.longitude}.` }]
+    : [];
+  return [...context, ...messages.map(({ role, content }) => ({ role, content }))];
+}
+
+/**
+ * Plain chat completions: the model answers from the prompt alone, so replies never carry businesses. Streams the
+ * completion as it is generated.
+ */
+export class OpenAICompatibleBackend implements LLMBackend {
+  readonly name: 'openai' | 'groq';
+  private readonly client: OpenAI;
+  private readonly model: string;
+
+  constructor (config: OpenAICompatibleConfig) {
+    if (!config.apiKey) {
+      throw new Error(`${config.name === 'groq' ? 'GROQ_API_KEY' : 'OPENAI_API_KEY'} is not configured. Add it to your .env file.`);
+    }
+    this.name = config.name;
+    this.model = config.model;
+    this.client = new OpenAI({ apiKey: config.apiKey, ...(config.baseURL ? { baseURL: config.baseURL } : {}) });
+  }
+
+  async invoke(params: InvokeParams): Promise<InvokeResult> {
+    const completion = await this.client.chat.completions.create({ model: this.model, messages: toChatMessages(params) });
+    return { text: completion.choices[0]?.message.content ?? '', businesses: [] };
+  }
+
+  async *stream(params: InvokeParams): AsyncGenerator<StreamChunk> {
+    const stream = await this.client.chat.completions.create({ model: this.model, messages: toChatMessages(params), stream: true });
+    for await (const chunk of stream) {
+      const text = chunk.choices[0]?.delta.content;
+      if (text) yield { type: 'text', text };
+    }
+  }
+}
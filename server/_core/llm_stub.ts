@@ -0,0 +1,70 @@
+// file: server/_core/llm_stub.ts
+// description: Deterministic offline chat backend answering from fixture responses, for development and tests
+// reference: server/_core/llm_backend.ts, server/mastra/data/mockProviders.ts, shared/taxonomy.ts
+
+import { classifyService, SERVICE_CATEGORIES, SERVICE_TAXONOMY } from '@shared/taxonomy';
+import { mockProviders } from '../mastra/data/mockProviders';
+import { type ServiceAgent } from '../mastra/schemas';
+import { type InvokeParams, type InvokeResult, type LLMBackend, replayResult, type StreamChunk, type YelpBusinesses } from './llm_backend';
+
+const METERS_PER_MILE = 1609.344;
+/** Businesses returned with a fixture reply. */
+const STUB_RESULT_COUNT = 3;
+
+const CLARIFY_SERVICE_REPLY = `Happy to help! What kind of service are you looking for?\n${
+  SERVICE_CATEGORIES.slice(0, 4).map(category => `- ${SERVICE_TAXONOMY[category].label}`).join('\n')
+}`;
+
+// Fixture Yelp ids are made up, so recommendations from the stub cannot be looked up on Yelp
+function toYelpBusiness(agent: ServiceAgent): YelpBusinesses[number] {
+  return {
+    id: agent.yelpBusinessId,
+    name: agent.name,
+    rating: agent.rating,
+    review_count: agent.reviewCount,
+    location: { city: 'Columbus', state: 'OH', zip_code: '43228' },
+    phone: agent.phone,
+    categories: [{ title: agent.category }],
+    image_url: agent.imageUrl,
+    url: `https://www.yelp.com/biz/${agent.yelpBusinessId}`,
+    distance: Math.round(agent.distance * METERS_PER_MILE)
+  };
+}
+
+/**
+ * The fixture reply to `query`: the mock providers for its service category, or a question about the service when
+ * nothing in the text names one.
+ */
+export function stubReply(query: string): InvokeResult {
+  const classification = classifyService(query);
+  if (!classification) return { text: CLARIFY_SERVICE_REPLY, businesses: [] };
+
+  const { label, searchTerm } = SERVICE_TAXONOMY[classification.category];
+  const agents = (mockProviders[searchTerm] ?? []).slice(0, STUB_RESULT_COUNT);
+  const [best] = agents;
+  if (!best) {
+    return { text: `I don't have ${label.toLowerCase()} providers to show offline yet.`, businesses: [] };
+  }
+
+  return {
+    text: `Here are the top ${label.toLowerCase()} providers near you. ${best.name} is the best match with ${best.rating}★ from ${best.reviewCount} reviews, ${best.distance} mi away.`,
+    businesses: agents.map(toYelpBusiness)
+  };
+}
+
+/**
+ * Answers from fixtures without any network access. Replies to the latest user message that names a service, so an
+ * answer to a follow-up question ("this week") stays on the conversation's service.
+ */
+export class StubLLMBackend implements LLMBackend {
+  readonly name = 'stub';
+
+  async invoke({ messages }: InvokeParams): Promise<InvokeResult> {
+    const queries = messages.filter(message => message.role === 'user').map(message => message.content).reverse();
+    return { ...stubReply(queries.find(query => classifyService(query)) ?? queries[0] ?? ''), conversationId: null };
+  }
+
+  async *stream(params: InvokeParams): AsyncGenerator<StreamChunk> {
+    yield* replayResult(await this.invoke(params));
+  }
+}
@@ -1,6 +1,6 @@
 // file: server/_core/logger.ts
-// description: Minimal structured logger wrapper for server modules (used by Opik monitoring helpers)
-// reference: server/_core/opik/alerting.ts, server/_core/env.ts
+// description: Minimal structured logger wrapper for server modules (Opik monitoring helpers, Mastra agents/tools/workflows)
+// reference: server/_core/opik/alerting.ts, server/mastra/workflows/emergencyWorkflow.ts, server/_core/env.ts
 
 type LogMeta = Record<string, unknown>;
 
@@ -16,8 +16,44 @@ const warn: LogFn = (message, meta) => console.warn(...formatLog('WARN', message
 const error: LogFn = (message, meta) => console.error(...formatLog('ERROR', message, meta));
 const debug: LogFn = (message, meta) => console.debug(...formatLog('DEBUG', message, meta));
 
+/**
+ * Normalizes arbitrary error/detail values (Error, string, result objects) into log metadata.
+ */
+function toMeta(detail: unknown): LogMeta | undefined {
+  if (detail === undefined || detail === null) return undefined;
+  if (detail instanceof Error) return { error: detail.message };
+  if (typeof detail === 'object') return detail as LogMeta;
+  return { detail };
+}
+
+const agent = {
+  invoke: (name: string, meta?: LogMeta) => info(`[agent:${name}] invoke`, meta),
+  response: (name: string, meta?: LogMeta) => info(`[agent:${name}] response`, meta),
+  error: (name: string, detail?: unknown) => error(`[agent:${name}] error`, toMeta(detail))
+};
+
+const tool = {
+  execute: (name: string, meta?: LogMeta) => info(`[tool:${name}] execute`, meta),
+  result: (name: string, success: boolean, detail?: unknown) =>
+    (success ? info : warn)(`[tool:${name}] ${success ? 'succeeded' : 'failed'}`, toMeta(detail)),
+  debug: (message: string, meta?: LogMeta) => debug(`[tool] ${message}`, meta),
+  error: (message: string, detail?: unknown) => error(`[tool] ${message}`, toMeta(detail))
+};
+
+const workflow = {
+  start: (id: string, meta?: LogMeta) => info(`[workflow:${id}] start`, meta),
+  step: (stepId: string, message: string, meta?: LogMeta) => info(`[workflow step:${stepId}] ${message}`, meta),
+  complete: (id: string, meta?: LogMeta) => info(`[workflow:${id}] complete`, meta),
+  error: (id: string, stepId: string, detail?: unknown) => error(`[workflow:${id}] ${stepId} failed`, toMeta(detail))
+};
+
+const store = { debug: (message: string, meta?: LogMeta) => debug(`[store] ${message}`, meta) };
+
 export const logger = {
   system: { info, warn, error, debug },
+  agent,
+  tool,
+  workflow,
+  store
 } as const;
 
-
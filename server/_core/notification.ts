@@ -1,4 +1,6 @@
+import { enabledChannels, type NotificationTopic } from '@shared/notifications';
 import { TRPCError } from '@trpc/server';
+import * as db from '../db';
 
 export type NotificationPayload = { title: string, content: string };
 
@@ -49,3 +51,23 @@ export async function notifyOwner(payload: NotificationPayload): Promise<boolean
 
   return true;
 }
+
+/**
+ * Sends a notification to a user (e.g. a status change on something they filed) on the channels they enabled for
+ * `topic`. Returns false without sending when they turned the topic off everywhere.
+ *
+ * Like `notifyOwner`, this logs to console until delivery channels are wired in.
+ */
+export async function notifyUser(userId: number, payload: NotificationPayload, topic: NotificationTopic = 'bookingUpdates'): Promise<boolean> {
+  const { title, content } = validatePayload(payload);
+  const channels = enabledChannels(await db.getNotificationPreferences(userId), topic);
+
+  if (channels.length === 0) {
+    console.log(`[NOTIFICATION] User ${userId}: ${topic} turned off; skipped "${title}"`);
+    return false;
+  }
+
+  console.log(`[NOTIFICATION] User ${userId} via ${channels.join(', ')}: ${title} - ${content}`);
+
+  return true;
+}
@@ -51,11 +51,11 @@ export interface TraceInput {
 export interface TraceOutput {
   output: unknown;
   status: TraceStatus;
-  error?: ErrorDetails;
-  tokens?: TokenUsage;
-  cost?: number;
-  latencyMs?: number;
-  metrics?: Record<string, number>;
+  error?: ErrorDetails | undefined;
+  tokens?: TokenUsage | undefined;
+  cost?: number | undefined;
+  latencyMs?: number | undefined;
+  metrics?: Record<string, number> | undefined;
 }
 
 /**
@@ -66,7 +66,7 @@ export interface SpanInput {
   name: string;
   type: SpanType;
   input: unknown;
-  parentSpanId?: string;
+  parentSpanId?: string | undefined;
 }
 
 /**
@@ -76,9 +76,9 @@ export interface SpanInput {
 export interface SpanOutput {
   output: unknown;
   status: SpanStatus;
-  error?: ErrorDetails;
-  metrics?: Record<string, number>;
-  durationMs?: number;
+  error?: ErrorDetails | undefined;
+  metrics?: Record<string, number> | undefined;
+  durationMs?: number | undefined;
 }
 
 /**
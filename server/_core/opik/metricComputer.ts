@@ -8,7 +8,8 @@
  * @module opik/metricComputer
  */
 
-import type { ServiceAgent } from "@/mastra/schemas";
+import { resolveServiceCategory, SERVICE_CATEGORIES, SERVICE_TAXONOMY } from "../../../shared/taxonomy";
+import type { ServiceAgent } from "../../mastra/schemas";
 
 /**
  * Input for metric computation
@@ -30,22 +31,15 @@ export interface MetricResult {
 }
 
 /**
- * Known issue-category mappings for accuracy computation
+ * Known issue-category mappings for accuracy computation: the shared
+ * taxonomy's example requests, keyed to the search term categorizeIssueTool
+ * returns for their category
  */
-export const KNOWN_CATEGORY_MAPPINGS: Record<string, string> = {
-  "locked out": "locksmith",
-  "lost keys": "locksmith",
-  "broken lock": "locksmith",
-  "pipe burst": "plumber",
-  "water leak": "plumber",
-  "clogged drain": "plumber",
-  "no hot water": "plumber",
-  "power outage": "electrician",
-  "electrical fire": "electrician",
-  "broken outlet": "electrician",
-  "broken window": "glass",
-  "shattered glass": "glass",
-};
+export const KNOWN_CATEGORY_MAPPINGS: Record<string, string> = Object.fromEntries(
+  SERVICE_CATEGORIES.flatMap((category) =>
+    SERVICE_TAXONOMY[category].examples.map((example) => [example, SERVICE_TAXONOMY[category].searchTerm])
+  )
+);
 
 /**
  * Emergency-related keywords for relevance scoring
@@ -343,13 +337,14 @@ function computeProviderScore(provider: ServiceAgent): number {
  * Computes category accuracy score for categorizeIssueTool
  *
  * Compares the predicted category against known issue-category mappings.
- * Returns 1.0 for exact match, 0.0 for mismatch.
+ * Returns 1.0 for exact match, 0.5 for another name of the same taxonomy
+ * category, 0.0 for mismatch.
  *
  * Requirements: 5.4
  *
  * @param predicted - The predicted category from the tool
  * @param groundTruth - The expected/correct category
- * @returns Accuracy score: 1.0 for match, 0.0 for mismatch
+ * @returns Accuracy score: 1.0 for match, 0.5 for same category, 0.0 for mismatch
  */
 export function computeCategoryAccuracy(
   predicted: string,
@@ -367,22 +362,11 @@ export function computeCategoryAccuracy(
     return 1;
   }
 
-  // Check for partial/related matches
-  const relatedCategories: Record<string, string[]> = {
-    locksmith: ["locks", "keys", "security"],
-    plumber: ["plumbing", "water", "pipes", "drain"],
-    electrician: ["electrical", "power", "wiring"],
-    glass: ["window", "glass", "glazier"],
-    handyman: ["general", "misc", "other"],
-  };
-
-  // Check if predicted is related to ground truth
-  // Use Object.hasOwn to avoid prototype pollution issues with keys like "__proto__"
-  const groundTruthRelated = Object.hasOwn(relatedCategories, groundTruthLower)
-    ? relatedCategories[groundTruthLower]
-    : [];
-  if (groundTruthRelated.some((related) => predictedLower.includes(related))) {
-    return 0.5; // Partial credit for related category
+  // Partial credit when both name the same taxonomy category in different
+  // words (e.g. "plumbing" for "plumber")
+  const predictedCategory = resolveServiceCategory(predictedLower);
+  if (predictedCategory && predictedCategory === resolveServiceCategory(groundTruthLower)) {
+    return 0.5;
   }
 
   return 0;
@@ -36,7 +36,7 @@ export interface ToolOutput {
   error?: {
     code: string;
     message: string;
-  };
+  } | undefined;
 }
 
 /**
@@ -228,7 +228,7 @@ export function createSpanWrappedTool<TInput, TOutput extends ToolOutput>(
  * @param context - Parent trace context for linking spans
  * @returns A function that wraps categorizeIssueTool execution with span tracing
  */
-export function wrapCategorizeIssueTool<TInput extends { issue: string }, TOutput extends ToolOutput & { data?: { category: string; confidence: number } }>(
+export function wrapCategorizeIssueTool<TInput extends { issue: string }, TOutput extends ToolOutput & { data?: { category: string; confidence: number } | undefined }>(
   context: ToolSpanContext
 ): (execute: (input: TInput) => Promise<TOutput>) => (input: TInput) => Promise<SpanWrappedResult<TOutput>> {
   return (execute: (input: TInput) => Promise<TOutput>) => {
@@ -318,7 +318,7 @@ export function wrapCategorizeIssueTool<TInput extends { issue: string }, TOutpu
  */
 export function wrapYelpSearchTool<
   TInput extends { category: string; lat: number; lng: number },
-  TOutput extends ToolOutput & { data?: Array<unknown> }
+  TOutput extends ToolOutput & { data?: Array<unknown> | undefined }
 >(
   context: ToolSpanContext
 ): (execute: (input: TInput) => Promise<TOutput>) => (input: TInput) => Promise<SpanWrappedResult<TOutput>> {
@@ -413,7 +413,7 @@ export function wrapYelpSearchTool<
  */
 export function wrapDispatchAgentTool<
   TInput extends { requestId: string; agentId: string },
-  TOutput extends ToolOutput & { data?: { eta?: number; costEstimate?: number; status?: string } }
+  TOutput extends ToolOutput & { data?: { eta?: number; costEstimate?: number; status?: string } | undefined }
 >(
   context: ToolSpanContext
 ): (execute: (input: TInput) => Promise<TOutput>) => (input: TInput) => Promise<SpanWrappedResult<TOutput>> {
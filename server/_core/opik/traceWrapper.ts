@@ -36,8 +36,8 @@ export interface TracedResult<T> {
 export interface AgentExecutionResult {
   output: unknown;
   model?: string;
-  tokens?: TokenUsage;
-  error?: ErrorDetails;
+  tokens?: TokenUsage | undefined;
+  error?: ErrorDetails | undefined;
 }
 
 /**
@@ -46,7 +46,7 @@ export interface AgentExecutionResult {
 export interface WorkflowExecutionResult {
   success: boolean;
   output?: unknown;
-  error?: { code: string; message: string };
+  error?: { code: string; message: string } | undefined;
 }
 
 /**
@@ -0,0 +1,70 @@
+// file: server/_core/pdf.ts
+// description: Minimal single-page PDF writer for text documents (receipts) using the built-in base-14 fonts
+// reference: server/services/receipts.ts
+
+export type PdfFont = 'regular' | 'bold' | 'mono';
+
+export type PdfText = { text: string, x: number, y: number, size?: number | undefined, font?: PdfFont | undefined };
+
+/** US Letter in points; the origin is the bottom-left corner. */
+export const PDF_PAGE = { width: 612, height: 792 };
+
+const FONT_RESOURCES: Record<PdfFont, { name: string, baseFont: string }> = {
+  regular: { name: 'F1', baseFont: 'Helvetica' },
+  bold: { name: 'F2', baseFont: 'Helvetica-Bold' },
+  mono: { name: 'F3', baseFont: 'Courier' }
+};
+
+/** Courier glyphs are all 600/1000 em wide, which is what makes right-aligned amount columns possible. */
+export function monoTextWidth(text: string, size: number): number {
+  return text.length * size * 0.6;
+}
+
+/**
+ * Base-14 fonts only cover Latin-1 reliably; anything else becomes `?`. Parentheses and backslashes are escaped.
+ */
+function pdfString(text: string): string {
+  const latin = text.replace(/[–—]/g, '-').replace(/[\u00a0\u202f]/g, ' ').replace(/[^\x20-\x7e]/g, '?');
+  return `(${latin.replace(/[\\()]/g, match => `\\${match}`)})`;
+}
+
+/**
+ * Renders positioned text runs onto one page and returns the PDF bytes. Output is plain ASCII, so string offsets
+ * are byte offsets when building the cross-reference table.
+ */
+export function renderTextPdf(runs: PdfText[], title: string): Uint8Array<ArrayBuffer> {
+  const content = runs
+    .map(run => {
+      const font = FONT_RESOURCES[run.font ?? 'regular'];
+      return `BT /${font.name} ${run.size ?? 10} Tf ${run.x.toFixed(2)} ${run.y.toFixed(2)} Td ${pdfString(run.text)} Tj ET`;
+    })
+    .join('\n');
+
+  const fonts = Object.values(FONT_RESOURCES);
+  const fontObjectStart = 5;
+  const fontRefs = fonts.map((font, index) => `/${font.name} ${fontObjectStart + index} 0 R`).join(' ');
+  const infoObject = fontObjectStart + fonts.length;
+
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE.width} ${PDF_PAGE.height}] /Resources << /Font << ${fontRefs} >> >> /Contents 4 0 R >>`,
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    ...fonts.map(font => `<< /Type /Font /Subtype /Type1 /BaseFont /${font.baseFont} /Encoding /WinAnsiEncoding >>`),
+    `<< /Title ${pdfString(title)} /Producer (YUBER) >>`
+  ];
+
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, index) => {
+    offsets.push(output.length);
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${infoObject} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return new TextEncoder().encode(output);
+}
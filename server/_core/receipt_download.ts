@@ -0,0 +1,56 @@
+// file: server/_core/receipt_download.ts
+// description: Route handler serving a booking receipt as JSON, HTML or a PDF download for the signed-in owner only
+// reference: app/api/receipts/[bookingId]/route.ts, server/services/receipts.ts, server/_core/authorization.ts
+import { TRPCError } from '@trpc/server';
+import { getHTTPStatusCodeFromError } from '@trpc/server/http';
+import { type NextRequest, NextResponse } from 'next/server';
+import { type User } from '../../drizzle/schema';
+import { buildReceipt, RECEIPT_FORMATS, type ReceiptFormat, receiptFileName, renderReceiptHtml, renderReceiptPdf } from '../services/receipts';
+import { loadBooking } from './authorization';
+import { localAuth } from './localAuth';
+
+const isReceiptFormat = (value: string): value is ReceiptFormat => (RECEIPT_FORMATS as readonly string[]).includes(value);
+
+/**
+ * GET /api/receipts/:bookingId?format=json|html|pdf. HTML and PDF are sent as attachments unless `inline=1` is passed.
+ */
+export async function handleReceiptDownload(req: NextRequest, bookingIdParam: string) {
+  const bookingId = Number(bookingIdParam);
+  if (!Number.isInteger(bookingId) || bookingId <= 0) {
+    return NextResponse.json({ error: 'Invalid booking id' }, { status: 400 });
+  }
+
+  const format = req.nextUrl.searchParams.get('format') ?? 'pdf';
+  if (!isReceiptFormat(format)) {
+    return NextResponse.json({ error: `format must be one of ${RECEIPT_FORMATS.join(', ')}` }, { status: 400 });
+  }
+
+  let user: User;
+  try {
+    user = await localAuth.authenticateRequest(req);
+  } catch {
+    return NextResponse.json({ error: 'Please login' }, { status: 401 });
+  }
+
+  try {
+    const receipt = await buildReceipt(await loadBooking(user, bookingId));
+    if (format === 'json') {
+      return NextResponse.json(receipt);
+    }
+
+    const disposition = req.nextUrl.searchParams.get('inline') === '1' ? 'inline' : 'attachment';
+    const headers = {
+      'Content-Type': format === 'pdf' ? 'application/pdf' : 'text/html; charset=utf-8',
+      'Content-Disposition': `${disposition}; filename="${receiptFileName(receipt, format)}"`,
+      'Cache-Control': 'private, no-store'
+    };
+    const body = format === 'pdf' ? renderReceiptPdf(receipt) : renderReceiptHtml(receipt);
+    return new NextResponse(body, { status: 200, headers });
+  } catch (error) {
+    if (error instanceof TRPCError) {
+      return NextResponse.json({ error: error.message }, { status: getHTTPStatusCodeFromError(error) });
+    }
+    console.error('[Receipts] Failed to render receipt', error);
+    return NextResponse.json({ error: 'Failed to render receipt' }, { status: 500 });
+  }
+}
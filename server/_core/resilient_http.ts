@@ -0,0 +1,233 @@
+// file: server/_core/resilient_http.ts
+// description: Shared fetch wrapper for upstream APIs: abortable timeouts, backoff on 429/5xx, circuit breaker and daily quota
+// reference: server/_core/yelp_rest_search.ts, server/_core/yelp_ai_client.ts, server/_core/systemRouter.ts
+
+import { ENV } from './env';
+
+export const UPSTREAM_SERVICES = ['yelp_rest', 'yelp_ai'] as const;
+export type UpstreamService = (typeof UPSTREAM_SERVICES)[number];
+
+export type RetryPolicy = {
+  /** Longest single attempt. */
+  timeoutMs: number,
+  /** Longest whole request, attempts and waits between them included; no attempt or wait runs past it. */
+  deadlineMs: number,
+  /** Extra attempts after the first one. */
+  retries: number,
+  baseDelayMs: number,
+  /** Longest single wait; a Retry-After beyond this is not waited out and the request fails instead. */
+  maxDelayMs: number,
+  /** Whether a timed-out attempt may be retried (off for non-idempotent calls). */
+  retryOnTimeout: boolean
+};
+
+export type BreakerPolicy = {
+  /** Consecutive failed requests (after retries) that open the circuit. */
+  failureThreshold: number,
+  /** How long the circuit stays open before a single trial request is let through. */
+  cooldownMs: number
+};
+
+export const UPSTREAM_POLICIES: Record<UpstreamService, { retry: RetryPolicy, breaker: BreakerPolicy }> = {
+  yelp_rest: {
+    retry: { timeoutMs: 3000, deadlineMs: 5000, retries: 2, baseDelayMs: 250, maxDelayMs: 2000, retryOnTimeout: true },
+    breaker: { failureThreshold: 5, cooldownMs: 30_000 }
+  },
+  yelp_ai: {
+    retry: { timeoutMs: 8000, deadlineMs: 12_000, retries: 1, baseDelayMs: 500, maxDelayMs: 2000, retryOnTimeout: false },
+    breaker: { failureThreshold: 3, cooldownMs: 60_000 }
+  }
+};
+
+/** Upstream answered with a non-2xx status (after any retries). */
+export class UpstreamHttpError extends Error {
+  constructor (public service: UpstreamService, public status: number, public body: string) {
+    super(`${service} request failed (${status}): ${body.slice(0, 300) || 'no body'}`);
+    this.name = 'UpstreamHttpError';
+  }
+}
+
+/** Thrown without calling upstream: the circuit is open or today's quota is used up. Callers fall back to local data. */
+export class UpstreamUnavailableError extends Error {
+  constructor (public service: UpstreamService, public reason: 'circuit_open' | 'quota_exhausted') {
+    super(`${service} unavailable (${reason.replace('_', ' ')})`);
+    this.name = 'UpstreamUnavailableError';
+  }
+}
+
+type CircuitState = 'closed' | 'open' | 'half_open';
+
+class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor (private policy: BreakerPolicy) {}
+
+  get state(): CircuitState {
+    if (this.openedAt === null) return 'closed';
+    return Date.now() - this.openedAt >= this.policy.cooldownMs ? 'half_open' : 'open';
+  }
+
+  /** Closed: always. Half-open: one trial request at a time. Open: never. */
+  tryAcquire(): boolean {
+    const state = this.state;
+    if (state === 'closed') return true;
+    if (state === 'open' || this.trialInFlight) return false;
+    this.trialInFlight = true;
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.failures += 1;
+    this.trialInFlight = false;
+    if (this.openedAt !== null || this.failures >= this.policy.failureThreshold) {
+      this.openedAt = Date.now();
+    }
+  }
+
+  /** Releases a half-open trial that ended without telling us anything about upstream (e.g. a 404). */
+  recordNeutral(): void {
+    this.trialInFlight = false;
+  }
+
+  snapshot() {
+    const state = this.state;
+    return {
+      state,
+      consecutiveFailures: this.failures,
+      retryAt: state === 'open' && this.openedAt !== null ? new Date(this.openedAt + this.policy.cooldownMs).toISOString() : null
+    };
+  }
+}
+
+const breakers = Object.fromEntries(
+  UPSTREAM_SERVICES.map(service => [service, new CircuitBreaker(UPSTREAM_POLICIES[service].breaker)])
+) as Record<UpstreamService, CircuitBreaker>;
+
+/**
+ * Calls per UTC day. Both Yelp services share YELP_DAILY_QUOTA because they bill against the same API key; the counter
+ * is per process, like the rest of the in-memory server state.
+ */
+const quota = { day: '', counts: Object.fromEntries(UPSTREAM_SERVICES.map(service => [service, 0])) as Record<UpstreamService, number> };
+
+function quotaDay(now = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+function quotaUsed(): number {
+  if (quota.day !== quotaDay()) {
+    quota.day = quotaDay();
+    UPSTREAM_SERVICES.forEach(service => {
+      quota.counts[service] = 0;
+    });
+  }
+  return UPSTREAM_SERVICES.reduce((total, service) => total + quota.counts[service], 0);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/** Retry-After is either delta-seconds or an HTTP date. */
+export function parseRetryAfter(header: string | null, now = Date.now()): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/** Full-jitter exponential backoff: a random wait up to base × 2^attempt, capped. */
+function backoffDelay(policy: RetryPolicy, attempt: number): number {
+  return Math.random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+}
+
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+/**
+ * fetch() for an upstream service. Each attempt is aborted after the service timeout; 429/5xx responses and network
+ * errors are retried with backoff (Retry-After wins when present) while the request's deadline allows: the last
+ * attempt is cut short at the deadline, and a retry whose wait would end past it is not made. Consecutive failures open the service's circuit,
+ * after which calls fail fast with UpstreamUnavailableError until the cooldown passes. Returns the successful response;
+ * any other outcome throws.
+ */
+export async function resilientFetch(service: UpstreamService, url: string, init: RequestInit = {}): Promise<Response> {
+  const { retry } = UPSTREAM_POLICIES[service];
+  const breaker = breakers[service];
+
+  if (quotaUsed() >= ENV.yelpDailyQuota) {
+    throw new UpstreamUnavailableError(service, 'quota_exhausted');
+  }
+  if (!breaker.tryAcquire()) {
+    throw new UpstreamUnavailableError(service, 'circuit_open');
+  }
+
+  const deadline = Date.now() + retry.deadlineMs;
+  const withinDeadline = (delay: number) => Date.now() + delay < deadline;
+
+  for (let attempt = 0; ; attempt++) {
+    const timeoutMs = Math.min(retry.timeoutMs, deadline - Date.now());
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(new Error(`${service} request timed out after ${timeoutMs}ms`)), timeoutMs);
+    const signal = init.signal ? AbortSignal.any([init.signal, controller.signal]) : controller.signal;
+    const canRetry = attempt < retry.retries;
+    quota.counts[service] += 1;
+
+    try {
+      const response = await fetch(url, { ...init, signal });
+      if (response.ok) {
+        breaker.recordSuccess();
+        return response;
+      }
+
+      const body = await response.text();
+      if (!isRetryableStatus(response.status)) {
+        breaker.recordNeutral();
+        throw new UpstreamHttpError(service, response.status, body);
+      }
+
+      const delay = parseRetryAfter(response.headers.get('retry-after')) ?? backoffDelay(retry, attempt);
+      if (!canRetry || delay > retry.maxDelayMs || !withinDeadline(delay)) {
+        breaker.recordFailure();
+        throw new UpstreamHttpError(service, response.status, body);
+      }
+      console.warn(`[Upstream] ${service} returned ${response.status}; retrying in ${Math.round(delay)}ms`);
+      await sleep(delay);
+    } catch (error) {
+      if (error instanceof UpstreamHttpError) throw error;
+      if (init.signal?.aborted) {
+        breaker.recordNeutral();
+        throw error;
+      }
+
+      const timedOut = controller.signal.aborted;
+      const delay = backoffDelay(retry, attempt);
+      if (!canRetry || (timedOut && !retry.retryOnTimeout) || !withinDeadline(delay)) {
+        breaker.recordFailure();
+        throw timedOut ? controller.signal.reason : error;
+      }
+      console.warn(`[Upstream] ${service} ${timedOut ? 'timed out' : 'network error'}; retrying`);
+      await sleep(delay);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+export function isUpstreamAvailable(service: UpstreamService): boolean {
+  return breakers[service].state !== 'open' && quotaUsed() < ENV.yelpDailyQuota;
+}
+
+/** Circuit state and today's call counts, reported by `system.health`. */
+export function getUpstreamHealth() {
+  const used = quotaUsed();
+  return {
+    quota: { day: quota.day, limit: ENV.yelpDailyQuota, used, remaining: Math.max(0, ENV.yelpDailyQuota - used) },
+    services: UPSTREAM_SERVICES.map(service => ({ service, calls: quota.counts[service], circuit: breakers[service].snapshot() }))
+  };
+}
@@ -1,14 +1,28 @@
 import { z } from 'zod';
 import { notifyOwner } from './notification';
+import { getUpstreamHealth } from './resilient_http';
 import { adminProcedure, publicProcedure, router } from './trpc';
+import { getYelpCacheStats, invalidateYelpCache, YELP_CACHE_ENDPOINTS } from './yelp_cache';
 
 export const systemRouter = router({
-  health: publicProcedure.input(z.object({ timestamp: z.number().min(0, 'timestamp cannot be negative') })).query(() => ({ ok: true })),
+  // `upstream` reports the Yelp circuit breakers and today's call count against YELP_DAILY_QUOTA.
+  health: publicProcedure.input(z.object({ timestamp: z.number().min(0, 'timestamp cannot be negative') }))
+    .query(() => ({ ok: true, upstream: getUpstreamHealth() })),
 
   notifyOwner: adminProcedure.input(
     z.object({ title: z.string().min(1, 'title is required'), content: z.string().min(1, 'content is required') })
   ).mutation(async ({ input }) => {
     const delivered = await notifyOwner(input);
     return { success: delivered } as const;
+  }),
+
+  yelpCacheStats: adminProcedure.query(() => getYelpCacheStats()),
+
+  // No filter clears the whole Yelp cache; `businessId` drops that business's profile and reviews.
+  invalidateYelpCache: adminProcedure.input(
+    z.object({ endpoint: z.enum(YELP_CACHE_ENDPOINTS).optional(), businessId: z.string().min(1).optional(), expiredOnly: z.boolean().optional() })
+  ).mutation(async ({ input }) => {
+    const removed = await invalidateYelpCache(input);
+    return { success: true, removed } as const;
   })
 });
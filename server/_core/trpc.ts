@@ -4,6 +4,7 @@
 
 import { NOT_ADMIN_ERR_MSG, UNAUTHED_ERR_MSG } from '@shared/const';
 import { initTRPC, TRPCError } from '@trpc/server';
+import { isAdmin } from './authorization';
 import { type TrpcContext } from './context';
 
 const t = initTRPC.context<TrpcContext>().create();
@@ -26,7 +27,7 @@ export const protectedProcedure = t.procedure.use(requireUser);
 export const adminProcedure = t.procedure.use(t.middleware(async opts => {
   const { ctx, next } = opts;
 
-  if (!ctx.user || ctx.user.role !== 'admin') {
+  if (!ctx.user || !isAdmin(ctx.user)) {
     throw new TRPCError({ code: 'FORBIDDEN', message: NOT_ADMIN_ERR_MSG });
   }
 
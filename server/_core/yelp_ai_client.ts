@@ -1,8 +1,10 @@
 // file: server/_core/yelp_ai_client.ts
 // description: Typed Yelp AI client that wraps chat requests with env-based auth
-// reference: server/_core/env.ts, server/_core/yelp_ai_validation.ts, server/_core/yelp_ai_types.ts
+// reference: server/_core/env.ts, server/_core/yelp_ai_validation.ts, server/_core/yelp_ai_types.ts, server/_core/yelp_cache.ts, server/_core/resilient_http.ts
 
 import { ENV } from './env';
+import { resilientFetch, UpstreamHttpError } from './resilient_http';
+import { withYelpCache } from './yelp_cache';
 import { type UserContext, type YelpAIResponse } from './yelp_ai_types';
 import { validateYelpAIResponse } from './yelp_ai_validation';
 
@@ -14,6 +16,15 @@ interface YelpChatMessage {
 
 const YELP_AI_CHAT_URL = 'https://api.yelp.com/ai/chat/v2';
 
+function describeError(rawText: string): string {
+  try {
+    const parsed = JSON.parse(rawText) as { error?: string, message?: string };
+    return parsed.error || parsed.message || rawText;
+  } catch {
+    return rawText;
+  }
+}
+
 export class YelpAIClient {
   private apiKey: string;
   private chatId: string | null = null;
@@ -26,6 +37,10 @@ export class YelpAIClient {
     }
   }
 
+  /**
+   * Opening messages (no chat yet) are cached by query and rounded location. Cached answers are stored without their
+   * `chat_id`, so a cache hit starts a fresh Yelp thread on the next message instead of joining someone else's.
+   */
   async sendMessage(query: string, userContext?: UserContext): Promise<YelpAIResponse> {
     const payload: YelpChatMessage = { query, chat_id: this.chatId };
 
@@ -33,32 +48,30 @@ export class YelpAIClient {
       payload.user_context = userContext;
     }
 
-    const response = await fetch(YELP_AI_CHAT_URL, {
+    const data = this.chatId === null
+      ? await withYelpCache(
+        'ai_chat',
+        { query, latitude: userContext?.location?.latitude, longitude: userContext?.location?.longitude },
+        () => this.post(payload),
+        { toCached: response => ({ ...response, chat_id: null }) }
+      )
+      : await this.post(payload);
+
+    this.chatId = data.chat_id ?? this.chatId;
+    return data;
+  }
+
+  private async post(payload: YelpChatMessage): Promise<YelpAIResponse> {
+    const response = await resilientFetch('yelp_ai', YELP_AI_CHAT_URL, {
       method: 'POST',
       headers: { accept: 'application/json', 'content-type': 'application/json', Authorization: `Bearer ${this.apiKey}` },
       body: JSON.stringify(payload)
+    }).catch(error => {
+      throw error instanceof UpstreamHttpError ? new Error(`Yelp API error (${error.status}): ${describeError(error.body)}`) : error;
     });
 
-    const rawText = await response.text();
-
-    if (!response.ok) {
-      let errorMessage = response.statusText;
-      try {
-        const parsed = JSON.parse(rawText) as { error?: string, message?: string };
-        errorMessage = parsed.error || parsed.message || response.statusText;
-      } catch {
-        if (rawText) {
-          errorMessage = `${response.statusText}: ${rawText}`;
-        }
-      }
-      const safeBody = rawText || errorMessage;
-      throw new Error(`Yelp API error (${response.status}): ${safeBody}`);
-    }
-
-    const rawData = JSON.parse(rawText);
-    const data = validateYelpAIResponse(rawData);
-    this.chatId = data.chat_id ?? this.chatId;
-    return data;
+    const rawData = JSON.parse(await response.text());
+    return validateYelpAIResponse(rawData);
   }
 
   resetConversation(): void {
@@ -0,0 +1,160 @@
+// file: server/_core/yelp_cache.ts
+// description: libSQL-backed response cache for Yelp REST and Yelp AI calls with per-endpoint TTLs and stale-while-revalidate
+// reference: drizzle/schema.ts (apiCache), server/db.ts, server/_core/yelp_rest_search.ts, server/_core/yelp_ai_client.ts
+
+import * as db from '../db';
+
+export const YELP_CACHE_ENDPOINTS = ['search', 'business', 'reviews', 'ai_chat'] as const;
+export type YelpCacheEndpoint = (typeof YELP_CACHE_ENDPOINTS)[number];
+
+export type YelpCachePolicy = {
+  /** Served without contacting Yelp for this long after being fetched. */
+  freshSeconds: number,
+  /** After going stale, still served (while a background refresh runs) for this much longer. */
+  staleSeconds: number
+};
+
+const MINUTE = 60;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/**
+ * Business profiles barely change, reviews change daily at most, and search rankings move through the day. AI answers
+ * are kept briefly because they mention availability ("open now").
+ */
+export const YELP_CACHE_POLICIES: Record<YelpCacheEndpoint, YelpCachePolicy> = {
+  search: { freshSeconds: 15 * MINUTE, staleSeconds: 6 * HOUR },
+  business: { freshSeconds: DAY, staleSeconds: 7 * DAY },
+  reviews: { freshSeconds: 6 * HOUR, staleSeconds: 3 * DAY },
+  ai_chat: { freshSeconds: 10 * MINUTE, staleSeconds: HOUR }
+};
+
+/** Coordinates are rounded to 3 decimals (about 110 m), so nearby requests share an entry. */
+export const CACHE_COORDINATE_DECIMALS = 3;
+
+const COORDINATE_PARAMS = new Set(['latitude', 'longitude', 'lat', 'lng']);
+const FREE_TEXT_PARAMS = new Set(['term', 'query']);
+
+export type YelpCacheParams = Record<string, string | number | boolean | null | undefined>;
+
+/**
+ * Drops empty values, trims and collapses whitespace, case-folds free-text fields (`term`, `query`) and rounds
+ * coordinates. Ids keep their case because Yelp ids are case-sensitive.
+ */
+export function normalizeCacheParams(params: YelpCacheParams): Array<[string, string]> {
+  return Object.entries(params)
+    .flatMap(([name, value]): Array<[string, string]> => {
+      if (value === undefined || value === null || value === '') return [];
+      if (typeof value === 'number' && COORDINATE_PARAMS.has(name)) return [[name, value.toFixed(CACHE_COORDINATE_DECIMALS)]];
+      const text = String(value).trim().replace(/\s+/g, ' ');
+      return [[name, FREE_TEXT_PARAMS.has(name) ? text.toLowerCase() : text]];
+    })
+    .sort(([a], [b]) => a.localeCompare(b));
+}
+
+export function yelpCacheKey(endpoint: YelpCacheEndpoint, params: YelpCacheParams): string {
+  return `${endpoint}:${new URLSearchParams(normalizeCacheParams(params)).toString()}`;
+}
+
+type CacheOptions<T> = {
+  /** Transforms the value before it is stored, e.g. to drop per-caller state. The caller still gets the original. */
+  toCached?: ((value: T) => T) | undefined
+};
+
+const inflight = new Map<string, Promise<unknown>>();
+
+async function store(endpoint: YelpCacheEndpoint, key: string, params: YelpCacheParams, value: unknown): Promise<void> {
+  const policy = YELP_CACHE_POLICIES[endpoint];
+  const now = Date.now();
+  try {
+    await db.upsertApiCacheEntry({
+      key,
+      endpoint,
+      paramsJson: Object.fromEntries(normalizeCacheParams(params)),
+      responseJson: value,
+      freshUntil: new Date(now + policy.freshSeconds * 1000),
+      staleUntil: new Date(now + (policy.freshSeconds + policy.staleSeconds) * 1000)
+    });
+  } catch (error) {
+    console.warn('[YelpCache] Failed to store entry', key, error instanceof Error ? error.message : error);
+  }
+}
+
+/**
+ * Fetches and stores `key`, sharing one upstream request between concurrent callers.
+ */
+function refresh<T>(endpoint: YelpCacheEndpoint, key: string, params: YelpCacheParams, fetcher: () => Promise<T>, options: CacheOptions<T>) {
+  const pending = inflight.get(key);
+  if (pending) return pending as Promise<T>;
+
+  const request = (async () => {
+    const value = await fetcher();
+    await store(endpoint, key, params, options.toCached ? options.toCached(value) : value);
+    return value;
+  })().finally(() => inflight.delete(key));
+
+  inflight.set(key, request);
+  return request;
+}
+
+/**
+ * Serves `fetcher`'s result from the cache when possible. Fresh entries are returned directly; stale ones are returned
+ * immediately while a refresh runs in the background; missing or expired entries are fetched. Failed fetches are never
+ * cached. Without a database this is a pass-through.
+ */
+export async function withYelpCache<T>(
+  endpoint: YelpCacheEndpoint,
+  params: YelpCacheParams,
+  fetcher: () => Promise<T>,
+  options: CacheOptions<T> = {}
+): Promise<T> {
+  const key = yelpCacheKey(endpoint, params);
+  let entry: Awaited<ReturnType<typeof db.getApiCacheEntry>>;
+  try {
+    entry = await db.getApiCacheEntry(key);
+  } catch (error) {
+    console.warn('[YelpCache] Lookup failed; calling Yelp directly', error instanceof Error ? error.message : error);
+  }
+
+  const now = new Date();
+  if (entry && entry.freshUntil > now) {
+    return entry.responseJson as T;
+  }
+  if (entry && entry.staleUntil > now) {
+    refresh(endpoint, key, params, fetcher, options).catch(error => {
+      console.warn('[YelpCache] Background revalidation failed', key, error instanceof Error ? error.message : error);
+    });
+    return entry.responseJson as T;
+  }
+  return refresh(endpoint, key, params, fetcher, options);
+}
+
+export type YelpCacheInvalidation = {
+  endpoint?: YelpCacheEndpoint | undefined,
+  /** Drops the cached profile and reviews for one business. */
+  businessId?: string | undefined,
+  /** Only removes entries past their stale window. */
+  expiredOnly?: boolean | undefined
+};
+
+/**
+ * Admin invalidation. With no filter every entry is removed.
+ */
+export async function invalidateYelpCache({ endpoint, businessId, expiredOnly }: YelpCacheInvalidation = {}): Promise<number> {
+  if (expiredOnly) {
+    return db.deleteExpiredApiCacheEntries();
+  }
+  if (businessId) {
+    const endpoints = endpoint ? [endpoint] : (['business', 'reviews'] as const);
+    return db.deleteApiCacheEntries({ keys: endpoints.map(name => yelpCacheKey(name, { id: businessId })) });
+  }
+  return db.deleteApiCacheEntries({ endpoint });
+}
+
+export async function getYelpCacheStats() {
+  const rows = await db.getApiCacheStats();
+  return YELP_CACHE_ENDPOINTS.map(endpoint => {
+    const row = rows.find(candidate => candidate.endpoint === endpoint);
+    return { endpoint, entries: Number(row?.entries ?? 0), fresh: Number(row?.fresh ?? 0), policy: YELP_CACHE_POLICIES[endpoint] };
+  });
+}
@@ -1,8 +1,10 @@
 // file: server/_core/yelp_rest_search.ts
 // description: Direct Yelp REST business search using coordinates and term
-// reference: server/_core/env.ts
+// reference: server/_core/env.ts, server/_core/yelp_cache.ts, server/_core/resilient_http.ts
 
 import { ENV } from './env';
+import { resilientFetch } from './resilient_http';
+import { CACHE_COORDINATE_DECIMALS, withYelpCache } from './yelp_cache';
 
 const YELP_API_BASE = 'https://api.yelp.com/v3';
 
@@ -28,6 +30,8 @@ export type YelpRestBusiness = {
   phone: string | null;
   display_phone?: string | null;
   transactions?: string[] | null;
+  /** "$" to "$$$$". */
+  price?: string | null;
 };
 
 export type YelpRestBusinessDetails = YelpRestBusiness & {
@@ -58,7 +62,7 @@ async function callYelpApi<T>(path: string, searchParams?: Record<string, string
     });
   }
 
-  const res = await fetch(url.toString(), {
+  const res = await resilientFetch('yelp_rest', url.toString(), {
     headers: {
       accept: 'application/json',
       Authorization: `Bearer ${ENV.yelpApiKey}`
@@ -66,11 +70,6 @@ async function callYelpApi<T>(path: string, searchParams?: Record<string, string
   });
 
   const text = await res.text();
-  if (!res.ok) {
-    console.error(`[Yelp API Error] ${res.status}: ${text}`);
-    throw new Error(`Yelp API request failed (${res.status}): ${text || res.statusText}`);
-  }
-
   try {
     return JSON.parse(text) as T;
   } catch (e) {
@@ -79,28 +78,60 @@ async function callYelpApi<T>(path: string, searchParams?: Record<string, string
   }
 }
 
+/** Yelp caps `limit` at 50 and `offset + limit` at 240, and `radius` at 40 km. */
+export const YELP_MAX_PAGE_SIZE = 50;
+export const YELP_MAX_RESULTS = 240;
+export const YELP_MAX_RADIUS_METERS = 40_000;
+
+export type YelpSearchOptions = {
+  offset?: number | undefined,
+  limit?: number | undefined,
+  sortBy?: 'best_match' | 'rating' | 'review_count' | 'distance' | undefined,
+  /** Yelp price levels 1 ($) to 4 ($$$$). */
+  price?: number[] | undefined,
+  openNow?: boolean | undefined,
+  radiusMeters?: number | undefined
+};
+
 export async function searchYelpBusinesses(
   term: string,
   coords: { latitude: number, longitude: number },
-  category?: string
+  category?: string,
+  { offset = 0, limit = 10, sortBy = 'best_match', price, openNow, radiusMeters }: YelpSearchOptions = {}
 ): Promise<YelpRestBusiness[]> {
-  const data = await callYelpApi<{ businesses?: YelpRestBusiness[] }>('businesses/search', {
-    term,
-    categories: category,
-    latitude: String(coords.latitude),
-    longitude: String(coords.longitude),
-    limit: '10',
-    sort_by: 'best_match'
-  });
+  const pageSize = Math.min(limit, YELP_MAX_PAGE_SIZE, YELP_MAX_RESULTS - offset);
+  if (pageSize <= 0) return [];
+
+  const filters = {
+    offset: offset || undefined,
+    price: price?.length ? [...price].sort().join(',') : undefined,
+    open_now: openNow || undefined,
+    radius: radiusMeters ? Math.min(Math.round(radiusMeters), YELP_MAX_RADIUS_METERS) : undefined
+  };
+  const params = { term, categories: category, latitude: coords.latitude, longitude: coords.longitude, limit: pageSize, sort_by: sortBy, ...filters };
 
-  return data.businesses ?? [];
+  return withYelpCache('search', params, async () => {
+    // Search near the rounded point the cache key uses, so one cached answer is right for every caller sharing it
+    const data = await callYelpApi<{ businesses?: YelpRestBusiness[] }>('businesses/search', {
+      term,
+      categories: category,
+      latitude: coords.latitude.toFixed(CACHE_COORDINATE_DECIMALS),
+      longitude: coords.longitude.toFixed(CACHE_COORDINATE_DECIMALS),
+      limit: String(pageSize),
+      sort_by: sortBy,
+      ...Object.fromEntries(Object.entries(filters).map(([key, value]) => [key, value === undefined ? undefined : String(value)]))
+    });
+    return data.businesses ?? [];
+  });
 }
 
 export async function getYelpBusinessDetails(id: string): Promise<YelpRestBusinessDetails> {
-  return callYelpApi<YelpRestBusinessDetails>(`businesses/${id}`);
+  return withYelpCache('business', { id }, () => callYelpApi<YelpRestBusinessDetails>(`businesses/${id}`));
 }
 
 export async function getYelpBusinessReviews(id: string): Promise<YelpRestReview[]> {
-  const data = await callYelpApi<{ reviews?: YelpRestReview[] }>(`businesses/${id}/reviews`);
-  return data.reviews ?? [];
+  return withYelpCache('reviews', { id }, async () => {
+    const data = await callYelpApi<{ reviews?: YelpRestReview[] }>(`businesses/${id}/reviews`);
+    return data.reviews ?? [];
+  });
 }
@@ -2,12 +2,14 @@
 // description: Data access helpers using Drizzle with Turso/libSQL backend
 // reference: drizzle/schema.ts, server/_core/env.ts
 
+import { messageTypeFor, parseMessageMetadata, readMessageMetadata } from '@shared/messageMetadata';
+import { applyNotificationPreferenceChanges, DEFAULT_NOTIFICATION_PREFERENCES, NOTIFICATION_TOPICS, type NotificationPreferenceChange, type NotificationPreferences } from '@shared/notifications';
 import { createClient } from '@libsql/client';
 import { type LibsqlError } from '@libsql/client';
-import { and, desc, eq, sql } from 'drizzle-orm';
+import { and, desc, eq, inArray, isNotNull, lt, sql } from 'drizzle-orm';
 import { drizzle } from 'drizzle-orm/libsql';
 import { nanoid } from 'nanoid';
-import { Booking, bookings, Conversation, conversations, favoriteProviders, InsertBooking, InsertConversation, InsertFavoriteProvider, InsertMessage, InsertPaymentMethod, InsertProvider, InsertReferral, InsertReview, InsertSearchHistory, InsertUser, Message, messages, PaymentMethod, paymentMethods, Provider, providers, referrals, Review, reviews, SearchHistory, searchHistory, users } from '../drizzle/schema';
+import { ApiCacheEntry, apiCache, Booking, BookingEvent, bookingEvents, bookings, Conversation, conversations, Dispute, DisputeEvidence, disputeEvidence, disputes, favoriteProviders, InsertApiCacheEntry, InsertBooking, InsertBookingEvent, InsertConversation, InsertDispute, InsertDisputeEvidence, InsertFavoriteProvider, InsertLedgerEntry, InsertMessage, InsertPaymentMethod, InsertProvider, InsertReferral, InsertReview, InsertSearchHistory, InsertUser, LedgerEntry, Message, messages, notificationPreferences, paymentLedger, PaymentMethod, paymentMethods, Provider, providers, referrals, Review, reviews, SearchHistory, searchHistory, users } from '../drizzle/schema';
 import { ENV } from './_core/env';
 
 let _db: ReturnType<typeof drizzle> | null = null;
@@ -167,6 +169,14 @@ export async function getConversationById(id: number) {
   return result[0];
 }
 
+/** The conversation when it belongs to `userId`. */
+export async function getConversationForUser(id: number, userId: number): Promise<Conversation | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(conversations).where(and(eq(conversations.id, id), eq(conversations.userId, userId))).limit(1);
+  return result[0];
+}
+
 export async function updateConversation(id: number, data: Partial<InsertConversation>) {
   const db = await getDb();
   if (!db) return;
@@ -174,20 +184,29 @@ export async function updateConversation(id: number, data: Partial<InsertConvers
 }
 
 // ============ MESSAGE FUNCTIONS ============
-export async function addMessage(data: InsertMessage): Promise<Message | undefined> {
+/** Stored metadata is validated again on the way out; a payload that no longer parses reads as a plain text message. */
+function readMessage(row: Message): Message {
+  const metadata = readMessageMetadata(row.metadata);
+  return { ...row, metadata, messageType: messageTypeFor(metadata) };
+}
+
+/** Stores a message. Its metadata is validated (throwing a `ZodError` when malformed) and sets `messageType`. */
+export async function addMessage(data: Omit<InsertMessage, 'messageType'>): Promise<Message | undefined> {
   const db = await getDb();
   if (!db) return undefined;
-  await db.insert(messages).values(data);
+  const metadata = data.metadata ? parseMessageMetadata(data.metadata) : null;
+  await db.insert(messages).values({ ...data, metadata, messageType: messageTypeFor(metadata) });
   const result = await db.select().from(messages).where(eq(messages.conversationId, data.conversationId)).orderBy(desc(messages.id)).limit(
     1
   );
-  return result[0];
+  return result[0] && readMessage(result[0]);
 }
 
 export async function getMessagesByConversation(conversationId: number) {
   const db = await getDb();
   if (!db) return [];
-  return db.select().from(messages).where(eq(messages.conversationId, conversationId)).orderBy(messages.createdAt);
+  const rows = await db.select().from(messages).where(eq(messages.conversationId, conversationId)).orderBy(messages.createdAt);
+  return rows.map(readMessage);
 }
 
 // ============ PROVIDER FUNCTIONS ============
@@ -210,9 +229,45 @@ export async function getProviderById(id: number) {
   return result[0];
 }
 
+export async function getProviderByYelpId(yelpId: string) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(providers).where(eq(providers.yelpId, yelpId)).limit(1);
+  return result[0];
+}
+
+export async function getProvidersByYelpIds(yelpIds: string[]): Promise<Provider[]> {
+  const db = await getDb();
+  if (!db || yelpIds.length === 0) return [];
+  return db.select().from(providers).where(inArray(providers.yelpId, yelpIds));
+}
+
+export async function getProviderByName(name: string) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(providers).where(eq(providers.name, name)).limit(1);
+  return result[0];
+}
+
+export async function updateProvider(id: number, data: Partial<InsertProvider>) {
+  const db = await getDb();
+  if (!db) return undefined;
+  await db.update(providers).set({ ...data, updatedAt: new Date() }).where(eq(providers.id, id));
+  return getProviderById(id);
+}
+
+/**
+ * Providers matching `query`, most relevant first (see searchProvidersFullText). Falls back to a substring match on
+ * name, category and specialties when the full-text index is unavailable.
+ */
 export async function searchProviders(query: string) {
   const db = await getDb();
   if (!db) return [];
+  try {
+    return (await searchProvidersFullText(query)).map(hit => hit.provider);
+  } catch (error) {
+    console.warn('[Database] Full-text provider search failed; using LIKE', error);
+  }
   try {
     return await db.select().from(providers).where(
       sql`${providers.name} LIKE ${`%${query}%`} OR ${providers.category} LIKE ${`%${query}%`} OR ${providers.specialties} LIKE ${`%${query}%`}`
@@ -223,6 +278,156 @@ export async function searchProviders(query: string) {
   }
 }
 
+export type ProviderBounds = { south: number, west: number, north: number, east: number };
+
+export type ProviderBoundsOptions = {
+  /** Full-text match, as in searchProvidersFullText. */
+  query?: string | undefined,
+  /** Orders by (approximate) distance from this point instead of by rating. */
+  nearest?: { lat: number, lng: number } | undefined,
+  limit?: number | undefined
+};
+
+/**
+ * Providers whose coordinates fall inside `bounds`, using the (latitude, longitude) index. `west > east` means the box
+ * crosses the antimeridian. Distance ordering uses an equirectangular approximation (SQLite has no trig functions),
+ * which keeps the nearest rows first; exact distances are left to the caller.
+ */
+export async function getProvidersInBounds(bounds: ProviderBounds, { query, nearest, limit = 50 }: ProviderBoundsOptions = {}) {
+  const db = await getDb();
+  if (!db) return [];
+  try {
+    const longitudeFilter = bounds.west <= bounds.east
+      ? sql`${providers.longitude} BETWEEN ${bounds.west} AND ${bounds.east}`
+      : sql`(${providers.longitude} >= ${bounds.west} OR ${providers.longitude} <= ${bounds.east})`;
+    const match = query ? toFtsQuery(query) : null;
+    const textFilter = match ? sql`${providers.id} IN (SELECT rowid FROM providers_fts WHERE providers_fts MATCH ${match})` : undefined;
+    let order = desc(providers.rating);
+    if (nearest) {
+      // A degree of longitude shrinks by cos(latitude)
+      const dLat = sql`(${providers.latitude} - ${nearest.lat})`;
+      const dLng = sql`((${providers.longitude} - ${nearest.lng}) * ${Math.cos((nearest.lat * Math.PI) / 180)})`;
+      order = sql`${dLat} * ${dLat} + ${dLng} * ${dLng}`;
+    }
+
+    return await db.select().from(providers).where(and(
+      sql`${providers.latitude} BETWEEN ${bounds.south} AND ${bounds.north}`,
+      longitudeFilter,
+      textFilter
+    )).orderBy(order).limit(limit);
+  } catch (error) {
+    console.error('[Database] getProvidersInBounds failed', error);
+    return [];
+  }
+}
+
+// ============ FULL-TEXT SEARCH FUNCTIONS ============
+/** Words beyond this are dropped from a search; long pastes would otherwise become very selective AND queries. */
+const MAX_FTS_TERMS = 12;
+/** Markers passed to FTS5 snippet(); control characters never appear in stored text. */
+const SNIPPET_START = '\u0002';
+const SNIPPET_END = '\u0003';
+const MAX_MATCHES_PER_CONVERSATION = 3;
+
+/**
+ * Turns free text into an FTS5 MATCH expression: every word must appear, and the last one also matches as a prefix so
+ * results keep up while typing. Quotes and FTS operators in the input are treated as plain text. Returns null when the
+ * text has nothing searchable.
+ */
+export function toFtsQuery(text: string): string | null {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu)?.slice(0, MAX_FTS_TERMS);
+  if (!words?.length) return null;
+  return words.map((word, index) => (index === words.length - 1 ? `"${word}"*` : `"${word}"`)).join(' ');
+}
+
+export type ProviderSearchHit = {
+  provider: Provider,
+  /** bm25 relevance, higher is better; only comparable within one search. */
+  rank: number
+};
+
+/**
+ * Providers whose name, category, description, specialties or services match `query`, most relevant first. A match in
+ * the name counts most, then category and specialties. Throws when the full-text index is unavailable.
+ */
+export async function searchProvidersFullText(query: string, { limit = 50, offset = 0 }: { limit?: number, offset?: number } = {}): Promise<ProviderSearchHit[]> {
+  const db = await getDb();
+  const match = toFtsQuery(query);
+  if (!db || !match) return [];
+
+  const ranked = await db.all<{ id: number, rank: number }>(sql`
+    SELECT rowid AS id, bm25(providers_fts, 10.0, 5.0, 1.0, 4.0, 2.0) AS rank FROM providers_fts
+    WHERE providers_fts MATCH ${match} ORDER BY rank LIMIT ${limit} OFFSET ${offset}
+  `);
+  if (ranked.length === 0) return [];
+
+  const rows = await db.select().from(providers).where(inArray(providers.id, ranked.map(hit => hit.id)));
+  const byId = new Map(rows.map(row => [row.id, row]));
+  return ranked.flatMap(hit => {
+    const provider = byId.get(hit.id);
+    return provider ? [{ provider, rank: -hit.rank }] : [];
+  });
+}
+
+/** A piece of a search snippet; `match` marks the text that matched the query. */
+export type SnippetSegment = { text: string, match: boolean };
+
+export type ConversationSearchResult = {
+  conversation: Conversation,
+  /** Relevance of the best matching message, higher is better. */
+  rank: number,
+  /** Best matching messages in the conversation, most relevant first. */
+  matches: Array<{ messageId: number, role: Message['role'], createdAt: Date, snippet: SnippetSegment[] }>
+};
+
+function snippetSegments(snippet: string): SnippetSegment[] {
+  return snippet.split(SNIPPET_END).flatMap(part => {
+    const [before = '', matched = ''] = part.split(SNIPPET_START);
+    return [...(before ? [{ text: before, match: false }] : []), ...(matched ? [{ text: matched, match: true }] : [])];
+  });
+}
+
+/**
+ * The user's conversations containing messages that match `query`, best match first, each with a few highlighted
+ * snippets.
+ */
+export async function searchConversations(userId: number, query: string, limit = 20): Promise<ConversationSearchResult[]> {
+  const db = await getDb();
+  const match = toFtsQuery(query);
+  if (!db || !match) return [];
+
+  const hits = await db.all<{ messageId: number, conversationId: number, rank: number, snippet: string }>(sql`
+    SELECT messages.id AS messageId, messages.conversationId AS conversationId, bm25(messages_fts) AS rank,
+      snippet(messages_fts, 0, ${SNIPPET_START}, ${SNIPPET_END}, '…', 16) AS snippet
+    FROM messages_fts
+    JOIN messages ON messages.id = messages_fts.rowid
+    JOIN conversations ON conversations.id = messages.conversationId
+    WHERE messages_fts MATCH ${match} AND conversations.userId = ${userId}
+    ORDER BY rank LIMIT ${limit * MAX_MATCHES_PER_CONVERSATION}
+  `);
+  if (hits.length === 0) return [];
+
+  const [conversationRows, messageRows] = await Promise.all([
+    db.select().from(conversations).where(inArray(conversations.id, [...new Set(hits.map(hit => hit.conversationId))])),
+    db.select().from(messages).where(inArray(messages.id, hits.map(hit => hit.messageId)))
+  ]);
+  const conversationsById = new Map(conversationRows.map(row => [row.id, row]));
+  const messagesById = new Map(messageRows.map(row => [row.id, row]));
+
+  const results = new Map<number, ConversationSearchResult>();
+  for (const hit of hits) {
+    const conversation = conversationsById.get(hit.conversationId);
+    const message = messagesById.get(hit.messageId);
+    if (!conversation || !message) continue;
+    const result = results.get(conversation.id) ?? { conversation, rank: -hit.rank, matches: [] };
+    if (result.matches.length < MAX_MATCHES_PER_CONVERSATION) {
+      result.matches.push({ messageId: message.id, role: message.role, createdAt: message.createdAt, snippet: snippetSegments(hit.snippet) });
+    }
+    results.set(conversation.id, result);
+  }
+  return [...results.values()].slice(0, limit);
+}
+
 // ============ SEARCH HISTORY FUNCTIONS ============
 export async function addSearchHistory(entry: InsertSearchHistory): Promise<SearchHistory | undefined> {
   const db = await getDb();
@@ -270,6 +475,85 @@ export async function getSearchHistoryByUser(userId: number): Promise<SearchHist
   return db.select().from(searchHistory).where(eq(searchHistory.userId, userId)).orderBy(desc(searchHistory.createdAt));
 }
 
+/** Searches for the same text differ only in case and surrounding spaces. */
+const searchHistoryKey = sql<string>`lower(trim(${searchHistory.query}))`;
+
+/** LIKE pattern for `prefix` at the start of the query, with LIKE wildcards in it taken literally. */
+function searchHistoryPrefixFilter(prefix: string | undefined) {
+  const normalized = prefix?.trim().toLowerCase();
+  return normalized ? sql`${searchHistoryKey} LIKE ${`${normalized.replace(/[\\%_]/g, '\\$&')}%`} ESCAPE '\\'` : undefined;
+}
+
+export type RecentSearch = { id: number, query: string, searchedAt: Date };
+
+/**
+ * The user's most recent distinct searches, newest first, optionally only those starting with `prefix`. Each entry
+ * carries the id and text of its latest row.
+ */
+export async function getRecentSearches(userId: number, { prefix, limit = 5 }: { prefix?: string | undefined, limit?: number } = {}): Promise<RecentSearch[]> {
+  const db = await getDb();
+  if (!db) return [];
+  const latestPerText = db.select({ id: sql<number>`max(${searchHistory.id})` }).from(searchHistory)
+    .where(and(eq(searchHistory.userId, userId), searchHistoryPrefixFilter(prefix)))
+    .groupBy(searchHistoryKey);
+  return db.select({ id: searchHistory.id, query: searchHistory.query, searchedAt: searchHistory.createdAt }).from(searchHistory)
+    .where(inArray(searchHistory.id, latestPerText))
+    .orderBy(desc(searchHistory.id))
+    .limit(limit);
+}
+
+export type PopularSearch = { query: string, searches: number, searchers: number };
+
+/**
+ * Signed-in users' searches made inside `area` since `since`, most searchers first. Only texts searched by at least
+ * `minSearchers` different users are returned, so one person's searches never show up for anyone else. Anonymous
+ * searches are left out: nothing tells whether two of them came from the same person.
+ */
+export async function getPopularSearches(
+  area: { south: number, west: number, north: number, east: number },
+  { since, prefix, minSearchers, limit = 5 }: { since: Date, prefix?: string | undefined, minSearchers: number, limit?: number }
+): Promise<PopularSearch[]> {
+  const db = await getDb();
+  if (!db) return [];
+  const searchers = sql<number>`count(DISTINCT ${searchHistory.userId})`;
+  return db.select({ query: searchHistoryKey, searches: sql<number>`count(*)`, searchers }).from(searchHistory)
+    .where(and(
+      isNotNull(searchHistory.userId),
+      sql`CAST(${searchHistory.latitude} AS REAL) >= ${area.south} AND CAST(${searchHistory.latitude} AS REAL) < ${area.north}`,
+      sql`CAST(${searchHistory.longitude} AS REAL) >= ${area.west} AND CAST(${searchHistory.longitude} AS REAL) < ${area.east}`,
+      sql`${searchHistory.createdAt} >= ${Math.floor(since.getTime() / 1000)}`,
+      searchHistoryPrefixFilter(prefix)
+    ))
+    .groupBy(searchHistoryKey)
+    .having(sql`${searchers} >= ${minSearchers}`)
+    .orderBy(desc(searchers), desc(sql`count(*)`), desc(sql`max(${searchHistory.id})`))
+    .limit(limit);
+}
+
+/** Deletes all of the user's search history; returns the number of rows removed. */
+export async function clearSearchHistory(userId: number): Promise<number> {
+  const db = await getDb();
+  if (!db) return 0;
+  const result = await db.delete(searchHistory).where(eq(searchHistory.userId, userId));
+  return result.rowsAffected;
+}
+
+/**
+ * Deletes one of the user's recent searches: every row with the same text as entry `id`, so it does not come back from
+ * an older duplicate. Returns the number of rows removed (0 when the entry is not the user's).
+ */
+export async function deleteSearchHistoryEntry(userId: number, id: number): Promise<number> {
+  const db = await getDb();
+  if (!db) return 0;
+  const [entry] = await db.select().from(searchHistory).where(and(eq(searchHistory.id, id), eq(searchHistory.userId, userId))).limit(1);
+  if (!entry) return 0;
+  const result = await db.delete(searchHistory).where(and(
+    eq(searchHistory.userId, userId),
+    sql`${searchHistoryKey} = lower(trim(${entry.query}))`
+  ));
+  return result.rowsAffected;
+}
+
 export async function createProvider(data: InsertProvider) {
   const db = await getDb();
   if (!db) return undefined;
@@ -294,6 +578,12 @@ export async function getBookingsByUser(userId: number) {
   return db.select().from(bookings).where(eq(bookings.userId, userId)).orderBy(desc(bookings.createdAt));
 }
 
+export async function getBookingsByProvider(providerId: number, statuses: readonly Booking['status'][]): Promise<Booking[]> {
+  const db = await getDb();
+  if (!db || statuses.length === 0) return [];
+  return db.select().from(bookings).where(and(eq(bookings.providerId, providerId), inArray(bookings.status, [...statuses])));
+}
+
 export async function getBookingById(id: number) {
   const db = await getDb();
   if (!db) return undefined;
@@ -301,12 +591,50 @@ export async function getBookingById(id: number) {
   return result[0];
 }
 
+/** The booking when it belongs to `userId`. */
+export async function getBookingForUser(id: number, userId: number): Promise<Booking | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(bookings).where(and(eq(bookings.id, id), eq(bookings.userId, userId))).limit(1);
+  return result[0];
+}
+
 export async function updateBooking(id: number, data: Partial<InsertBooking>) {
   const db = await getDb();
   if (!db) return;
   await db.update(bookings).set({ ...data, updatedAt: new Date() }).where(eq(bookings.id, id));
 }
 
+/**
+ * Compare-and-set status update: only applies when the booking is still in `fromStatus`.
+ * Returns false when another writer moved the booking first.
+ */
+export async function updateBookingStatus(
+  id: number,
+  fromStatus: Booking['status'],
+  data: Partial<InsertBooking> & { status: Booking['status'] }
+): Promise<boolean> {
+  const db = await getDb();
+  if (!db) return false;
+  const updated = await db.update(bookings).set({ ...data, updatedAt: new Date() }).where(
+    and(eq(bookings.id, id), eq(bookings.status, fromStatus))
+  ).returning({ id: bookings.id });
+  return updated.length > 0;
+}
+
+// ============ BOOKING EVENT FUNCTIONS ============
+export async function addBookingEvent(data: InsertBookingEvent): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+  await db.insert(bookingEvents).values(data);
+}
+
+export async function getBookingEventsByBooking(bookingId: number): Promise<BookingEvent[]> {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(bookingEvents).where(eq(bookingEvents.bookingId, bookingId)).orderBy(bookingEvents.createdAt, bookingEvents.id);
+}
+
 // ============ REVIEW FUNCTIONS ============
 export async function createReview(data: InsertReview) {
   const db = await getDb();
@@ -321,6 +649,19 @@ export async function createReview(data: InsertReview) {
   return data;
 }
 
+export async function getReviewForBooking(bookingId: number, userId: number): Promise<Review | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(reviews).where(and(eq(reviews.bookingId, bookingId), eq(reviews.userId, userId))).limit(1);
+  return result[0];
+}
+
+export async function setReviewTip(bookingId: number, userId: number, tipAmount: number) {
+  const db = await getDb();
+  if (!db) return;
+  await db.update(reviews).set({ tipAmount }).where(and(eq(reviews.bookingId, bookingId), eq(reviews.userId, userId)));
+}
+
 export async function getReviewsByProvider(providerId: number) {
   const db = await getDb();
   if (!db) return [];
@@ -353,6 +694,95 @@ export async function deletePaymentMethod(id: number, userId: number) {
   await db.delete(paymentMethods).where(and(eq(paymentMethods.id, id), eq(paymentMethods.userId, userId)));
 }
 
+export async function getPaymentMethodById(id: number): Promise<PaymentMethod | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(paymentMethods).where(eq(paymentMethods.id, id)).limit(1);
+  return result[0];
+}
+
+// ============ PAYMENT LEDGER FUNCTIONS ============
+export async function addLedgerEntry(data: InsertLedgerEntry): Promise<LedgerEntry | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+  const [entry] = await db.insert(paymentLedger).values(data).returning();
+  return entry;
+}
+
+export async function getLedgerEntriesByBooking(bookingId: number): Promise<LedgerEntry[]> {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(paymentLedger).where(eq(paymentLedger.bookingId, bookingId)).orderBy(paymentLedger.createdAt, paymentLedger.id);
+}
+
+// ============ DISPUTE FUNCTIONS ============
+export async function createDispute(data: InsertDispute): Promise<Dispute | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+  const [dispute] = await db.insert(disputes).values(data).returning();
+  return dispute;
+}
+
+export async function getDisputeById(id: number): Promise<Dispute | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(disputes).where(eq(disputes.id, id)).limit(1);
+  return result[0];
+}
+
+/** The dispute when it was opened by `userId`. */
+export async function getDisputeForUser(id: number, userId: number): Promise<Dispute | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(disputes).where(and(eq(disputes.id, id), eq(disputes.userId, userId))).limit(1);
+  return result[0];
+}
+
+export async function getDisputesByBooking(bookingId: number): Promise<Dispute[]> {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(disputes).where(eq(disputes.bookingId, bookingId)).orderBy(desc(disputes.createdAt));
+}
+
+/**
+ * Disputes filed by `userId`, or every dispute when `userId` is null (ops view), optionally narrowed by status.
+ */
+export async function listDisputes(userId: number | null, status?: Dispute['status']): Promise<Dispute[]> {
+  const db = await getDb();
+  if (!db) return [];
+  const filters = [userId === null ? undefined : eq(disputes.userId, userId), status ? eq(disputes.status, status) : undefined];
+  return db.select().from(disputes).where(and(...filters)).orderBy(desc(disputes.createdAt), desc(disputes.id));
+}
+
+/**
+ * Compare-and-set status update, mirroring `updateBookingStatus`.
+ */
+export async function updateDisputeStatus(
+  id: number,
+  fromStatus: Dispute['status'],
+  data: Partial<InsertDispute> & { status: Dispute['status'] }
+): Promise<Dispute | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+  const [updated] = await db.update(disputes).set({ ...data, updatedAt: new Date() }).where(
+    and(eq(disputes.id, id), eq(disputes.status, fromStatus))
+  ).returning();
+  return updated;
+}
+
+export async function addDisputeEvidence(data: InsertDisputeEvidence): Promise<DisputeEvidence | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+  const [evidence] = await db.insert(disputeEvidence).values(data).returning();
+  return evidence;
+}
+
+export async function getDisputeEvidence(disputeId: number): Promise<DisputeEvidence[]> {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(disputeEvidence).where(eq(disputeEvidence.disputeId, disputeId)).orderBy(disputeEvidence.createdAt, disputeEvidence.id);
+}
+
 // ============ FAVORITE PROVIDERS FUNCTIONS ============
 export async function addFavoriteProvider(userId: number, providerId: number) {
   const db = await getDb();
@@ -394,3 +824,80 @@ export async function getReferralsByUser(userId: number) {
   if (!db) return [];
   return db.select().from(referrals).where(eq(referrals.referrerId, userId));
 }
+
+// ============ NOTIFICATION PREFERENCE FUNCTIONS ============
+/** The user's notification preferences; topics they never changed use the defaults. */
+export async function getNotificationPreferences(userId: number): Promise<NotificationPreferences> {
+  const db = await getDb();
+  if (!db) return DEFAULT_NOTIFICATION_PREFERENCES;
+  const rows = await db.select().from(notificationPreferences).where(eq(notificationPreferences.userId, userId));
+  return rows.reduce<NotificationPreferences>(
+    (preferences, row) => ({ ...preferences, [row.topic]: { email: row.email, push: row.push, sms: row.sms } }),
+    DEFAULT_NOTIFICATION_PREFERENCES
+  );
+}
+
+/**
+ * Applies `changes` to the user's notification preferences and stores the result in one upsert. Returns the
+ * preferences as stored, or null when there is no database to store them in.
+ */
+export async function updateNotificationPreferences(userId: number, changes: readonly NotificationPreferenceChange[]): Promise<NotificationPreferences | null> {
+  const db = await getDb();
+  if (!db) return null;
+  const next = applyNotificationPreferenceChanges(await getNotificationPreferences(userId), changes);
+  const updatedAt = new Date();
+  await db.insert(notificationPreferences)
+    .values(NOTIFICATION_TOPICS.map(topic => ({ userId, topic, ...next[topic], updatedAt })))
+    .onConflictDoUpdate({
+      target: [notificationPreferences.userId, notificationPreferences.topic],
+      set: { email: sql`excluded.email`, push: sql`excluded.push`, sms: sql`excluded.sms`, updatedAt }
+    });
+  return next;
+}
+
+// ============ API CACHE FUNCTIONS ============
+export async function getApiCacheEntry(key: string): Promise<ApiCacheEntry | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+  const [entry] = await db.select().from(apiCache).where(eq(apiCache.key, key)).limit(1);
+  return entry;
+}
+
+export async function upsertApiCacheEntry(data: InsertApiCacheEntry): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+  const { key: _key, createdAt: _createdAt, ...update } = data;
+  await db.insert(apiCache).values(data).onConflictDoUpdate({ target: apiCache.key, set: { ...update, updatedAt: new Date() } });
+}
+
+/**
+ * Deletes cache entries by exact keys, by endpoint, or (with no filter) everything. Returns the number removed.
+ */
+export async function deleteApiCacheEntries(filter: { keys?: string[] | undefined, endpoint?: string | undefined } = {}): Promise<number> {
+  const db = await getDb();
+  if (!db) return 0;
+  if (filter.keys && filter.keys.length === 0) return 0;
+  const conditions = [
+    filter.keys ? inArray(apiCache.key, filter.keys) : undefined,
+    filter.endpoint ? eq(apiCache.endpoint, filter.endpoint) : undefined
+  ];
+  const deleted = await db.delete(apiCache).where(and(...conditions)).returning({ key: apiCache.key });
+  return deleted.length;
+}
+
+export async function deleteExpiredApiCacheEntries(now = new Date()): Promise<number> {
+  const db = await getDb();
+  if (!db) return 0;
+  const deleted = await db.delete(apiCache).where(lt(apiCache.staleUntil, now)).returning({ key: apiCache.key });
+  return deleted.length;
+}
+
+export async function getApiCacheStats(now = new Date()) {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select({
+    endpoint: apiCache.endpoint,
+    entries: sql<number>`count(*)`,
+    fresh: sql<number>`sum(case when ${apiCache.freshUntil} > ${Math.floor(now.getTime() / 1000)} then 1 else 0 end)`
+  }).from(apiCache).groupBy(apiCache.endpoint);
+}
@@ -1,8 +1,8 @@
 import { Agent } from "@mastra/core/agent";
-import { openai } from "@ai-sdk/openai";
-import { dispatchAgentTool } from "@/mastra/tools/dispatchAgentTool";
-import { yelpSearchTool } from "@/mastra/tools/yelpSearchTool";
-import { wrapAgent, type TraceWrapperMetadata, type TracedResult, type AgentExecutionResult } from "@/lib/opik/traceWrapper";
+import { getAgentModel, getAgentModelId } from "../model";
+import { dispatchAgentTool } from "../tools/dispatchAgentTool";
+import { yelpSearchTool } from "../tools/yelpSearchTool";
+import { wrapAgent, type TraceWrapperMetadata, type TracedResult, type AgentExecutionResult } from "../../_core/opik/traceWrapper";
 
 /**
  * DispatchAgent - Provider selection and dispatch agent.
@@ -74,7 +74,7 @@ Example responses:
 
 - Dispatched: "Jake Williams has been dispatched and is on his way! ETA: 12 minutes.
   [DISPATCH_STATE: dispatched]"`,
-  model: openai("gpt-4o"),
+  model: getAgentModel,
   tools: {
     dispatchAgentTool,
     yelpSearchTool,
@@ -117,7 +117,7 @@ export interface DispatchAgentOutput extends AgentExecutionResult {
     prompt: number;
     completion: number;
     total: number;
-  };
+  } | undefined;
   selectedProvider?: {
     id: string;
     name: string;
@@ -129,7 +129,7 @@ export interface DispatchAgentOutput extends AgentExecutionResult {
     costEstimate: number;
   };
   /** Parsed dispatch state for UI flow control */
-  dispatchState?: DispatchState;
+  dispatchState?: DispatchState | undefined;
   /** Response text without the state marker */
   cleanResponse?: string;
 }
@@ -145,7 +145,7 @@ export function parseDispatchState(responseText: string): {
   const stateRegex = /\[DISPATCH_STATE:\s*(searching|recommending|multiple_options|dispatched|no_providers)\]/i;
   const match = responseText.match(stateRegex);
 
-  if (match) {
+  if (match?.[1]) {
     return {
       state: {
         state: match[1].toLowerCase() as DispatchStateType,
@@ -203,7 +203,7 @@ export function createTracedDispatchAgent(
 
     return {
       output: response.text,
-      model: "gpt-4o",
+      model: getAgentModelId(),
       tokens,
       dispatchState: dispatchState ?? undefined,
       cleanResponse: cleanText,
@@ -1,5 +1,8 @@
 import { Agent } from "@mastra/core/agent";
-import { openai } from "@ai-sdk/openai";
+import { getAgentModel } from "../model";
+import { categorizeIssueTool } from "../tools/categorizeIssueTool";
+import { getPaymentMethodsTool } from "../tools/getPaymentMethodsTool";
+import { getUserBookingsTool } from "../tools/getUserBookingsTool";
 
 /**
  * HelpAgent - Emergency intake and intent extraction agent.
@@ -14,6 +17,10 @@ import { openai } from "@ai-sdk/openai";
  * - S08: AI Clarification Prompt - asking for missing details
  * - S07: AI Search Radar - ready to search (triggers provider search)
  *
+ * It also answers account support questions (S30 Help & Support) from the
+ * signed-in user's real bookings and payment methods; those tools read the
+ * user from the runtime context (see tools/accountContext.ts).
+ *
  * Requirements: 1.1, 1.2, 1.3
  */
 export const helpAgent = new Agent({
@@ -25,6 +32,19 @@ Your primary responsibilities:
 2. Extract key information: issue type, location, and urgency level
 3. Ask clarifying questions when information is missing or unclear
 4. Summarize the user's problem and propose next steps
+5. Answer support questions about the user's bookings, payments, cancellations and refunds
+
+Tools:
+- categorizeIssueTool: classify a described problem into a service category and urgency
+- getUserBookingsTool: the signed-in user's recent bookings (status, provider, dates, costs)
+- getPaymentMethodsTool: the signed-in user's saved cards
+
+Support guidelines:
+- Before answering a question about a booking, charge, cancellation or refund, look up the user's bookings; refer to bookings by service, provider and date rather than guessing
+- Before answering a payment question, look up the user's saved cards and mention the default by brand and last four digits only
+- If the tools report the user is not signed in, ask them to sign in to see account details
+- Refunds and disputes are requested from the booking in History via "Problem Resolution"; cancellations via "Cancel" on the booking; cards are managed in Profile → Payment Methods
+- Never invent bookings, amounts or cards that the tools did not return
 
 IMPORTANT: For EVERY response, you MUST include a STATE marker at the very end of your message in this exact format:
 [STATE: needs_clarification|ready_to_search, missing: issue|location|urgency|none]
@@ -62,8 +82,12 @@ Example interactions:
 - User: "Need help"
   Response: "I'd be happy to help! What kind of service are you looking for today?
   [STATE: needs_clarification, missing: issue]"`,
-  model: openai("gpt-4o"),
-  tools: {},
+  model: getAgentModel,
+  tools: {
+    categorizeIssueTool,
+    getUserBookingsTool,
+    getPaymentMethodsTool,
+  },
 });
 
 /**
@@ -111,7 +135,7 @@ export function parseAgentState(responseText: string): {
   const stateRegex = /\[STATE:\s*(needs_clarification|ready_to_search),\s*missing:\s*(issue|location|urgency|none)\]/i;
   const match = responseText.match(stateRegex);
 
-  if (match) {
+  if (match?.[1] && match[2]) {
     return {
       state: {
         state: match[1].toLowerCase() as AgentStateType,
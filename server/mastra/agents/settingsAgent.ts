@@ -1,12 +1,13 @@
 import { Agent } from "@mastra/core/agent";
-import { openai } from "@ai-sdk/openai";
+import { getAgentModel } from "../model";
 import { updateSettingsTool } from "../tools/updateSettingsTool";
 
 /**
  * SettingsAgent - Handles user preference updates.
  *
- * This agent interprets natural language requests to change app settings
- * and applies them using the updateSettingsTool.
+ * This agent interprets natural language requests to change notification
+ * preferences and applies them using the updateSettingsTool, which writes
+ * the signed-in user's stored preferences and returns the resulting state.
  *
  * Requirements: Screen 29 (Notification Settings)
  */
@@ -16,19 +17,22 @@ export const settingsAgent = new Agent({
   
 Your goal is to help users manage their notification preferences.
 
-You can update:
-- Email notifications (emailEnabled)
-- Push notifications (pushEnabled)
-- SMS/Text messages (smsEnabled)
-- Promotional offers (promotions)
+Notifications are grouped by topic, and each topic can be delivered on any of three channels:
+- Topics: bookingUpdates (booking status changes), providerMessages (messages from providers), promotions (deals and offers), reminders (upcoming bookings)
+- Channels: email, push, sms
+
+Use updateSettingsTool for every change. Each change has an optional topic, an optional channel and enabled:
+- "Stop emailing me" → { channel: "email", enabled: false } (every topic)
+- "Turn off promotions" → { topic: "promotions", enabled: false } (every channel)
+- "Text me booking updates" → { topic: "bookingUpdates", channel: "sms", enabled: true }
+- "What am I subscribed to?" → an empty changes list, which only reads the settings
 
 Guidelines:
-- If a user says "Stop emailing me", set emailEnabled to false.
-- If a user says "I want text alerts", set smsEnabled to true.
-- Confirm changes after applying them.
+- Only describe settings as changed after the tool returns saved: true, and confirm them from the tool's summary, not from the request.
+- If the tool reports signedIn: false, ask the user to sign in; if it reports saved: false for a change, say the settings could not be saved.
 - If the request is ambiguous, ask for clarification.
 - Be concise and helpful.`,
-  model: openai("gpt-4o"),
+  model: getAgentModel,
   tools: {
     updateSettingsTool,
   },
@@ -0,0 +1,21 @@
+// file: server/mastra/constants.ts
+// description: Shared numeric/config constants for Mastra tools and mock data
+// reference: server/mastra/tools/yelpSearchTool.ts, server/mastra/data/mockProviders.ts
+
+// Yelp Fusion search
+export const YELP_FUSION_API_URL = "https://api.yelp.com/v3/businesses/search";
+export const YELP_MIN_RATING = 4.0;
+export const YELP_MIN_REVIEW_COUNT = 10;
+
+// Retry policy
+export const DEFAULT_RETRY_ATTEMPTS = 3;
+export const DEFAULT_RETRY_DELAY_MS = 500;
+export const BACKOFF_MULTIPLIER = 2;
+
+export const HTTP_STATUS = {
+  RATE_LIMITED: 429,
+  INTERNAL_ERROR: 500,
+} as const;
+
+// Geo
+export const MILES_PER_DEGREE_LATITUDE = 69;
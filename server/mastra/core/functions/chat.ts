@@ -3,11 +3,11 @@
 // reference: src/mastra/agents/helpAgent.ts, src/mastra/memory/conversation_memory.ts
 
 import * as z from "zod/v4";
-import { helpAgent } from "@/mastra/agents/helpAgent";
-import { conversation_memory } from "@/mastra/memory/conversation_memory";
-import { user_context_memory } from "@/mastra/memory/user_context_memory";
-import { logger } from "@/lib/logger";
-import type { IConversationMemory, IUserContextMemory } from "@/mastra/core/interfaces/memory";
+import { helpAgent } from "../../agents/helpAgent";
+import { conversation_memory } from "../../memory/conversation_memory";
+import { user_context_memory } from "../../memory/user_context_memory";
+import { logger } from "../../../_core/logger";
+import type { IConversationMemory, IUserContextMemory } from "../interfaces/memory";
 
 // =============================================================================
 // SCHEMAS
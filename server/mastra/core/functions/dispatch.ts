@@ -3,10 +3,10 @@
 // reference: src/mastra/tools/dispatchAgentTool.ts, src/lib/db/store.ts
 
 import * as z from "zod/v4";
-import { createDispatch } from "@/mastra/tools/dispatchAgentTool";
-import { store } from "@/store";
-import { DispatchResultSchema } from "@/mastra/schemas";
-import { logger } from "@/lib/logger";
+import { createDispatch } from "../../tools/dispatchAgentTool";
+import { store } from "../../store";
+import { DispatchResultSchema } from "../../schemas";
+import { logger } from "../../../_core/logger";
 
 // =============================================================================
 // SCHEMAS
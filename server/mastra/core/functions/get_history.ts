@@ -3,12 +3,12 @@
 // reference: src/lib/db/store.ts, src/mastra/memory/user_context_memory.ts
 
 import * as z from "zod/v4";
-import { store } from "@/store";
-import { user_context_memory } from "@/mastra/memory/user_context_memory";
-import { conversation_memory } from "@/mastra/memory/conversation_memory";
-import { UserRequestSchema, DispatchResultSchema } from "@/mastra/schemas";
-import { logger } from "@/lib/logger";
-import type { IConversationMemory, IUserContextMemory } from "@/mastra/core/interfaces/memory";
+import { store } from "../../store";
+import { user_context_memory } from "../../memory/user_context_memory";
+import { conversation_memory } from "../../memory/conversation_memory";
+import { UserRequestSchema, DispatchResultSchema } from "../../schemas";
+import { logger } from "../../../_core/logger";
+import type { IConversationMemory, IUserContextMemory } from "../interfaces/memory";
 
 // =============================================================================
 // SCHEMAS
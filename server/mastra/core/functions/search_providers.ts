@@ -3,10 +3,10 @@
 // reference: src/mastra/tools/yelpSearchTool.ts, src/mastra/tools/categorizeIssueTool.ts
 
 import * as z from "zod/v4";
-import { searchYelp } from "@/mastra/tools/yelpSearchTool";
-import { categorizeIssue } from "@/mastra/tools/categorizeIssueTool";
-import { ServiceAgentSchema, LocationSchema } from "@/mastra/schemas";
-import { logger } from "@/lib/logger";
+import { searchYelp } from "../../tools/yelpSearchTool";
+import { categorizeIssue } from "../../tools/categorizeIssueTool";
+import { ServiceAgentSchema, LocationSchema } from "../../schemas";
+import { logger } from "../../../_core/logger";
 
 // =============================================================================
 // SCHEMAS
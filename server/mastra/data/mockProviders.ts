@@ -1,5 +1,5 @@
-import type { ServiceAgent } from "@/mastra/schemas";
-import { MILES_PER_DEGREE_LATITUDE } from "@/lib/constants";
+import type { ServiceAgent } from "../schemas";
+import { MILES_PER_DEGREE_LATITUDE } from "../constants";
 
 /**
  * Zip Code 43228 Configuration (Columbus, Ohio - West Side)
@@ -296,7 +296,7 @@ export function getMockProviders(category: string): ServiceAgent[] {
   // logger isn't imported here, use console
   console.log(`[MockProviders] Getting providers for: "${category}"`);
   
-  if (!category) return mockProviders.handyman;
+  if (!category) return mockProviders.handyman ?? [];
   
   const normalized = category.toLowerCase();
   // Direct match
@@ -315,7 +315,7 @@ export function getMockProviders(category: string): ServiceAgent[] {
   }
   
   console.log(`[MockProviders] No match, returning handyman`);
-  return mockProviders.handyman;
+  return mockProviders.handyman ?? [];
 }
 
 /**
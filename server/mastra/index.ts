@@ -14,21 +14,21 @@ import {
   search_providers,
   dispatch,
   get_history,
-} from "@/mastra/core/functions";
+} from "./core/functions";
 
 // =============================================================================
 // INTERNAL IMPORTS (Private - used by facade)
 // =============================================================================
 
 // Agents
-import { helpAgent } from "@/mastra/agents/helpAgent";
-import { dispatchAgent } from "@/mastra/agents/dispatchAgent";
+import { helpAgent } from "./agents/helpAgent";
+import { dispatchAgent } from "./agents/dispatchAgent";
 
 // Workflows
-import { emergencyWorkflow } from "@/mastra/workflows/emergencyWorkflow";
+import { emergencyWorkflow } from "./workflows/emergencyWorkflow";
 
 // Memory
-import { conversation_memory, user_context_memory } from "@/mastra/memory";
+import { conversation_memory, user_context_memory } from "./memory";
 
 // =============================================================================
 // MASTRA INSTANCE
@@ -201,7 +201,7 @@ export type {
   GetHistoryDependencies,
   RequestWithDispatch,
   ConversationSummary,
-} from "@/mastra/core/functions";
+} from "./core/functions";
 
 // Memory interface types
 export type {
@@ -211,7 +211,7 @@ export type {
   UserContext,
   IConversationMemory,
   IUserContextMemory,
-} from "@/mastra/core/interfaces";
+} from "./core/interfaces";
 
 // Schema types
 export type {
@@ -222,7 +222,7 @@ export type {
   ServiceAgent,
   DispatchResult,
   Payment,
-} from "@/mastra/schemas";
+} from "./schemas";
 
 // =============================================================================
 // SCHEMA EXPORTS
@@ -237,29 +237,29 @@ export {
   DispatchOutputSchema,
   GetHistoryInputSchema,
   GetHistoryOutputSchema,
-} from "@/mastra/core/functions";
+} from "./core/functions";
 
 export {
   MessageSchema,
   MessageInputSchema,
   UserPreferenceSchema,
   UserContextSchema,
-} from "@/mastra/core/interfaces";
+} from "./core/interfaces";
 
 // =============================================================================
 // BACKWARD COMPATIBILITY EXPORTS
 // =============================================================================
 
 // Re-export agents for existing code that imports directly
-export { helpAgent } from "@/mastra/agents/helpAgent";
-export { dispatchAgent } from "@/mastra/agents/dispatchAgent";
+export { helpAgent } from "./agents/helpAgent";
+export { dispatchAgent } from "./agents/dispatchAgent";
 
 // Re-export workflow for existing code
-export { emergencyWorkflow } from "@/mastra/workflows/emergencyWorkflow";
+export { emergencyWorkflow } from "./workflows/emergencyWorkflow";
 
 // Re-export tools for existing code
-export { categorizeIssueTool } from "@/mastra/tools/categorizeIssueTool";
-export { yelpSearchTool } from "@/mastra/tools/yelpSearchTool";
-export { dispatchAgentTool } from "@/mastra/tools/dispatchAgentTool";
-export { processPaymentTool } from "@/mastra/tools/processPaymentTool";
-export { getHistoryTool } from "@/mastra/tools/getHistoryTool";
+export { categorizeIssueTool } from "./tools/categorizeIssueTool";
+export { yelpSearchTool } from "./tools/yelpSearchTool";
+export { dispatchAgentTool } from "./tools/dispatchAgentTool";
+export { processPaymentTool } from "./tools/processPaymentTool";
+export { getHistoryTool } from "./tools/getHistoryTool";
@@ -1,41 +1,31 @@
 // file: src/mastra/memory/conversation_memory.ts
 // description: Turso-backed implementation of conversation memory for session-based chat history
-// reference: src/mastra/core/interfaces/memory.ts, src/lib/turso.ts
+// reference: src/mastra/core/interfaces/memory.ts, server/mastra/store/index.ts
 
-import { v4 as uuidv4 } from "uuid";
-import { execute } from "@/lib/turso";
-import { SQL } from "@/lib/db/schema";
-import { logger } from "@/lib/logger";
+import type { AgentMessage } from "../../../drizzle/schema";
+import { logger } from "../../_core/logger";
+import { store } from "../store";
 import type {
   IConversationMemory,
   Message,
   MessageInput,
-} from "@/mastra/core/interfaces/memory";
+} from "../core/interfaces/memory";
 
 // =============================================================================
-// ROW TYPE
+// ROW MAPPING
 // =============================================================================
 
-interface MessageRow {
-  id: string;
-  session_id: string;
-  user_id: string;
-  role: string;
-  content: string;
-  created_at: number;
-}
-
 /**
  * Convert database row to Message type
  */
-function row_to_message(row: MessageRow): Message {
+function row_to_message(row: AgentMessage): Message {
   return {
     id: row.id,
-    session_id: row.session_id,
-    user_id: row.user_id,
-    role: row.role as "user" | "assistant" | "system",
+    session_id: row.sessionId,
+    user_id: row.userId,
+    role: row.role,
     content: row.content,
-    created_at: row.created_at,
+    created_at: Math.floor(row.createdAt.getTime() / 1000),
   };
 }
 
@@ -71,23 +61,12 @@ export class TursoConversationMemory implements IConversationMemory {
    * Add a message to the conversation
    */
   async add_message(input: MessageInput): Promise<Message> {
-    const id = uuidv4();
-
-    await execute(SQL.INSERT_MESSAGE, {
-      id,
-      session_id: input.session_id,
-      user_id: input.user_id,
+    const row = await store.addAgentMessage({
+      sessionId: input.session_id,
+      userId: input.user_id,
       role: input.role,
       content: input.content,
     });
-
-    // Fetch the created message to get the timestamp
-    const result = await execute(
-      "SELECT * FROM messages WHERE id = :id",
-      { id }
-    );
-
-    const row = result.rows[0] as unknown as MessageRow;
     const message = row_to_message(row);
 
     logger.store.debug("Message added", {
@@ -104,22 +83,9 @@ export class TursoConversationMemory implements IConversationMemory {
    * @param limit - Maximum number of messages to return (most recent)
    */
   async get_messages(session_id: string, limit?: number): Promise<Message[]> {
-    let result;
-
-    if (limit) {
-      // Get most recent messages (descending), then reverse to chronological order
-      result = await execute(SQL.GET_MESSAGES_BY_SESSION_LIMIT, {
-        session_id,
-        limit,
-      });
-      const rows = result.rows as unknown as MessageRow[];
-      return rows.map(row_to_message).reverse();
-    } else {
-      // Get all messages in chronological order
-      result = await execute(SQL.GET_MESSAGES_BY_SESSION, { session_id });
-      const rows = result.rows as unknown as MessageRow[];
-      return rows.map(row_to_message);
-    }
+    // Store returns chronological order, keeping only the most recent `limit` when set
+    const rows = await store.getAgentMessages(session_id, limit);
+    return rows.map(row_to_message);
   }
 
   /**
@@ -142,7 +108,7 @@ export class TursoConversationMemory implements IConversationMemory {
    * Clear all messages for a session
    */
   async clear_session(session_id: string): Promise<void> {
-    await execute(SQL.DELETE_MESSAGES_BY_SESSION, { session_id });
+    await store.deleteAgentMessages(session_id);
 
     logger.store.debug("Session cleared", { session_id });
   }
@@ -155,22 +121,13 @@ export class TursoConversationMemory implements IConversationMemory {
     const count_to_keep = keep_count ?? this.default_keep_count;
 
     // Get count before pruning
-    const before_result = await execute(SQL.COUNT_MESSAGES_BY_SESSION, {
-      session_id,
-    });
-    const before_count = (before_result.rows[0] as unknown as { count: number }).count;
+    const before_count = await store.countAgentMessages(session_id);
 
     // Prune
-    await execute(SQL.PRUNE_MESSAGES, {
-      session_id,
-      keep_count: count_to_keep,
-    });
+    await store.pruneAgentMessages(session_id, count_to_keep);
 
     // Get count after pruning
-    const after_result = await execute(SQL.COUNT_MESSAGES_BY_SESSION, {
-      session_id,
-    });
-    const after_count = (after_result.rows[0] as unknown as { count: number }).count;
+    const after_count = await store.countAgentMessages(session_id);
 
     const deleted = before_count - after_count;
 
@@ -1,12 +1,10 @@
 // file: src/mastra/memory/user_context_memory.ts
 // description: Turso-backed implementation of user context memory for long-term preferences and history
-// reference: src/mastra/core/interfaces/memory.ts, src/lib/db/store.ts
+// reference: src/mastra/core/interfaces/memory.ts, server/mastra/store/index.ts
 
-import { execute } from "@/lib/turso";
-import { SQL } from "@/lib/db/schema";
-import { store } from "@/store";
-import { logger } from "@/lib/logger";
-import type { IUserContextMemory, UserContext } from "@/mastra/core/interfaces/memory";
+import { store } from "../store";
+import { logger } from "../../_core/logger";
+import type { IUserContextMemory, UserContext } from "../core/interfaces/memory";
 
 // =============================================================================
 // CONSTANTS
@@ -44,14 +42,7 @@ export class TursoUserContextMemory implements IUserContextMemory {
    * Set a user preference
    */
   async set_preference(user_id: string, key: string, value: string): Promise<void> {
-    // Ensure user exists first
-    await store.ensureUser(user_id);
-
-    await execute(SQL.UPSERT_PREFERENCE, {
-      user_id,
-      key,
-      value,
-    });
+    await store.setPreference(user_id, key, value);
 
     logger.store.debug("Preference set", { user_id, key });
   }
@@ -60,27 +51,14 @@ export class TursoUserContextMemory implements IUserContextMemory {
    * Get a user preference
    */
   async get_preference(user_id: string, key: string): Promise<string | undefined> {
-    const result = await execute(SQL.GET_PREFERENCE, { user_id, key });
-
-    if (result.rows.length === 0) {
-      return undefined;
-    }
-
-    return (result.rows[0] as unknown as { value: string }).value;
+    return store.getPreference(user_id, key);
   }
 
   /**
    * Get all preferences for a user
    */
   async get_all_preferences(user_id: string): Promise<Record<string, string>> {
-    const result = await execute(SQL.GET_ALL_PREFERENCES, { user_id });
-
-    const preferences: Record<string, string> = {};
-    for (const row of result.rows as unknown as Array<{ key: string; value: string }>) {
-      preferences[row.key] = row.value;
-    }
-
-    return preferences;
+    return store.getPreferences(user_id);
   }
 
   /**
@@ -0,0 +1,89 @@
+import { createOpenAI } from "@ai-sdk/openai";
+import type { MastraModelConfig } from "@mastra/core/llm";
+import { ENV } from "../_core/env";
+import { openAICompatibleConfig } from "../_core/llm_openai";
+import { stubReply } from "../_core/llm_stub";
+
+type AgentBackendName = "openai" | "groq" | "stub";
+type LanguageModelV2 = Extract<MastraModelConfig, { specificationVersion: "v2" }>;
+type CallOptions = Parameters<LanguageModelV2["doStream"]>[0];
+
+/**
+ * Backend the agents run on: LLM_BACKEND, except that Yelp AI (which cannot
+ * call tools) hands over to OpenAI, or to Groq when only GROQ_API_KEY is set.
+ */
+export function getAgentBackendName(): AgentBackendName {
+  if (ENV.llmBackend !== "yelp") return ENV.llmBackend;
+  return !ENV.openaiApiKey && ENV.groqApiKey ? "groq" : "openai";
+}
+
+/**
+ * True when the agents have a model to run on: the stub, or a real backend
+ * whose API key is set. False only for a missing key, where callers that have
+ * a deterministic fallback (see server/routers/agent.ts) should use it instead.
+ */
+export function hasAgentLanguageModel(): boolean {
+  const name = getAgentBackendName();
+  return name === "stub" || Boolean(openAICompatibleConfig(name).apiKey);
+}
+
+function lastUserText({ prompt }: CallOptions): string {
+  const message = prompt.findLast((entry) => entry.role === "user");
+  if (!message || message.role !== "user") return "";
+  return message.content.map((part) => (part.type === "text" ? part.text : "")).join(" ");
+}
+
+/**
+ * Offline model for the agents: answers the latest user message with the
+ * fixture reply the stub chat backend gives (see server/_core/llm_stub.ts).
+ * It never calls tools.
+ */
+export const stubAgentModel: LanguageModelV2 = {
+  specificationVersion: "v2",
+  provider: "yuber-stub",
+  modelId: "fixtures",
+  supportedUrls: {},
+  async doGenerate(options: CallOptions) {
+    const text = stubReply(lastUserText(options)).text;
+    return {
+      content: [{ type: "text", text }],
+      finishReason: "stop",
+      usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 },
+      warnings: [],
+    };
+  },
+  async doStream(options: CallOptions) {
+    const text = stubReply(lastUserText(options)).text;
+    const stream = new ReadableStream({
+      start(controller) {
+        controller.enqueue({ type: "stream-start", warnings: [] });
+        controller.enqueue({ type: "text-start", id: "stub" });
+        controller.enqueue({ type: "text-delta", id: "stub", delta: text });
+        controller.enqueue({ type: "text-end", id: "stub" });
+        controller.enqueue({ type: "finish", finishReason: "stop", usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 } });
+        controller.close();
+      },
+    });
+    return { stream };
+  },
+};
+
+/** Id of the model `getAgentModel` resolves to right now, for telemetry. */
+export function getAgentModelId(): string {
+  const name = getAgentBackendName();
+  return name === "stub" ? stubAgentModel.modelId : openAICompatibleConfig(name).model;
+}
+
+/**
+ * Model for every agent. Agents take the function rather than its result, so
+ * the model is resolved per call and follows changes to ENV (e.g. in tests).
+ */
+export function getAgentModel(): MastraModelConfig {
+  const name = getAgentBackendName();
+  if (name === "stub") return stubAgentModel;
+
+  const config = openAICompatibleConfig(name);
+  const provider = createOpenAI({ apiKey: config.apiKey, ...(config.baseURL ? { baseURL: config.baseURL } : {}) });
+  // Chat completions rather than the Responses API, which OpenAI-compatible endpoints like Groq do not serve
+  return provider.chat(config.model);
+}
@@ -0,0 +1,323 @@
+// file: server/mastra/store/index.ts
+// description: Drizzle/libSQL store backing Mastra requests, dispatches, payments and agent memory
+// reference: drizzle/schema.ts, server/db.ts, server/mastra/schemas/index.ts
+
+import { and, count, desc, eq, notInArray } from "drizzle-orm";
+import {
+  agentMessages,
+  agentPreferences,
+  dispatches,
+  payments,
+  requests,
+  type AgentMessage,
+  type Dispatch,
+  type Payment as PaymentRow,
+  type ServiceRequest,
+} from "../../../drizzle/schema";
+import { getDb } from "../../db";
+import type {
+  DispatchResult,
+  Location,
+  Payment,
+  PaymentStatus,
+  RequestStatus,
+  UserRequest,
+} from "../schemas";
+
+// =============================================================================
+// STATE RULES
+// =============================================================================
+
+/**
+ * Allowed request status transitions. Requests move forward through the workflow;
+ * `completed` and `cancelled` are terminal.
+ */
+const REQUEST_TRANSITIONS: Record<RequestStatus, readonly RequestStatus[]> = {
+  pending: ["categorized", "searching", "cancelled"],
+  categorized: ["searching", "matched", "dispatched", "cancelled"],
+  searching: ["matched", "dispatched", "cancelled"],
+  matched: ["dispatched", "cancelled"],
+  dispatched: ["in_progress", "cancelled"],
+  in_progress: ["completed", "cancelled"],
+  completed: [],
+  cancelled: [],
+};
+
+const PAYMENT_TRANSITIONS: Record<PaymentStatus, readonly PaymentStatus[]> = {
+  pending: ["processing", "failed"],
+  processing: ["completed", "failed"],
+  completed: [],
+  failed: [],
+};
+
+export type StatusUpdateResult = { success: true } | { success: false; error: string };
+
+// =============================================================================
+// ROW MAPPING
+// =============================================================================
+
+const to_unix_seconds = (date: Date): number => Math.floor(date.getTime() / 1000);
+
+function row_to_request(row: ServiceRequest): UserRequest {
+  return {
+    id: row.id,
+    userId: row.userId,
+    location: { lat: row.latitude, lng: row.longitude },
+    issue: row.issue,
+    urgency: row.urgency,
+    status: row.status,
+    createdAt: to_unix_seconds(row.createdAt),
+    ...(row.category ? { category: row.category } : {}),
+    ...(row.dispatchId ? { dispatchId: row.dispatchId } : {}),
+  };
+}
+
+function row_to_dispatch(row: Dispatch): DispatchResult {
+  return {
+    id: row.id,
+    requestId: row.requestId,
+    agentId: row.agentId,
+    eta: row.eta,
+    costEstimate: row.costEstimate,
+    status: row.status,
+    yelpLink: row.yelpLink,
+    dispatchedAt: to_unix_seconds(row.dispatchedAt),
+  };
+}
+
+function row_to_payment(row: PaymentRow): Payment {
+  return {
+    id: row.id,
+    dispatchId: row.dispatchId,
+    amount: row.amount,
+    method: row.method,
+    status: row.status,
+    transactionId: row.transactionId,
+    createdAt: to_unix_seconds(row.createdAt),
+  };
+}
+
+async function require_db() {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available: TURSO_DATABASE_URL is not configured");
+  }
+  return db;
+}
+
+// =============================================================================
+// STORE
+// =============================================================================
+
+export type CreateRequestInput = {
+  userId: string;
+  location: Location;
+  issue: string;
+  urgency?: UserRequest["urgency"];
+};
+
+export type CreateDispatchInput = Omit<DispatchResult, "id" | "dispatchedAt">;
+
+export type CreatePaymentInput = Pick<Payment, "dispatchId" | "amount" | "method" | "status">;
+
+export type AgentMessageInput = Pick<AgentMessage, "sessionId" | "userId" | "role" | "content">;
+
+/**
+ * Persistence for the Mastra layer. Requests/dispatches/payments use UUID string ids and
+ * return the zod-schema shapes from `server/mastra/schemas` (timestamps as unix seconds).
+ */
+export const store = {
+  // ---------------------------------------------------------------------------
+  // Requests
+  // ---------------------------------------------------------------------------
+
+  async createRequest(input: CreateRequestInput): Promise<UserRequest> {
+    const db = await require_db();
+    const [row] = await db.insert(requests).values({
+      id: crypto.randomUUID(),
+      userId: input.userId,
+      issue: input.issue,
+      urgency: input.urgency ?? "medium",
+      status: "pending",
+      latitude: input.location.lat,
+      longitude: input.location.lng,
+    }).returning();
+    if (!row) {
+      throw new Error("Failed to create request");
+    }
+    return row_to_request(row);
+  },
+
+  async getRequest(id: string): Promise<UserRequest | undefined> {
+    const db = await require_db();
+    const [row] = await db.select().from(requests).where(eq(requests.id, id)).limit(1);
+    return row ? row_to_request(row) : undefined;
+  },
+
+  async getRequestsByUserId(userId: string): Promise<UserRequest[]> {
+    const db = await require_db();
+    const rows = await db.select().from(requests).where(eq(requests.userId, userId)).orderBy(desc(requests.createdAt));
+    return rows.map(row_to_request);
+  },
+
+  async updateRequestCategory(id: string, category: string): Promise<void> {
+    const db = await require_db();
+    await db.update(requests).set({ category, updatedAt: new Date() }).where(eq(requests.id, id));
+  },
+
+  /**
+   * Applies a status change if the transition is allowed; returns an error result instead of throwing.
+   */
+  async updateRequestStatus(id: string, status: RequestStatus): Promise<StatusUpdateResult> {
+    const db = await require_db();
+    const [current] = await db.select({ status: requests.status }).from(requests).where(eq(requests.id, id)).limit(1);
+    if (!current) {
+      return { success: false, error: `Request ${id} not found` };
+    }
+    if (!REQUEST_TRANSITIONS[current.status].includes(status)) {
+      return { success: false, error: `Invalid request status transition: ${current.status} -> ${status}` };
+    }
+
+    await db.update(requests).set({ status, updatedAt: new Date() }).where(
+      and(eq(requests.id, id), eq(requests.status, current.status))
+    );
+    return { success: true };
+  },
+
+  async linkDispatchToRequest(requestId: string, dispatchId: string): Promise<void> {
+    const db = await require_db();
+    await db.update(requests).set({ dispatchId, updatedAt: new Date() }).where(eq(requests.id, requestId));
+  },
+
+  // ---------------------------------------------------------------------------
+  // Dispatches
+  // ---------------------------------------------------------------------------
+
+  async createDispatch(input: CreateDispatchInput): Promise<DispatchResult> {
+    const db = await require_db();
+    const [row] = await db.insert(dispatches).values({ id: crypto.randomUUID(), ...input }).returning();
+    if (!row) {
+      throw new Error("Failed to create dispatch");
+    }
+    return row_to_dispatch(row);
+  },
+
+  async getDispatch(id: string): Promise<DispatchResult | undefined> {
+    const db = await require_db();
+    const [row] = await db.select().from(dispatches).where(eq(dispatches.id, id)).limit(1);
+    return row ? row_to_dispatch(row) : undefined;
+  },
+
+  // ---------------------------------------------------------------------------
+  // Payments
+  // ---------------------------------------------------------------------------
+
+  async createPayment(input: CreatePaymentInput): Promise<Payment> {
+    const db = await require_db();
+    const [row] = await db.insert(payments).values({
+      id: crypto.randomUUID(),
+      transactionId: `txn_${crypto.randomUUID().replace(/-/g, "").slice(0, 16)}`,
+      ...input,
+    }).returning();
+    if (!row) {
+      throw new Error("Failed to create payment");
+    }
+    return row_to_payment(row);
+  },
+
+  /**
+   * Moves a payment along pending → processing → completed (or → failed).
+   * Throws on unknown payments or illegal transitions so callers never report a stale status.
+   */
+  async updatePaymentStatus(id: string, status: PaymentStatus): Promise<Payment> {
+    const db = await require_db();
+    const [current] = await db.select().from(payments).where(eq(payments.id, id)).limit(1);
+    if (!current) {
+      throw new Error(`Payment ${id} not found`);
+    }
+    if (!PAYMENT_TRANSITIONS[current.status].includes(status)) {
+      throw new Error(`Invalid payment status transition: ${current.status} -> ${status}`);
+    }
+
+    const [row] = await db.update(payments).set({ status }).where(eq(payments.id, id)).returning();
+    return row_to_payment(row ?? { ...current, status });
+  },
+
+  // ---------------------------------------------------------------------------
+  // Agent memory
+  // ---------------------------------------------------------------------------
+
+  async addAgentMessage(input: AgentMessageInput): Promise<AgentMessage> {
+    const db = await require_db();
+    const [row] = await db.insert(agentMessages).values({ id: crypto.randomUUID(), ...input }).returning();
+    if (!row) {
+      throw new Error("Failed to store agent message");
+    }
+    return row;
+  },
+
+  /**
+   * Messages for a session in chronological order; with `limit`, only the most recent ones.
+   */
+  async getAgentMessages(sessionId: string, limit?: number): Promise<AgentMessage[]> {
+    const db = await require_db();
+    const query = db.select().from(agentMessages).where(eq(agentMessages.sessionId, sessionId)).orderBy(
+      desc(agentMessages.createdAt),
+      desc(agentMessages.id)
+    );
+    const rows = limit ? await query.limit(limit) : await query;
+    return rows.reverse();
+  },
+
+  async countAgentMessages(sessionId: string): Promise<number> {
+    const db = await require_db();
+    const [row] = await db.select({ value: count() }).from(agentMessages).where(eq(agentMessages.sessionId, sessionId));
+    return row?.value ?? 0;
+  },
+
+  async deleteAgentMessages(sessionId: string): Promise<void> {
+    const db = await require_db();
+    await db.delete(agentMessages).where(eq(agentMessages.sessionId, sessionId));
+  },
+
+  /**
+   * Deletes all but the newest `keepCount` messages of a session.
+   */
+  async pruneAgentMessages(sessionId: string, keepCount: number): Promise<void> {
+    const db = await require_db();
+    const keep = await db.select({ id: agentMessages.id }).from(agentMessages).where(eq(agentMessages.sessionId, sessionId))
+      .orderBy(desc(agentMessages.createdAt), desc(agentMessages.id)).limit(keepCount);
+    const keepIds = keep.map((row) => row.id);
+    await db.delete(agentMessages).where(
+      keepIds.length
+        ? and(eq(agentMessages.sessionId, sessionId), notInArray(agentMessages.id, keepIds))
+        : eq(agentMessages.sessionId, sessionId)
+    );
+  },
+
+  async setPreference(userId: string, key: string, value: string): Promise<void> {
+    const db = await require_db();
+    await db.insert(agentPreferences).values({ userId, key, value }).onConflictDoUpdate({
+      target: [agentPreferences.userId, agentPreferences.key],
+      set: { value, updatedAt: new Date() },
+    });
+  },
+
+  async getPreference(userId: string, key: string): Promise<string | undefined> {
+    const db = await require_db();
+    const [row] = await db.select({ value: agentPreferences.value }).from(agentPreferences).where(
+      and(eq(agentPreferences.userId, userId), eq(agentPreferences.key, key))
+    ).limit(1);
+    return row?.value;
+  },
+
+  async getPreferences(userId: string): Promise<Record<string, string>> {
+    const db = await require_db();
+    const rows = await db.select({ key: agentPreferences.key, value: agentPreferences.value }).from(agentPreferences).where(
+      eq(agentPreferences.userId, userId)
+    );
+    return Object.fromEntries(rows.map((row) => [row.key, row.value]));
+  },
+};
+
+export type Store = typeof store;
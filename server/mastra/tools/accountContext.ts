@@ -0,0 +1,20 @@
+import type { RuntimeContext } from "@mastra/core/runtime-context";
+
+/**
+ * Runtime context key holding the signed-in user's numeric id.
+ *
+ * Account tools read the user from the runtime context set by the caller
+ * (the tRPC router), never from model-supplied input, so an agent can only
+ * ever see the data of the user it is talking to.
+ */
+export const ACCOUNT_USER_ID_KEY = "userId";
+
+export type AccountRuntimeContext = { [ACCOUNT_USER_ID_KEY]: number };
+
+/**
+ * The signed-in user's id from the runtime context, or null for anonymous chats.
+ */
+export function getAccountUserId(runtimeContext: RuntimeContext | undefined): number | null {
+  const userId = runtimeContext?.get(ACCOUNT_USER_ID_KEY);
+  return typeof userId === "number" && Number.isInteger(userId) ? userId : null;
+}
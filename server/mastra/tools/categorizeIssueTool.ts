@@ -1,11 +1,16 @@
 import { createTool } from "@mastra/core/tools";
 import * as z from "zod/v4";
-import { wrapCategorizeIssueTool, type ToolSpanContext, type SpanWrappedResult } from "@/lib/opik/spanWrapper";
+import { classifyService, detectUrgency, SERVICE_TAXONOMY, URGENCIES } from "../../../shared/taxonomy";
+import { wrapCategorizeIssueTool, type ToolSpanContext, type SpanWrappedResult } from "../../_core/opik/spanWrapper";
+
+/** Confidence reported when nothing in the issue matches a category. */
+const FALLBACK_CONFIDENCE = 0.5;
 
 // Output schema for category result
 export const CategoryResultSchema = z.object({
   category: z.string(),
   confidence: z.number().min(0).max(1),
+  urgency: z.enum(URGENCIES),
 });
 
 export type CategoryResult = z.infer<typeof CategoryResultSchema>;
@@ -20,50 +25,34 @@ export type CategorizeIssueOutput = z.infer<typeof CategorizeIssueOutputSchema>;
 
 /**
  * Core categorization logic - exported for testing.
- * Categorizes an issue text into a Yelp service category.
- * Uses keyword matching to determine the appropriate category.
- * Falls back to "handyman" for unmatched issues.
- *
- * 🦆 RUBBER DUCK / YAGNI NOTE:
- * This implementation uses simple keyword matching intentionally.
- * While LLM-based classification would provide better accuracy,
- * the current approach is:
- * - Fast (no API calls required)
- * - Deterministic (same input → same output)
- * - Testable (easy to verify behavior)
- * - Sufficient for MVP scope
+ * Categorizes an issue text into a Yelp service category using the shared
+ * taxonomy classifier (shared/taxonomy.ts), so the agents, the tRPC search
+ * and the client agree on categories.
  *
- * Future enhancement path (when needed):
- * 1. Collect categorization accuracy metrics via Opik
- * 2. If accuracy drops below threshold, consider LLM classification
- * 3. Use the HelpAgent's categorizeIssueTool for complex cases
- *
- * AI-PROOF: Keep this simple until metrics prove otherwise.
+ * The returned category is the taxonomy's search term ("plumber",
+ * "locksmith", ...), which is what the Yelp search and the mock provider
+ * fixtures are keyed by. Falls back to "handyman" for unmatched issues.
  */
 export async function categorizeIssue(issue: string): Promise<CategorizeIssueOutput> {
-  const lowerIssue = issue.toLowerCase();
-
-  // Keyword matching for specific categories
-  // Each keyword maps to a Yelp category with a confidence score
-  if (lowerIssue.includes("locked out")) {
-    return { success: true, data: { category: "locksmith", confidence: 0.95 } };
-  }
-
-  if (lowerIssue.includes("pipe") || lowerIssue.includes("water")) {
-    return { success: true, data: { category: "plumber", confidence: 0.9 } };
-  }
-
-  if (lowerIssue.includes("electrical")) {
-    return { success: true, data: { category: "electrician", confidence: 0.9 } };
-  }
-
-  if (lowerIssue.includes("window")) {
-    return { success: true, data: { category: "glass", confidence: 0.85 } };
-  }
+  const classification = classifyService(issue);
 
   // Fallback to handyman for unmatched issues
   // Lower confidence signals potential need for clarification
-  return { success: true, data: { category: "handyman", confidence: 0.5 } };
+  if (!classification) {
+    return {
+      success: true,
+      data: { category: SERVICE_TAXONOMY.handyman.searchTerm, confidence: FALLBACK_CONFIDENCE, urgency: detectUrgency(issue) },
+    };
+  }
+
+  return {
+    success: true,
+    data: {
+      category: SERVICE_TAXONOMY[classification.category].searchTerm,
+      confidence: classification.confidence,
+      urgency: classification.urgency,
+    },
+  };
 }
 
 /**
@@ -76,9 +65,8 @@ export const categorizeIssueTool = createTool({
     issue: z.string(),
   }),
   outputSchema: CategorizeIssueOutputSchema,
-  execute: async (context) => {
-    const input = context as unknown as { issue: string };
-    return categorizeIssue(input.issue);
+  execute: async ({ context }) => {
+    return categorizeIssue(context.issue);
   },
 });
 
@@ -1,8 +1,8 @@
 import { createTool } from "@mastra/core/tools";
 import * as z from "zod/v4";
-import { store } from "@/store";
-import { DispatchResultSchema } from "@/mastra/schemas";
-import { wrapDispatchAgentTool, type ToolSpanContext, type SpanWrappedResult } from "@/lib/opik/spanWrapper";
+import { store } from "../store";
+import { DispatchResultSchema } from "../schemas";
+import { wrapDispatchAgentTool, type ToolSpanContext, type SpanWrappedResult } from "../../_core/opik/spanWrapper";
 
 // Tool output schema
 export const DispatchAgentOutputSchema = z.object({
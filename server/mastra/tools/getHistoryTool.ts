@@ -1,8 +1,8 @@
 import { createTool } from "@mastra/core/tools";
 import * as z from "zod/v4";
-import { store } from "@/store";
-import { UserRequestSchema, type UserRequest } from "@/mastra/schemas";
-import { wrapTool, type ToolSpanContext, type SpanWrappedResult, type ToolOutput } from "@/lib/opik/spanWrapper";
+import { store } from "../store";
+import { UserRequestSchema, type UserRequest } from "../schemas";
+import { wrapTool, type ToolSpanContext, type SpanWrappedResult, type ToolOutput } from "../../_core/opik/spanWrapper";
 
 // Tool output schema
 export const GetHistoryOutputSchema = z.object({
@@ -0,0 +1,62 @@
+import { createTool } from "@mastra/core/tools";
+import * as z from "zod/v4";
+import * as db from "../../db";
+import { getAccountUserId } from "./accountContext";
+
+export const SavedPaymentMethodSchema = z.object({
+  cardType: z.string(),
+  lastFour: z.string(),
+  expires: z.string(),
+  expired: z.boolean(),
+  isDefault: z.boolean(),
+});
+
+export type SavedPaymentMethod = z.infer<typeof SavedPaymentMethodSchema>;
+
+export const GetPaymentMethodsOutputSchema = z.object({
+  signedIn: z.boolean(),
+  paymentMethods: z.array(SavedPaymentMethodSchema),
+});
+
+export type GetPaymentMethodsOutput = z.infer<typeof GetPaymentMethodsOutputSchema>;
+
+/**
+ * Core payment method lookup - exported for testing.
+ * Returns the user's saved cards, default first, with only the details shown
+ * in the app (brand, last four digits, expiry). A null userId (anonymous
+ * chat) returns `signedIn: false` and no cards.
+ */
+export async function getPaymentMethods(userId: number | null, now = new Date()): Promise<GetPaymentMethodsOutput> {
+  if (userId === null) {
+    return { signedIn: false, paymentMethods: [] };
+  }
+
+  const currentMonth = now.getFullYear() * 12 + now.getMonth() + 1;
+  const methods = await db.getPaymentMethodsByUser(userId);
+  return {
+    signedIn: true,
+    paymentMethods: methods.map(method => ({
+      cardType: method.cardType,
+      lastFour: method.lastFour,
+      expires: `${String(method.expiryMonth).padStart(2, "0")}/${method.expiryYear}`,
+      expired: method.expiryYear * 12 + method.expiryMonth < currentMonth,
+      isDefault: method.isDefault,
+    })),
+  };
+}
+
+/**
+ * Mastra tool wrapper for the signed-in user's saved payment methods.
+ * The user comes from the runtime context (see accountContext.ts).
+ */
+export const getPaymentMethodsTool = createTool({
+  id: "get-payment-methods",
+  description:
+    "Lists the signed-in user's saved payment cards (brand, last four digits, expiry, which one is the default). " +
+    "Use it before answering questions about payments or declined charges.",
+  inputSchema: z.object({}),
+  outputSchema: GetPaymentMethodsOutputSchema,
+  execute: async ({ runtimeContext }) => {
+    return getPaymentMethods(getAccountUserId(runtimeContext));
+  },
+});
@@ -0,0 +1,97 @@
+import { createTool } from "@mastra/core/tools";
+import * as z from "zod/v4";
+import { serviceLabel } from "../../../shared/taxonomy";
+import { BOOKING_STATUSES } from "../../../drizzle/schema";
+import * as db from "../../db";
+import { getAccountUserId } from "./accountContext";
+
+/** Bookings returned when the agent does not ask for a specific number. */
+const DEFAULT_BOOKING_LIMIT = 5;
+
+export const UserBookingSchema = z.object({
+  orderId: z.string(),
+  service: z.string(),
+  description: z.string().nullable(),
+  status: z.enum(BOOKING_STATUSES),
+  providerName: z.string().nullable(),
+  createdAt: z.string(),
+  scheduledAt: z.string().nullable(),
+  completedAt: z.string().nullable(),
+  cancelledAt: z.string().nullable(),
+  estimatedCost: z.object({ min: z.number().nullable(), max: z.number().nullable() }),
+  finalCost: z.number().nullable(),
+  cancellationFee: z.number().nullable(),
+});
+
+export type UserBooking = z.infer<typeof UserBookingSchema>;
+
+export const GetUserBookingsInputSchema = z.object({
+  limit: z.number().int().min(1).max(20).optional(),
+  status: z.enum(BOOKING_STATUSES).optional(),
+});
+
+export type GetUserBookingsInput = z.infer<typeof GetUserBookingsInputSchema>;
+
+export const GetUserBookingsOutputSchema = z.object({
+  signedIn: z.boolean(),
+  bookings: z.array(UserBookingSchema),
+});
+
+export type GetUserBookingsOutput = z.infer<typeof GetUserBookingsOutputSchema>;
+
+/**
+ * Core booking lookup - exported for testing.
+ * Returns the user's most recent bookings (newest first) with the provider
+ * name resolved, optionally narrowed to one status. A null userId (anonymous
+ * chat) returns `signedIn: false` and no bookings.
+ */
+export async function getUserBookings(
+  userId: number | null,
+  input: GetUserBookingsInput = {}
+): Promise<GetUserBookingsOutput> {
+  if (userId === null) {
+    return { signedIn: false, bookings: [] };
+  }
+
+  const bookings = (await db.getBookingsByUser(userId))
+    .filter(booking => !input.status || booking.status === input.status)
+    .slice(0, input.limit ?? DEFAULT_BOOKING_LIMIT);
+
+  const providerIds = [...new Set(bookings.map(booking => booking.providerId))];
+  const providers = await Promise.all(providerIds.map(id => db.getProviderById(id)));
+  const providerNames = new Map(providers.flatMap(provider => (provider ? [[provider.id, provider.name] as const] : [])));
+
+  return {
+    signedIn: true,
+    bookings: bookings.map(booking => ({
+      orderId: booking.orderId,
+      service: serviceLabel(booking.serviceType),
+      description: booking.serviceDescription,
+      status: booking.status,
+      providerName: providerNames.get(booking.providerId) ?? null,
+      createdAt: booking.createdAt.toISOString(),
+      scheduledAt: booking.scheduledAt?.toISOString() ?? null,
+      completedAt: booking.completedAt?.toISOString() ?? null,
+      cancelledAt: booking.cancelledAt?.toISOString() ?? null,
+      estimatedCost: { min: booking.estimatedCostMin, max: booking.estimatedCostMax },
+      finalCost: booking.finalCost,
+      cancellationFee: booking.cancellationFee,
+    })),
+  };
+}
+
+/**
+ * Mastra tool wrapper for the signed-in user's bookings.
+ * The user comes from the runtime context (see accountContext.ts).
+ */
+export const getUserBookingsTool = createTool({
+  id: "get-user-bookings",
+  description:
+    "Looks up the signed-in user's most recent bookings (order id, service, provider, status, dates and costs in dollars). " +
+    "Use it before answering questions about a booking, a cancellation, a charge or a refund.",
+  inputSchema: GetUserBookingsInputSchema,
+  outputSchema: GetUserBookingsOutputSchema,
+  execute: async ({ context, runtimeContext }) => {
+    return getUserBookings(getAccountUserId(runtimeContext), context);
+  },
+});
@@ -1,8 +1,8 @@
 import { createTool } from "@mastra/core/tools";
 import * as z from "zod/v4";
-import { store } from "@/store";
-import { PaymentSchema } from "@/mastra/schemas";
-import { wrapTool, type ToolSpanContext, type SpanWrappedResult, type ToolOutput } from "@/lib/opik/spanWrapper";
+import { store } from "../store";
+import { PaymentSchema } from "../schemas";
+import { wrapTool, type ToolSpanContext, type SpanWrappedResult, type ToolOutput } from "../../_core/opik/spanWrapper";
 
 // Tool output schema
 export const ProcessPaymentOutputSchema = z.object({
@@ -73,9 +73,8 @@ export async function processPayment(
     };
   }
 
-  // Simulate payment failure (10% chance or forced via parameter)
-  const shouldFail = simulateFailure || Math.random() < 0.1;
-  if (shouldFail) {
+  // Failures are only simulated on request so workflow runs are reproducible
+  if (simulateFailure) {
     // Create payment with failed status
     const failedPayment = await store.createPayment({
       dispatchId,
@@ -1,29 +1,87 @@
-import { Tool } from "@mastra/core/tools";
-import { z } from "zod";
+import { createTool } from "@mastra/core/tools";
+import * as z from "zod/v4";
+import {
+  describeNotificationPreferences,
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_TOPICS,
+  type NotificationPreferenceChange,
+} from "../../../shared/notifications";
+import * as db from "../../db";
+import { getAccountUserId } from "./accountContext";
+
+const ChannelPreferencesSchema = z.object({
+  email: z.boolean(),
+  push: z.boolean(),
+  sms: z.boolean(),
+});
+
+export const NotificationPreferencesSchema = z.object({
+  bookingUpdates: ChannelPreferencesSchema,
+  providerMessages: ChannelPreferencesSchema,
+  promotions: ChannelPreferencesSchema,
+  reminders: ChannelPreferencesSchema,
+});
+
+export const NotificationPreferenceChangeSchema = z.object({
+  topic: z.enum(NOTIFICATION_TOPICS).optional(),
+  channel: z.enum(NOTIFICATION_CHANNELS).optional(),
+  enabled: z.boolean(),
+});
+
+export const UpdateSettingsInputSchema = z.object({
+  changes: z.array(NotificationPreferenceChangeSchema).max(24),
+});
+
+export type UpdateSettingsInput = z.infer<typeof UpdateSettingsInputSchema>;
+
+export const UpdateSettingsOutputSchema = z.object({
+  signedIn: z.boolean(),
+  /** False when nothing was stored (anonymous user, no changes, or no database). */
+  saved: z.boolean(),
+  preferences: NotificationPreferencesSchema.nullable(),
+  /** One line per topic with the channels it is delivered on, for echoing back to the user. */
+  summary: z.array(z.string()),
+});
+
+export type UpdateSettingsOutput = z.infer<typeof UpdateSettingsOutputSchema>;
+
+/**
+ * Core settings update - exported for testing and for the keyword fallback
+ * in server/routers/agent.ts.
+ * Applies the changes to the user's stored notification preferences and
+ * returns the resulting state. An empty change list only reads the state.
+ */
+export async function updateNotificationSettings(
+  userId: number | null,
+  changes: readonly NotificationPreferenceChange[]
+): Promise<UpdateSettingsOutput> {
+  if (userId === null) {
+    return { signedIn: false, saved: false, preferences: null, summary: [] };
+  }
+
+  const updated = changes.length > 0 ? await db.updateNotificationPreferences(userId, changes) : null;
+  const preferences = updated ?? (await db.getNotificationPreferences(userId));
+  return {
+    signedIn: true,
+    saved: updated !== null,
+    preferences,
+    summary: describeNotificationPreferences(preferences),
+  };
+}
 
 /**
- * UpdateSettingsTool - Modifies user notification preferences.
+ * UpdateSettingsTool - Modifies the signed-in user's notification preferences.
+ * The user comes from the runtime context (see accountContext.ts).
  */
-export const updateSettingsTool = new Tool({
-  label: "Update Settings",
-  schema: z.object({
-    emailEnabled: z.boolean().optional(),
-    pushEnabled: z.boolean().optional(),
-    smsEnabled: z.boolean().optional(),
-    promotions: z.boolean().optional(),
-  }),
-  description: "Updates user notification preferences like email, push, sms, or promotions.",
-  executor: async ({ data }) => {
-    // In a real implementation, this would update the database.
-    // For this POC, we'll simulate a successful update.
-    console.log("[Tool] Updating settings:", data);
-    return {
-      success: true,
-      message: `Settings updated successfully: ${Object.entries(data)
-        .map(([k, v]) => `${k}=${v}`)
-        .join(", ")}`,
-      updatedSettings: data,
-    };
+export const updateSettingsTool = createTool({
+  id: "update-settings",
+  description:
+    "Turns notification topics (bookingUpdates, providerMessages, promotions, reminders) on or off per channel (email, push, sms). " +
+    "Leave out topic to change every topic, or channel to change every channel. Pass an empty list to read the current settings. " +
+    "Returns the stored settings after the change.",
+  inputSchema: UpdateSettingsInputSchema,
+  outputSchema: UpdateSettingsOutputSchema,
+  execute: async ({ context, runtimeContext }) => {
+    return updateNotificationSettings(getAccountUserId(runtimeContext), context.changes);
   },
 });
-
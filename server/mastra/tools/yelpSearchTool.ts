@@ -1,8 +1,8 @@
 import { createTool } from "@mastra/core/tools";
 import * as z from "zod/v4";
-import { ServiceAgentSchema, type ServiceAgent } from "@/mastra/schemas";
-import { getMockProviders } from "@/mastra/data/mockProviders";
-import { wrapYelpSearchTool, type ToolSpanContext, type SpanWrappedResult } from "@/lib/opik/spanWrapper";
+import { ServiceAgentSchema, type ServiceAgent } from "../schemas";
+import { getMockProviders } from "../data/mockProviders";
+import { wrapYelpSearchTool, type ToolSpanContext, type SpanWrappedResult } from "../../_core/opik/spanWrapper";
 import {
   YELP_MIN_RATING,
   YELP_MIN_REVIEW_COUNT,
@@ -11,8 +11,8 @@ import {
   DEFAULT_RETRY_DELAY_MS,
   BACKOFF_MULTIPLIER,
   HTTP_STATUS,
-} from "@/lib/constants";
-import { logger } from "@/lib/logger";
+} from "../constants";
+import { logger } from "../../_core/logger";
 
 // Output schema for yelp search result
 export const YelpSearchOutputSchema = z.object({
@@ -1,23 +1,24 @@
 import { createWorkflow, createStep } from "@mastra/core/workflows";
 import * as z from "zod/v4";
-import { store } from "@/store";
+import { store } from "../store";
 import {
   LocationSchema,
   ServiceAgentSchema,
   DispatchResultSchema,
   type ServiceAgent,
   type Location,
-} from "@/mastra/schemas";
-import { categorizeIssue } from "@/mastra/tools/categorizeIssueTool";
-import { searchYelp } from "@/mastra/tools/yelpSearchTool";
-import { createDispatch } from "@/mastra/tools/dispatchAgentTool";
-import { logger } from "@/lib/logger";
+} from "../schemas";
+import { categorizeIssue } from "../tools/categorizeIssueTool";
+import { searchYelp } from "../tools/yelpSearchTool";
+import { createDispatch } from "../tools/dispatchAgentTool";
+import { detectUrgency } from "../../../shared/taxonomy";
+import { logger } from "../../_core/logger";
 import {
   wrapWorkflow,
   type TraceWrapperMetadata,
   type TracedResult,
   type WorkflowExecutionResult,
-} from "@/lib/opik/traceWrapper";
+} from "../../_core/opik/traceWrapper";
 
 /**
  * Step 1: Categorize the issue
@@ -55,7 +56,7 @@ export const categorizeStep = createStep({
         userId: inputData.userId,
         location: inputData.location,
         issue: inputData.issue,
-        urgency: "medium",
+        urgency: detectUrgency(inputData.issue),
       });
 
       logger.tool.execute("categorizeIssue", { issue: inputData.issue.slice(0, 50) });
@@ -291,8 +292,9 @@ export const dispatchStep = createStep({
       };
     }
 
-    // Check if we have providers
-    if (!inputData.providers || inputData.providers.length === 0) {
+    // Check if we have providers (first in list is the best, already sorted by rating)
+    const bestProvider = inputData.providers?.[0];
+    if (!bestProvider) {
       logger.workflow.error("emergency-workflow", "dispatch", "No providers available");
       return {
         success: false,
@@ -304,8 +306,6 @@ export const dispatchStep = createStep({
     }
 
     try {
-      // Select best provider (first in list, already sorted by rating)
-      const bestProvider = inputData.providers[0];
       logger.workflow.step("dispatch", "Selected best provider", { 
         providerId: bestProvider.id, 
         rating: bestProvider.rating 
@@ -410,8 +410,8 @@ export interface EmergencyWorkflowInput {
 export interface EmergencyWorkflowOutput extends WorkflowExecutionResult {
   success: boolean;
   output?: unknown;
-  dispatch?: z.infer<typeof DispatchResultSchema>;
-  error?: { code: string; message: string };
+  dispatch?: z.infer<typeof DispatchResultSchema> | undefined;
+  error?: { code: string; message: string } | undefined;
 }
 
 /**
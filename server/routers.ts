@@ -2,75 +2,53 @@
 // description: tRPC application router exposing auth, user, conversation, provider APIs
 // reference: server/_core/trpc.ts, server/_core/cookies.ts
 import { COOKIE_NAME } from '@shared/const';
+import { NOTIFICATION_CHANNELS, NOTIFICATION_TOPICS } from '@shared/notifications';
+import { classifyService, resolveServiceCategory, SERVICE_TAXONOMY } from '@shared/taxonomy';
+import { TRPCError } from '@trpc/server';
 import { z } from 'zod';
+import { BOOKING_STATUSES, DISPUTE_REASONS, DISPUTE_STATUSES } from '../drizzle/schema';
+import { loadAnyBooking, loadAnyDispute, loadBooking, loadConversation, loadDispute } from './_core/authorization';
 import { getSessionCookieOptions } from './_core/cookies';
-import { invokeLLM, searchProvidersWithLogging } from './_core/llm';
+import { invokeLLM } from './_core/llm';
 import { systemRouter } from './_core/systemRouter';
-import { protectedProcedure, publicProcedure, router } from './_core/trpc';
+import { adminProcedure, protectedProcedure, publicProcedure, router } from './_core/trpc';
 import { agentRouter } from './routers/agent';
-import { getYelpBusinessDetails, getYelpBusinessReviews, searchYelpBusinesses, type YelpRestBusiness } from './_core/yelp_rest_search';
+import { followAssistantReply, recordUserMessage, saveAssistantReply } from './services/assistant_chat';
+import { actorFromUser, getBookingTimeline, isFinalStatus, recordBookingCreated, transitionBooking } from './services/booking_lifecycle';
+import { bookingSnapshot, publishBookingLocation, subscribeToBooking } from './services/booking_live';
+import { cancelBooking, quoteCancellation } from './services/cancellation_policy';
+import { addEvidence, openDispute, resolveDispute, startReview } from './services/disputes';
+import { MAX_GEO_RESULTS, MAX_SEARCH_RADIUS_MILES, searchProvidersInBounds, searchProvidersNearby } from './services/geo_search';
+import { assertTippable, authorizeBookingPayment, MAX_TIP_DOLLARS, captureBookingPayment, getPaymentSummary, refundBookingPayment, setBookingFinalCost, settleCancelledBooking, tipBooking } from './services/payments';
+import { bookedJobMinutes, quoteBooking } from './services/pricing';
+import { DEFAULT_PROVIDER_PAGE_SIZE, federatedProviderSearch, MAX_PROVIDER_PAGE_SIZE } from './services/provider_search';
+import { DEFAULT_AVAILABLE_MINUTES, fromProviderRow, PROVIDER_SORTS, PROVIDER_TRANSACTIONS, sortProviderResults } from './services/provider_sources';
+import { loadRankingContext, rankProviders } from './services/ranking';
+import { buildReceipt } from './services/receipts';
+import { getSearchSuggestions } from './services/search_suggestions';
+import { assertBookable, getProviderSlots } from './services/scheduling';
+import { lookupQuotedProvider, resolveProvider } from './services/yelp_providers';
+import { getYelpBusinessDetails, getYelpBusinessReviews } from './_core/yelp_rest_search';
 import * as db from './db';
 
 const DEFAULT_SEARCH_LOCATION = { latitude: 39.9612, longitude: -83.1259 }; // Columbus, OH
-const DEFAULT_AVAILABLE_MINUTES = 10;
-const YELP_TIMEOUT_MS = 3000;
-
-function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
-  return Promise.race([
-    promise,
-    new Promise<T>((_, reject) => setTimeout(() => reject(new Error('Timeout')), ms))
-  ]);
-}
-
-const SERVICE_QUERY_MAP: Record<string, string> = {
-  'car wash': 'carwash',
-  wash: 'carwash',
-  detailing: 'carwash',
-  plumber: 'plumber',
-  plumbing: 'plumber',
-  electrician: 'electrician',
-  electric: 'electrician',
-  sushi: 'restaurant',
-  restaurant: 'restaurant',
-  haircut: 'haircut',
-  salon: 'haircut',
-  cleaning: 'cleaning',
-  cleaner: 'cleaning',
-  handyman: 'handyman',
-  repair: 'handyman'
-};
-
-function normalizeServiceQuery(raw: string): string {
-  const lower = raw.toLowerCase();
-  for (const [keyword, mapped] of Object.entries(SERVICE_QUERY_MAP)) {
-    if (lower.includes(keyword)) {
-      return mapped;
-    }
-  }
-  return raw.trim();
-}
-
-function mapToCategory(raw: string): string | undefined {
-  const normalized = normalizeServiceQuery(raw);
-  switch (normalized) {
-    case 'carwash':
-      return 'carwash';
-    case 'plumber':
-      return 'plumbing';
-    case 'electrician':
-      return 'electrician';
-    case 'restaurant':
-      return 'restaurants';
-    case 'haircut':
-      return 'hair';
-    case 'cleaning':
-      return 'homecleaning';
-    case 'handyman':
-      return 'handyman';
-    default:
-      return undefined;
-  }
-}
+
+const coordinatesInput = z.object({ lat: z.number().min(-90).max(90), lng: z.number().min(-180).max(180) });
+
+/** Stored provider id, or a Yelp business id that is materialized as a provider on first use. */
+const providerRefInput = { providerId: z.number().optional(), yelpBusinessId: z.string().min(1).optional() };
+const hasProviderRef = (value: { providerId?: number | undefined, yelpBusinessId?: string | undefined }) =>
+  value.providerId !== undefined || Boolean(value.yelpBusinessId);
+const providerRefMessage = { message: 'providerId or yelpBusinessId is required' };
+
+const providerFiltersInput = z.object({
+  minRating: z.number().min(0).max(5).optional(),
+  maxDistanceMiles: z.number().positive().max(MAX_SEARCH_RADIUS_MILES).optional(),
+  priceLevels: z.array(z.number().int().min(1).max(4)).max(4).optional(),
+  openNow: z.boolean().optional(),
+  ecoFriendly: z.boolean().optional(),
+  transactions: z.array(z.enum(PROVIDER_TRANSACTIONS)).optional()
+});
 
 export const appRouter = router({
   system: systemRouter,
@@ -117,6 +95,27 @@ export const appRouter = router({
     })
   }),
 
+  // ============ SETTINGS PROCEDURES ============
+  settings: router({
+    get: protectedProcedure.query(async ({ ctx }) => {
+      return { notifications: await db.getNotificationPreferences(ctx.user.id) };
+    }),
+
+    update: protectedProcedure.input(
+      z.object({
+        notifications: z.array(z.object({
+          topic: z.enum(NOTIFICATION_TOPICS).optional(),
+          channel: z.enum(NOTIFICATION_CHANNELS).optional(),
+          enabled: z.boolean()
+        })).min(1).max(24)
+      })
+    ).mutation(async ({ ctx, input }) => {
+      const notifications = await db.updateNotificationPreferences(ctx.user.id, input.notifications);
+      if (!notifications) throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Settings could not be saved.' });
+      return { notifications };
+    })
+  }),
+
   // ============ CONVERSATION PROCEDURES ============
   conversation: router({
     create: protectedProcedure.input(z.object({ title: z.string().optional() })).mutation(async ({ ctx, input }) => {
@@ -127,65 +126,77 @@ export const appRouter = router({
       return db.getConversationsByUser(ctx.user.id);
     }),
 
-    get: protectedProcedure.input(z.object({ id: z.number() })).query(async ({ input }) => {
-      return db.getConversationById(input.id);
+    /** Finds the user's past conversations by what was said in them, with highlighted snippets. */
+    search: protectedProcedure.input(z.object({ query: z.string().trim().min(1).max(200), limit: z.number().int().min(1).max(50).default(20) })).query(
+      async ({ ctx, input }) => {
+        return db.searchConversations(ctx.user.id, input.query, input.limit);
+      }
+    ),
+
+    get: protectedProcedure.input(z.object({ id: z.number() })).query(async ({ ctx, input }) => {
+      return loadConversation(ctx.user, input.id);
     }),
 
-    getMessages: protectedProcedure.input(z.object({ conversationId: z.number() })).query(async ({ input }) => {
-      return db.getMessagesByConversation(input.conversationId);
+    getMessages: protectedProcedure.input(z.object({ conversationId: z.number() })).query(async ({ ctx, input }) => {
+      const conversation = await loadConversation(ctx.user, input.conversationId);
+      return db.getMessagesByConversation(conversation.id);
     }),
 
     sendMessage: protectedProcedure.input(z.object({ conversationId: z.number(), content: z.string() })).mutation(
       async ({ ctx, input }) => {
-        // Save user message
-        await db.addMessage({ conversationId: input.conversationId, role: 'user', content: input.content, messageType: 'text' });
-
-        // Get conversation history for context
-        const history = await db.getMessagesByConversation(input.conversationId);
-        const messagesForLLM = history.map(m => ({ role: m.role as 'user' | 'assistant' | 'system', content: m.content }));
-
-        // Generate AI response
-        const systemPrompt =
-          `You are YUBER, an AI agent for local services. You help users find and book local service providers like plumbers, electricians, car washes, restaurants, hair salons, etc.
-
-Your personality is helpful, efficient, and friendly. You understand natural language requests and help match users with the best service providers.
-
-When a user asks for a service:
-1. Understand their need clearly
-2. Ask clarifying questions if needed (e.g., "Are you looking for emergency service or can it wait?")
-3. When ready to search, indicate you're searching for providers
-4. Recommend the best match with clear reasoning
-
-Keep responses concise and conversational. Use emojis sparingly for warmth.`;
-
-        const response = await invokeLLM({
-          messages: [{ role: 'system', content: systemPrompt }, ...messagesForLLM],
-          conversationId: input.conversationId
-        });
-
-        const aiContent = response.text || "I'm sorry, I couldn't process that request. Could you try again?";
-
-        // Determine message type based on content
-        let messageType: 'text' | 'clarification' | 'recommendation' | 'status' = 'text';
-        if (
-          aiContent.includes('searching') || aiContent.includes('Searching') || aiContent.includes('looking for') ||
-          aiContent.includes('Looking for')
-        ) {
-          messageType = 'status';
-        }
+        await loadConversation(ctx.user, input.conversationId);
+        const messages = await recordUserMessage(input.conversationId, input.content);
+        const response = await invokeLLM({ messages, conversationId: input.conversationId });
+        return saveAssistantReply(input.conversationId, response.text, response.businesses);
+      }
+    ),
+
+    // Streams over SSE: status updates, text deltas and recommended providers, then `done` with the saved assistant message.
+    // The reply is saved even if the client disconnects before it finishes, and runs once per `clientMessageId`: a
+    // reconnect resumes after `lastEventId` rather than sending the message again.
+    streamMessage: protectedProcedure.input(z.object({
+      conversationId: z.number(),
+      clientMessageId: z.string().min(1).max(100),
+      content: z.string().trim().min(1).max(2000),
+      location: coordinatesInput.optional(),
+      lastEventId: z.string().nullish()
+    })).subscription(async function*({ ctx, input, signal }) {
+      await loadConversation(ctx.user, input.conversationId);
+      const location = input.location ? { latitude: input.location.lat, longitude: input.location.lng } : undefined;
+      yield* followAssistantReply({
+        conversationId: input.conversationId,
+        clientMessageId: input.clientMessageId,
+        content: input.content,
+        location,
+        lastEventId: input.lastEventId,
+        signal
+      });
+    })
+  }),
 
-        // Save AI response
-        const aiMessage = await db.addMessage({ conversationId: input.conversationId, role: 'assistant', content: aiContent, messageType });
+  // ============ SEARCH PROCEDURES ============
+  search: router({
+    /** Recent searches (signed in), popular searches around `location`, and service names matching `prefix`. */
+    suggest: publicProcedure.input(z.object({
+      prefix: z.string().max(100).optional(),
+      location: coordinatesInput.optional(),
+      limit: z.number().int().min(1).max(10).default(5)
+    })).query(async ({ ctx, input }) => {
+      return getSearchSuggestions({ userId: ctx.user?.id, prefix: input.prefix, location: input.location, limit: input.limit });
+    }),
 
-        // Update conversation title if first message
-        if (history.length <= 1) {
-          const title = input.content.slice(0, 50) + (input.content.length > 50 ? '...' : '');
-          await db.updateConversation(input.conversationId, { title, serviceType: detectServiceType(input.content) });
-        }
+    clearHistory: protectedProcedure.mutation(async ({ ctx }) => {
+      return { success: true, deleted: await db.clearSearchHistory(ctx.user.id) };
+    }),
 
-        return aiMessage;
+    /** Removes a recent search (every earlier search with the same text too). */
+    deleteHistoryEntry: protectedProcedure.input(z.object({ id: z.number().int() })).mutation(async ({ ctx, input }) => {
+      const deleted = await db.deleteSearchHistoryEntry(ctx.user.id, input.id);
+      if (deleted === 0) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Search history entry not found.' });
       }
-    )
+      return { success: true, deleted };
+    })
   }),
 
   // ============ PROVIDER PROCEDURES ============
@@ -202,141 +213,88 @@ Keep responses concise and conversational. Use emojis sparingly for warmth.`;
       return db.getProviderById(input.id);
     }),
 
-    search: publicProcedure.input(z.object({ query: z.string(), location: z.object({ lat: z.number(), lng: z.number() }).optional() }))
-      .query(async ({ input, ctx }) => {
-        const location = input.location ? { latitude: input.location.lat, longitude: input.location.lng } : DEFAULT_SEARCH_LOCATION;
-
-        const normalizedQuery = normalizeServiceQuery(input.query);
-        // 1) Try direct Yelp REST first (cheaper and less rate-limited), with category hint and retry
-        const restCategory = mapToCategory(input.query);
-        try {
-          const restBusinesses: YelpRestBusiness[] = await withTimeout(
-            searchYelpBusinesses(normalizedQuery, location, restCategory),
-            YELP_TIMEOUT_MS
-          ).catch(err => {
-            console.error('[YelpREST] Search timed out or failed:', err);
-            return [] as YelpRestBusiness[];
-          });
-          
-          console.info('[YelpREST] search result', {
-            query: normalizedQuery,
-            category: restCategory,
-            location,
-            count: restBusinesses.length
-          });
-
-          if (!restBusinesses.length && normalizedQuery !== input.query) {
-            const secondPass: YelpRestBusiness[] = await withTimeout(
-              searchYelpBusinesses(input.query, location, restCategory),
-              YELP_TIMEOUT_MS
-            ).catch(err => {
-               console.error('[YelpREST] Second pass failed:', err);
-               return [] as YelpRestBusiness[];
-            });
-            console.info('[YelpREST] second pass result', {
-              query: input.query,
-              category: restCategory,
-              location,
-              count: secondPass.length
-            });
-            if (secondPass.length) {
-              restBusinesses.push(...secondPass);
-            }
-          }
-
-          if (restBusinesses.length > 0) {
-            await db.addSearchHistory({
-              userId: ctx.user?.id,
-              query: input.query,
-              latitude: String(location.latitude),
-              longitude: String(location.longitude)
-            });
-
-            return restBusinesses.map((business, index) => ({
-              id: index + 1,
-              source: 'yelp' as const,
-              yelpId: business.id,
-              name: business.name,
-              category: business.categories?.[0]?.title ?? 'Local Service',
-              description: business.location?.display_address?.join(', ') ?? business.location?.address1 ?? business.location?.city ?? 'Trusted local provider',
-              imageUrl: business.image_url ?? null,
-              bannerUrl: business.image_url ?? null,
-              rating: business.rating ? Math.round(business.rating * 10) : null,
-              reviewCount: business.review_count ?? 0,
-              hourlyRate: null,
-              callOutFee: 0,
-              distance: business.distance ? Number((business.distance / 1609).toFixed(1)) : null,
-              address: business.location?.display_address?.join(', ') ?? business.location?.address1 ?? null,
-              latitude: business.coordinates?.latitude ?? null,
-              longitude: business.coordinates?.longitude ?? null,
-              phone: business.display_phone ?? business.phone ?? null,
-              website: business.url ?? null,
-              isAvailable: true,
-              availableIn: DEFAULT_AVAILABLE_MINUTES,
-              specialties: business.categories?.map((c) => c.title).join(', ') ?? null,
-              servicesOffered: (business as { transactions?: string[] | null }).transactions ?? null,
-              ecoFriendly: null
-            }));
-          }
-        } catch (restError) {
-          console.error('[Provider.search] Yelp REST search failed', restError);
-        }
-
-        // 2) Try Yelp AI only if REST returned nothing
-        try {
-          let yelpResult = await withTimeout(
-            searchProvidersWithLogging(normalizedQuery, location),
-            YELP_TIMEOUT_MS
-          );
-
-          if (!yelpResult.businesses.length && normalizedQuery !== input.query) {
-            yelpResult = await withTimeout(
-              searchProvidersWithLogging(`${normalizedQuery} near me`, location),
-              YELP_TIMEOUT_MS
-            );
-          }
-
-          const mapped = yelpResult.businesses.map((business, index) => ({
-            id: index + 1,
-            source: 'yelp' as const,
-            yelpId: business.id,
-            name: business.name,
-            category: business.categories?.[0]?.title ?? 'Local Service',
-            description: business.location.address1 ?? business.location.city ?? 'Trusted local provider',
-            imageUrl: business.image_url ?? null,
-            bannerUrl: business.image_url ?? null,
-            rating: Math.round((business.rating ?? 4.5) * 10),
-            reviewCount: business.review_count ?? 0,
-            hourlyRate: null,
-            callOutFee: 0,
-            distance: business.distance ? Number((business.distance / 1609).toFixed(1)) : null,
-            address: business.location.address1 ?? null,
-            phone: business.phone ?? null,
-            website: business.url ?? null,
-            isAvailable: true,
-            availableIn: DEFAULT_AVAILABLE_MINUTES,
-            specialties: business.categories?.map((c) => c.title).join(', ') ?? null,
-            servicesOffered: (business as { transactions?: string[] | null }).transactions ?? null,
-            ecoFriendly: null
-          }));
+    getAvailableSlots: publicProcedure.input(
+      z.object({
+        providerId: z.number(),
+        date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD'),
+        durationMinutes: z.number().int().min(15).max(8 * 60).optional(),
+        // Without durationMinutes, slots are as long as a booking for this service holds the provider
+        serviceType: z.string().optional(),
+        yelpBusinessId: z.string().optional()
+      })
+    ).query(async ({ input }) => {
+      const provider = await db.getProviderById(input.providerId);
+      if (!provider) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Provider not found.' });
+      }
+      const durationMinutes = input.durationMinutes ?? bookedJobMinutes(provider, input.serviceType);
+      return getProviderSlots({ provider, date: input.date, yelpBusinessId: input.yelpBusinessId, durationMinutes });
+    }),
 
-          await db.addSearchHistory({
-            userId: ctx.user?.id,
-            query: input.query,
-            latitude: String(location.latitude),
-            longitude: String(location.longitude)
-          });
+    search: publicProcedure.input(z.object({
+      query: z.string(),
+      location: z.object({ lat: z.number(), lng: z.number() }).optional(),
+      filters: providerFiltersInput.optional(),
+      sort: z.enum(PROVIDER_SORTS).default('best_match'),
+      limit: z.number().int().min(1).max(MAX_PROVIDER_PAGE_SIZE).default(DEFAULT_PROVIDER_PAGE_SIZE),
+      cursor: z.string().nullish()
+    })).query(async ({ input, ctx }) => {
+      const location = input.location ? { latitude: input.location.lat, longitude: input.location.lng } : DEFAULT_SEARCH_LOCATION;
+      const category = classifyService(input.query)?.category;
+      const [page, rankingContext] = await Promise.all([
+        federatedProviderSearch({
+          query: category ? SERVICE_TAXONOMY[category].searchTerm : input.query.trim(),
+          rawQuery: input.query,
+          category: category && SERVICE_TAXONOMY[category].yelpAliases.join(','),
+          location,
+          filters: input.filters ?? {},
+          sort: input.sort,
+          limit: input.limit,
+          cursor: input.cursor
+        }),
+        loadRankingContext(ctx.user?.id, category ?? input.query)
+      ]);
+
+      if (!input.cursor && page.results.some(result => result.source !== 'internal')) {
+        await db.addSearchHistory({
+          userId: ctx.user?.id,
+          query: input.query,
+          // Only a location the client sent: popular-nearby must not count searches placed at the default location
+          latitude: input.location ? String(input.location.lat) : null,
+          longitude: input.location ? String(input.location.lng) : null
+        });
+      }
+      // Best match is the ranking order; the other sorts only use the score for the explanation
+      const ranked = rankProviders(page.results, rankingContext).map(({ provider, score, reasons }) => ({ ...provider, score, whyChosen: reasons }));
+      return { items: sortProviderResults(ranked, input.sort), nextCursor: page.nextCursor };
+    }),
 
-          if (mapped.length > 0) {
-            return mapped;
-          }
-        } catch (error) {
-          console.error('[Provider.search] Yelp AI lookup failed, will use DB fallback', error);
-        }
+    nearby: publicProcedure.input(z.object({
+      lat: z.number().min(-90).max(90),
+      lng: z.number().min(-180).max(180),
+      radiusMiles: z.number().positive().max(MAX_SEARCH_RADIUS_MILES).optional(),
+      query: z.string().trim().min(1).optional(),
+      limit: z.number().int().min(1).max(MAX_GEO_RESULTS).optional()
+    })).query(async ({ input }) => {
+      const center = { lat: input.lat, lng: input.lng };
+      const nearby = await searchProvidersNearby({ center, radiusMiles: input.radiusMiles, query: input.query, limit: input.limit });
+      return nearby.map(({ provider, distanceMiles }) => ({ ...fromProviderRow(provider, null), distance: Number(distanceMiles.toFixed(1)) }));
+    }),
 
-        // 3) Final fallback: internal DB so UI still shows providers
-        const fallback = await db.searchProviders(normalizedQuery);
-        return fallback.map((provider) => ({ ...provider, distance: null, source: 'internal' as const, yelpId: null }));
+    inBounds: publicProcedure.input(z.object({
+      south: z.number().min(-90).max(90),
+      west: z.number().min(-180).max(180),
+      north: z.number().min(-90).max(90),
+      east: z.number().min(-180).max(180),
+      /** Distances are measured from here; defaults to the middle of the box. */
+      center: z.object({ lat: z.number(), lng: z.number() }).optional(),
+      query: z.string().trim().min(1).optional(),
+      limit: z.number().int().min(1).max(MAX_GEO_RESULTS).optional()
+    }).refine(value => value.south <= value.north, { message: 'south must not be above north' }))
+      .query(async ({ input }) => {
+        const { center, query, limit, ...bounds } = input;
+        const results = await searchProvidersInBounds({ bounds, center, query, limit });
+        return results.map(({ provider, distanceMiles }) => ({ ...fromProviderRow(provider, null), distance: Number(distanceMiles.toFixed(1)) }));
       }),
 
     getReviews: publicProcedure.input(
@@ -388,8 +346,8 @@ Keep responses concise and conversational. Use emojis sparingly for warmth.`;
           callOutFee: 0,
           distance: null,
           address: business.location?.display_address?.join(', ') ?? business.location?.address1 ?? null,
-          isAvailable: true,
-          availableIn: DEFAULT_AVAILABLE_MINUTES,
+          isAvailable: null,
+          availableIn: null,
           specialties: business.categories?.map((c) => c.title).join(', ') ?? null,
           servicesOffered: (business as { transactions?: string[] | null }).transactions ?? null,
           ecoFriendly: null,
@@ -404,89 +362,177 @@ Keep responses concise and conversational. Use emojis sparingly for warmth.`;
 
     getRecommendation: protectedProcedure.input(
       z.object({ serviceType: z.string(), userLocation: z.object({ lat: z.number(), lng: z.number() }).optional() })
-    ).query(async ({ input }) => {
-      // Get providers matching the service type
-      const allProviders = await db.searchProviders(input.serviceType);
-      if (allProviders.length === 0) {
-        return null;
-      }
-
-      // For demo, return top provider with AI-generated reasoning
-      const topProvider = allProviders[0];
-      if (!topProvider) {
+    ).query(async ({ ctx, input }) => {
+      const rows = input.userLocation
+        ? (await searchProvidersNearby({ center: input.userLocation, query: input.serviceType })).map(({ provider }) => provider)
+        : await db.searchProviders(input.serviceType);
+      const location = input.userLocation ? { latitude: input.userLocation.lat, longitude: input.userLocation.lng } : null;
+      const candidates = rows.map(provider => ({ ...fromProviderRow(provider, location), row: provider }));
+
+      const ranked = rankProviders(candidates, await loadRankingContext(ctx.user.id, resolveServiceCategory(input.serviceType) ?? input.serviceType));
+      const top = ranked[0];
+      if (!top) {
         return null;
       }
 
-      // Generate personalized reasoning
-      const reasons = generateRecommendationReasons(topProvider, input.serviceType);
-
+      const provider = top.provider.row;
+      const quote = quoteBooking({ provider, serviceType: input.serviceType, isAsap: true, jobLocation: input.userLocation });
       return {
-        provider: topProvider,
-        reasons,
-        estimatedCost: { min: topProvider.hourlyRate || 50, max: (topProvider.hourlyRate || 50) * 2 }
+        provider,
+        reasons: top.reasons,
+        score: top.score,
+        contributions: top.contributions,
+        estimatedCost: quote.estimatedCost,
+        etaMinutes: quote.etaMinutes ?? provider.availableIn ?? DEFAULT_AVAILABLE_MINUTES
       };
     })
   }),
 
   // ============ BOOKING PROCEDURES ============
   booking: router({
+    quote: publicProcedure.input(
+      z.object({
+        ...providerRefInput,
+        serviceType: z.string(),
+        isAsap: z.boolean().default(true),
+        location: coordinatesInput.optional()
+      }).refine(hasProviderRef, providerRefMessage)
+    ).query(async ({ input }) => {
+      // Public and read-only: quoting a Yelp business must not store it as a provider
+      const provider = await lookupQuotedProvider(input);
+      return quoteBooking({ provider, serviceType: input.serviceType, isAsap: input.isAsap, jobLocation: input.location });
+    }),
+
     create: protectedProcedure.input(
       z.object({
-        providerId: z.number(),
+        ...providerRefInput,
         serviceType: z.string(),
         serviceDescription: z.string().optional(),
         scheduledAt: z.string().optional(),
         isAsap: z.boolean().default(true),
         locationAddress: z.string().optional(),
+        location: coordinatesInput.optional(),
         specialInstructions: z.string().optional(),
-        estimatedCostMin: z.number().optional(),
-        estimatedCostMax: z.number().optional(),
         conversationId: z.number().optional()
-      })
+      }).refine(hasProviderRef, providerRefMessage)
     ).mutation(async ({ ctx, input }) => {
-      return db.createBooking({
+      if (input.conversationId !== undefined) {
+        await loadConversation(ctx.user, input.conversationId);
+      }
+      // A Yelp business is stored as a provider the first time it is booked
+      const provider = await resolveProvider(input);
+
+      const scheduledAt = input.scheduledAt ? new Date(input.scheduledAt) : undefined;
+      if (scheduledAt && Number.isNaN(scheduledAt.getTime())) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'scheduledAt is not a valid date.' });
+      }
+      if (!input.isAsap && !scheduledAt) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Scheduled bookings need a scheduledAt time.' });
+      }
+      if (!input.isAsap && scheduledAt && scheduledAt < new Date()) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'scheduledAt must be in the future.' });
+      }
+      const quote = quoteBooking({ provider, serviceType: input.serviceType, isAsap: input.isAsap, jobLocation: input.location });
+      const durationMinutes = bookedJobMinutes(provider, input.serviceType);
+      await assertBookable(provider, input.isAsap ? new Date() : scheduledAt ?? new Date(), durationMinutes);
+
+      const booking = await db.createBooking({
         userId: ctx.user.id,
-        providerId: input.providerId,
+        providerId: provider.id,
         serviceType: input.serviceType,
         serviceDescription: input.serviceDescription,
-        scheduledAt: input.scheduledAt ? new Date(input.scheduledAt) : undefined,
+        scheduledAt: input.isAsap ? undefined : scheduledAt,
         isAsap: input.isAsap,
+        durationMinutes,
         locationAddress: input.locationAddress,
+        locationLat: input.location ? String(input.location.lat) : undefined,
+        locationLng: input.location ? String(input.location.lng) : undefined,
         specialInstructions: input.specialInstructions,
-        estimatedCostMin: input.estimatedCostMin,
-        estimatedCostMax: input.estimatedCostMax,
+        estimatedCostMin: quote.estimatedCost.min,
+        estimatedCostMax: quote.estimatedCost.max,
+        quoteJson: quote.inputs,
         conversationId: input.conversationId,
         status: 'confirmed',
-        providerEta: Math.floor(Math.random() * 15) + 5 // 5-20 min ETA for demo
+        providerEta: input.isAsap ? quote.etaMinutes ?? provider.availableIn ?? DEFAULT_AVAILABLE_MINUTES : undefined
       });
+      if (booking) {
+        await recordBookingCreated(booking, actorFromUser(ctx.user));
+      }
+      return booking;
     }),
 
     list: protectedProcedure.query(async ({ ctx }) => {
       return db.getBookingsByUser(ctx.user.id);
     }),
 
-    get: protectedProcedure.input(z.object({ id: z.number() })).query(async ({ input }) => {
-      return db.getBookingById(input.id);
+    get: protectedProcedure.input(z.object({ id: z.number(), includeTimeline: z.boolean().default(false) })).query(async ({ ctx, input }) => {
+      const booking = await loadBooking(ctx.user, input.id);
+      return { ...booking, timeline: input.includeTimeline ? await getBookingTimeline(booking.id) : null };
     }),
 
-    updateStatus: protectedProcedure.input(
-      z.object({ id: z.number(), status: z.enum(['pending', 'confirmed', 'in_progress', 'completed', 'cancelled']) })
-    ).mutation(async ({ input }) => {
-      const updateData: Record<string, unknown> = { status: input.status };
-      if (input.status === 'in_progress') {
-        updateData.startedAt = new Date();
-      } else if (input.status === 'completed') {
-        updateData.completedAt = new Date();
+    // Same receipt as /api/receipts/:bookingId, which serves it as HTML or PDF for download.
+    getReceipt: protectedProcedure.input(z.object({ id: z.number() })).query(async ({ ctx, input }) => {
+      const booking = await loadBooking(ctx.user, input.id);
+      return buildReceipt(booking);
+    }),
+
+    previewCancellation: protectedProcedure.input(z.object({ id: z.number() })).query(async ({ ctx, input }) => {
+      const booking = await loadBooking(ctx.user, input.id);
+      return quoteCancellation(booking);
+    }),
+
+    cancel: protectedProcedure.input(
+      z.object({ id: z.number(), reason: z.string().trim().min(1).max(500), acceptedFee: z.number().min(0).optional() })
+    ).mutation(async ({ ctx, input }) => {
+      const booking = await loadBooking(ctx.user, input.id);
+      const { booking: cancelled, quote } = await cancelBooking({
+        booking,
+        actor: actorFromUser(ctx.user),
+        reason: input.reason,
+        acceptedFee: input.acceptedFee
+      });
+      await settleCancelledBooking(cancelled, quote.fee);
+      return { success: true, status: cancelled.status, fee: quote.fee, reason: cancelled.cancellationReason };
+    }),
+
+    // Customers only cancel; the provider's transitions and position are recorded by ops for any booking.
+    adminUpdateStatus: adminProcedure.input(
+      z.object({ id: z.number(), status: z.enum(BOOKING_STATUSES), reason: z.string().max(500).optional() })
+    ).mutation(async ({ ctx, input }) => {
+      if (input.status === 'cancelled') {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Use booking.cancel so the cancellation policy is applied.' });
       }
-      await db.updateBooking(input.id, updateData);
-      return { success: true };
+      const booking = await loadAnyBooking(input.id);
+      const updated = await transitionBooking({ booking, to: input.status, actor: actorFromUser(ctx.user), reason: input.reason });
+      return { success: true, status: updated.status };
     }),
 
-    updateProviderLocation: protectedProcedure.input(z.object({ id: z.number(), lat: z.string(), lng: z.string(), eta: z.number() }))
+    updateProviderLocation: adminProcedure.input(z.object({ id: z.number(), lat: z.string(), lng: z.string(), eta: z.number() }))
       .mutation(async ({ input }) => {
-        await db.updateBooking(input.id, { providerLat: input.lat, providerLng: input.lng, providerEta: input.eta });
+        const booking = await loadAnyBooking(input.id);
+        await db.updateBooking(booking.id, { providerLat: input.lat, providerLng: input.lng, providerEta: input.eta });
+        publishBookingLocation(booking.id, { lat: input.lat, lng: input.lng, eta: input.eta });
         return { success: true };
-      })
+      }),
+
+    // Streams over SSE: a snapshot of the current state first, then status and location updates until the booking is final.
+    onUpdate: protectedProcedure.input(z.object({ bookingId: z.number() })).subscription(async function*({ ctx, input, signal }) {
+      const booking = await loadBooking(ctx.user, input.bookingId);
+      const updates = subscribeToBooking(booking.id, signal);
+
+      try {
+        const current = (await db.getBookingById(booking.id)) ?? booking;
+        yield bookingSnapshot(current);
+        if (isFinalStatus(current.status)) return;
+
+        for await (const event of updates) {
+          yield event;
+          if (event.type === 'status' && isFinalStatus(event.status)) return;
+        }
+      } finally {
+        await updates.return?.();
+      }
+    })
   }),
 
   // ============ REVIEW PROCEDURES ============
@@ -497,17 +543,31 @@ Keep responses concise and conversational. Use emojis sparingly for warmth.`;
         bookingId: z.number(),
         rating: z.number().min(1).max(5),
         comment: z.string().optional(),
-        tipAmount: z.number().optional()
+        tipAmount: z.number().positive().max(MAX_TIP_DOLLARS).optional()
       })
     ).mutation(async ({ ctx, input }) => {
-      return db.createReview({
+      const booking = await loadBooking(ctx.user, input.bookingId);
+      // A tip that cannot be charged rejects the request before the review is saved; the card is only charged once the
+      // review is stored, and the review only records the tip once it went through. A retry after a failed charge
+      // reuses the review it already saved, and a tip the review records is never charged again.
+      if (input.tipAmount) {
+        await assertTippable(booking);
+      }
+      const review = await db.getReviewForBooking(booking.id, ctx.user.id) ?? await db.createReview({
         userId: ctx.user.id,
-        providerId: input.providerId,
-        bookingId: input.bookingId,
+        providerId: booking.providerId,
+        bookingId: booking.id,
         rating: input.rating,
-        comment: input.comment,
-        tipAmount: input.tipAmount
+        comment: input.comment
       });
+      if (!review) {
+        throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Review could not be saved.' });
+      }
+      if (input.tipAmount && !review.tipAmount) {
+        await tipBooking(booking, input.tipAmount);
+        await db.setReviewTip(booking.id, ctx.user.id, input.tipAmount);
+      }
+      return { ...review, tipAmount: review.tipAmount || input.tipAmount };
     })
   }),
 
@@ -535,11 +595,102 @@ Keep responses concise and conversational. Use emojis sparingly for warmth.`;
     })
   }),
 
+  // ============ PAYMENT PROCEDURES ============
+  payment: router({
+    getByBooking: protectedProcedure.input(z.object({ bookingId: z.number() })).query(async ({ ctx, input }) => {
+      const booking = await loadBooking(ctx.user, input.bookingId);
+      return getPaymentSummary(booking.id);
+    }),
+
+    authorize: protectedProcedure.input(z.object({ bookingId: z.number(), paymentMethodId: z.number() })).mutation(async ({ ctx, input }) => {
+      const booking = await loadBooking(ctx.user, input.bookingId);
+      return authorizeBookingPayment(booking, input.paymentMethodId);
+    }),
+
+    // Ops record what the job cost once it is done; `capture` then charges exactly that amount.
+    setFinalCost: adminProcedure.input(z.object({ bookingId: z.number(), finalCost: z.number().int().positive() })).mutation(async ({ input }) => {
+      const booking = await loadAnyBooking(input.bookingId);
+      return setBookingFinalCost(booking, input.finalCost);
+    }),
+
+    capture: adminProcedure.input(z.object({ bookingId: z.number() })).mutation(async ({ input }) => {
+      const booking = await loadAnyBooking(input.bookingId);
+      return captureBookingPayment(booking);
+    }),
+
+    tip: protectedProcedure.input(z.object({ bookingId: z.number(), amount: z.number().positive().max(MAX_TIP_DOLLARS), paymentMethodId: z.number().optional() }))
+      .mutation(async ({ ctx, input }) => {
+        const booking = await loadBooking(ctx.user, input.bookingId);
+        return tipBooking(booking, input.amount, input.paymentMethodId);
+      }),
+
+    // Omitting `amount` refunds everything still refundable.
+    refund: adminProcedure.input(
+      z.object({ bookingId: z.number(), amount: z.number().positive().optional(), reason: z.string().trim().min(1).max(500) })
+    ).mutation(async ({ input }) => {
+      const booking = await loadAnyBooking(input.bookingId);
+      return refundBookingPayment(booking, input.reason, input.amount);
+    })
+  }),
+
+  // ============ DISPUTE PROCEDURES ============
+  dispute: router({
+    open: protectedProcedure.input(
+      z.object({ bookingId: z.number(), reason: z.enum(DISPUTE_REASONS), description: z.string().trim().max(2000).optional() })
+    ).mutation(async ({ ctx, input }) => {
+      const booking = await loadBooking(ctx.user, input.bookingId);
+      return openDispute({ booking, userId: ctx.user.id, reason: input.reason, description: input.description });
+    }),
+
+    addEvidence: protectedProcedure.input(
+      z.object({ disputeId: z.number(), kind: z.enum(['note', 'photo', 'document', 'link']), content: z.string().trim().min(1).max(4000) })
+    ).mutation(async ({ ctx, input }) => {
+      const dispute = await loadDispute(ctx.user, input.disputeId);
+      return addEvidence({ dispute, userId: ctx.user.id, kind: input.kind, content: input.content });
+    }),
+
+    list: protectedProcedure.input(z.object({ status: z.enum(DISPUTE_STATUSES).optional() }).optional()).query(async ({ ctx, input }) => {
+      return db.listDisputes(ctx.user.id, input?.status);
+    }),
+
+    get: protectedProcedure.input(z.object({ id: z.number() })).query(async ({ ctx, input }) => {
+      const dispute = await loadDispute(ctx.user, input.id);
+      return { ...dispute, evidence: await db.getDisputeEvidence(dispute.id) };
+    }),
+
+    // Every user's disputes: the ops queue.
+    adminList: adminProcedure.input(z.object({ status: z.enum(DISPUTE_STATUSES).optional() }).optional()).query(async ({ input }) => {
+      return db.listDisputes(null, input?.status);
+    }),
+
+    adminGet: adminProcedure.input(z.object({ id: z.number() })).query(async ({ input }) => {
+      const dispute = await loadAnyDispute(input.id);
+      return { ...dispute, evidence: await db.getDisputeEvidence(dispute.id) };
+    }),
+
+    startReview: adminProcedure.input(z.object({ id: z.number() })).mutation(async ({ input }) => {
+      return startReview(await loadAnyDispute(input.id));
+    }),
+
+    resolve: adminProcedure.input(
+      z.object({
+        id: z.number(),
+        outcome: z.enum(['refund', 'credit', 'reject']),
+        amount: z.number().positive().optional(),
+        note: z.string().trim().max(1000).optional()
+      })
+    ).mutation(async ({ ctx, input }) => {
+      const dispute = await loadAnyDispute(input.id);
+      return resolveDispute({ dispute, admin: ctx.user, outcome: input.outcome, amount: input.amount, note: input.note });
+    })
+  }),
+
   // ============ FAVORITE PROVIDERS PROCEDURES ============
   favorites: router({
-    add: protectedProcedure.input(z.object({ providerId: z.number() })).mutation(async ({ ctx, input }) => {
-      await db.addFavoriteProvider(ctx.user.id, input.providerId);
-      return { success: true };
+    add: protectedProcedure.input(z.object(providerRefInput).refine(hasProviderRef, providerRefMessage)).mutation(async ({ ctx, input }) => {
+      const provider = await resolveProvider(input);
+      await db.addFavoriteProvider(ctx.user.id, provider.id);
+      return { success: true, providerId: provider.id };
     }),
 
     remove: protectedProcedure.input(z.object({ providerId: z.number() })).mutation(async ({ ctx, input }) => {
@@ -565,61 +716,4 @@ Keep responses concise and conversational. Use emojis sparingly for warmth.`;
   })
 });
 
-// Helper function to detect service type from user message
-function detectServiceType(message: string): string {
-  const lowerMessage = message.toLowerCase();
-  const serviceKeywords: Record<string, string[]> = {
-    plumber: ['plumb', 'pipe', 'leak', 'drain', 'faucet', 'toilet', 'water'],
-    electrician: ['electric', 'wiring', 'outlet', 'power', 'light', 'circuit'],
-    carwash: ['car wash', 'wash my car', 'auto detail', 'detailing'],
-    restaurant: ['restaurant', 'food', 'eat', 'dinner', 'lunch', 'sushi', 'italian'],
-    haircut: ['hair', 'haircut', 'salon', 'barber', 'style'],
-    cleaning: ['clean', 'maid', 'housekeep'],
-    handyman: ['handyman', 'fix', 'repair', 'broken']
-  };
-
-  for (const [service, keywords] of Object.entries(serviceKeywords)) {
-    if (keywords.some(kw => lowerMessage.includes(kw))) {
-      return service;
-    }
-  }
-  return 'general';
-}
-
-// Helper function to generate recommendation reasons
-function generateRecommendationReasons(provider: any, serviceType: string): string[] {
-  const reasons: string[] = [];
-
-  if (provider.rating) {
-    reasons.push(`Highest-rated ${serviceType} provider within 5 miles with ${(provider.rating / 10).toFixed(1)} stars`);
-  }
-
-  if (provider.isAvailable) {
-    reasons.push(`Available now with ${provider.availableIn || 5}-minute ETA`);
-  }
-
-  if (provider.specialties) {
-    reasons.push(`Specializes in ${provider.specialties}`);
-  }
-
-  if (provider.reviewCount) {
-    reasons.push(`${provider.reviewCount} verified reviews averaging ${(provider.rating / 10).toFixed(1)} stars`);
-  }
-
-  if (provider.callOutFee === 0) {
-    reasons.push('No call-out fee for your area');
-  }
-
-  if (provider.ecoFriendly) {
-    reasons.push('Eco-friendly products and practices');
-  }
-
-  // Ensure we have at least 3 reasons
-  if (reasons.length < 3) {
-    reasons.push('Highly recommended by local customers');
-  }
-
-  return reasons.slice(0, 5);
-}
-
 export type AppRouter = typeof appRouter;
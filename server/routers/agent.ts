@@ -1,12 +1,32 @@
 // file: server/routers/agent.ts
 // description: TRPC router for AI Agent interactions (Help & Settings)
-// reference: server/_core/trpc.ts
+// reference: server/_core/trpc.ts, server/mastra/agents/helpAgent.ts, server/mastra/agents/settingsAgent.ts
 
-import { router, publicProcedure } from '../_core/trpc';
+import { type NotificationChannel, type NotificationPreferenceChange, type NotificationTopic } from '@shared/notifications';
+import { RuntimeContext } from '@mastra/core/runtime-context';
+import { TRPCError } from '@trpc/server';
 import { z } from 'zod';
+import { logger } from '../_core/logger';
+import { router, publicProcedure } from '../_core/trpc';
+import { helpAgent, parseAgentState, type AgentState } from '../mastra/agents/helpAgent';
+import { settingsAgent } from '../mastra/agents/settingsAgent';
+import { hasAgentLanguageModel } from '../mastra/model';
+import { ACCOUNT_USER_ID_KEY, type AccountRuntimeContext } from '../mastra/tools/accountContext';
+import { updateNotificationSettings } from '../mastra/tools/updateSettingsTool';
 
 const history_schema = z.array(z.object({ role: z.enum(['user', 'assistant', 'system']), content: z.string() })).optional();
 
+type ChatHistory = z.infer<typeof history_schema>;
+
+/** Most recent history messages passed to the agent. */
+const MAX_HISTORY_MESSAGES = 20;
+/** Model round trips per turn, enough for a couple of account lookups before the answer. */
+const MAX_AGENT_STEPS = 5;
+
+export type AgentToolCall = { toolName: string, args: unknown, result: unknown };
+
+export type AgentChatResponse = { text: string, toolCalls: AgentToolCall[], agentState?: AgentState | null };
+
 function build_help_response(message: string): string {
   const normalized = message.toLowerCase();
 
@@ -18,17 +38,128 @@ function build_help_response(message: string): string {
   return 'Tell me what you need help with (billing, bookings, provider issues, or account/login) and I will guide you to the right place in the app.';
 }
 
-function build_settings_response(message: string): string {
-  const normalized = message.toLowerCase();
+const SETTINGS_TOPIC_PATTERNS: Array<[NotificationTopic, RegExp]> = [
+  ['promotions', /promo|offer|deal|marketing/],
+  ['bookingUpdates', /booking|status/],
+  ['providerMessages', /provider|message|chat/],
+  ['reminders', /remind/]
+];
+
+const SETTINGS_CHANNEL_PATTERNS: Array<[NotificationChannel, RegExp]> = [
+  ['email', /e-?mail/],
+  ['push', /push/],
+  ['sms', /\bsms\b|\btexts?\b/]
+];
+
+/**
+ * Keyword fallback for the settings agent: "turn off promotions", "stop emailing me", "text me booking updates".
+ * Returns the preference changes the message asks for, or an empty list when it names no direction (on/off).
+ */
+function parse_settings_request(message: string): NotificationPreferenceChange[] {
+  const normalized = message.toLowerCase().replace(/\btext messages?\b/g, 'sms');
+  const enabled = /\b(off|disable|stop|unsubscribe|mute|no more|don't|do not)\b/.test(normalized)
+    ? false
+    : /\b(on|enable|start|resume|send|notify)\b|\b(email|text) me\b/.test(normalized) ? true : null;
+  if (enabled === null) return [];
+
+  const topics = SETTINGS_TOPIC_PATTERNS.filter(([, pattern]) => pattern.test(normalized)).map(([topic]) => topic);
+  const channels = SETTINGS_CHANNEL_PATTERNS.filter(([, pattern]) => pattern.test(normalized)).map(([channel]) => channel);
+  if (topics.length === 0 && channels.length === 0) return [];
+
+  return (topics.length ? topics : [undefined]).flatMap(topic =>
+    (channels.length ? channels : [undefined]).map(channel => ({ topic, channel, enabled }))
+  );
+}
+
+/** Applies the keyword-parsed changes through the settings tool and reports the stored state back. */
+async function build_settings_response(message: string, userId: number | null): Promise<AgentChatResponse> {
+  const changes = parse_settings_request(message);
+  const result = await updateNotificationSettings(userId, changes);
+  const toolCalls = [{ toolName: 'updateSettingsTool', args: { changes }, result }];
+  const current = result.summary.join('\n');
 
-  if (normalized.includes('promotion') && (normalized.includes('off') || normalized.includes('disable') || normalized.includes('stop'))) {
-    return 'Done — promotions have been turned off.';
+  if (!result.signedIn) return { text: 'Sign in to change your notification settings.', toolCalls };
+  if (changes.length === 0) {
+    return {
+      text: `Your notification settings:\n${current}\nTell me which topic (booking updates, provider messages, promotions, reminders) or channel (email, push, SMS) to turn on or off.`,
+      toolCalls
+    };
   }
-  if (normalized.includes('promotion') && (normalized.includes('on') || normalized.includes('enable') || normalized.includes('start'))) {
-    return 'Done — promotions have been turned on.';
+  if (!result.saved) return { text: `I couldn't save that change right now. Your settings are still:\n${current}`, toolCalls };
+  return { text: `Done — your notification settings are now:\n${current}`, toolCalls };
+}
+
+/**
+ * Conversation for the agent: the client's history (user and assistant turns only, so a client cannot inject system
+ * instructions) followed by the new message.
+ */
+function build_agent_messages(message: string, history: ChatHistory): Array<{ role: 'user' | 'assistant', content: string }> {
+  const turns = (history ?? [])
+    .filter((entry): entry is { role: 'user' | 'assistant', content: string } => entry.role !== 'system')
+    .slice(-MAX_HISTORY_MESSAGES);
+  return [...turns, { role: 'user', content: message }];
+}
+
+/**
+ * Runs `agent` for one turn with `maxSteps` tool round trips. Account tools see the signed-in user through the runtime
+ * context; anonymous chats get no user and the tools report `signedIn: false`.
+ */
+async function generate_with_tools(
+  agent: typeof helpAgent | typeof settingsAgent,
+  message: string,
+  history: ChatHistory,
+  userId: number | null
+): Promise<{ text: string, toolCalls: AgentToolCall[] }> {
+  const runtimeContext = new RuntimeContext<AccountRuntimeContext>();
+  if (userId !== null) runtimeContext.set(ACCOUNT_USER_ID_KEY, userId);
+
+  logger.agent.invoke(agent.name, { userId, historyLength: history?.length ?? 0 });
+  const messages = build_agent_messages(message, history) as Parameters<typeof agent.generate>[0];
+  const output = await agent.generate(messages, { runtimeContext, maxSteps: MAX_AGENT_STEPS });
+
+  const results = new Map(output.toolResults.map(chunk => [chunk.payload.toolCallId, chunk.payload.result]));
+  const toolCalls = output.toolCalls.map(chunk => {
+    const { __mastraMetadata: _metadata, ...args } = chunk.payload.args ?? {};
+    return { toolName: chunk.payload.toolName, args, result: results.get(chunk.payload.toolCallId) ?? null };
+  });
+  logger.agent.response(agent.name, { userId, toolCalls: toolCalls.map(call => call.toolName) });
+  return { text: output.text, toolCalls };
+}
+
+/**
+ * Support chat through the HelpAgent, on the stub model when LLM_BACKEND=stub. Falls back to the keyword responder
+ * only when the agents' backend has no API key; a failing agent is reported to the client as an error rather than
+ * answered with canned text.
+ */
+async function run_help_agent(message: string, history: ChatHistory, userId: number | null): Promise<AgentChatResponse> {
+  if (!hasAgentLanguageModel()) return { text: build_help_response(message), toolCalls: [] };
+
+  try {
+    const { text, toolCalls } = await generate_with_tools(helpAgent, message, history, userId);
+    const { state, cleanText } = parseAgentState(text);
+    return { text: cleanText || build_help_response(message), toolCalls, agentState: state };
+  } catch (error) {
+    logger.agent.error(helpAgent.name, error);
+    throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'The help assistant is unavailable right now. Please try again.', cause: error });
   }
+}
+
+/**
+ * Notification settings chat through the SettingsAgent, which stores changes with updateSettingsTool. Falls back to
+ * the keyword parser (which stores changes through the same tool) only when the agents have no language model or the
+ * agent answered without text or tool calls. A failing agent is reported as an error: its tool calls may already have
+ * stored changes, which the parser must not overwrite with its own reading of the message.
+ */
+async function run_settings_agent(message: string, history: ChatHistory, userId: number | null): Promise<AgentChatResponse> {
+  if (!hasAgentLanguageModel()) return build_settings_response(message, userId);
 
-  return 'Done — your notification settings request was received. If you tell me which toggle (booking updates, provider messages, promotions, reminders) and whether on/off, I can confirm the exact change.';
+  try {
+    const { text, toolCalls } = await generate_with_tools(settingsAgent, message, history, userId);
+    return text || toolCalls.length > 0 ? { text, toolCalls } : build_settings_response(message, userId);
+  } catch (error) {
+    logger.agent.error(settingsAgent.name, error);
+    throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'The settings assistant is unavailable right now. Please try again.', cause: error });
+  }
 }
 
 export const agentRouter = router({
@@ -37,8 +168,8 @@ export const agentRouter = router({
       message: z.string(),
       history: history_schema
     }))
-    .mutation(async ({ input }) => {
-      return { text: build_help_response(input.message), toolCalls: [] };
+    .mutation(async ({ ctx, input }): Promise<AgentChatResponse> => {
+      return run_help_agent(input.message, input.history, ctx.user?.id ?? null);
     }),
 
   chatSettings: publicProcedure
@@ -46,8 +177,8 @@ export const agentRouter = router({
       message: z.string(),
       history: history_schema
     }))
-    .mutation(async ({ input }) => {
-      return { text: build_settings_response(input.message), toolCalls: [] };
+    .mutation(async ({ ctx, input }): Promise<AgentChatResponse> => {
+      return run_settings_agent(input.message, input.history, ctx.user?.id ?? null);
     }),
 });
 
@@ -0,0 +1,237 @@
+// file: server/services/assistant_chat.ts
+// description: Assistant replies in conversations: prompt, message persistence and the streamed reply behind conversation.streamMessage
+// reference: server/_core/llm.ts, server/db.ts, server/routers.ts
+
+import {
+  MAX_RECOMMENDED_PROVIDERS,
+  MESSAGE_METADATA_VERSION,
+  type MessageMetadata,
+  readMessageMetadata,
+  type RecommendedProvider,
+  splitClarification,
+  type StatusMetadata
+} from '@shared/messageMetadata';
+import { classifyService, SERVICE_TAXONOMY } from '@shared/taxonomy';
+import { tracked, type TrackedEnvelope } from '@trpc/server';
+import { EventEmitter, once } from 'node:events';
+import { type Message as ChatMessage } from '../../drizzle/schema';
+import { type Message as LLMMessage, streamLLM, type StreamChunk } from '../_core/llm';
+import { type YelpBusiness } from '../_core/yelp_ai_types';
+import * as db from '../db';
+
+const METERS_PER_MILE = 1609.344;
+const TITLE_LENGTH = 50;
+const EMPTY_REPLY = "I'm sorry, I couldn't process that request. Could you try again?";
+/** How long a finished reply stays available to clients reconnecting to it. */
+const REPLY_RETENTION_MS = 5 * 60 * 1000;
+
+export const ASSISTANT_SYSTEM_PROMPT =
+  `You are YUBER, an AI agent for local services. You help users find and book local service providers like plumbers, electricians, car washes, restaurants, hair salons, etc.
+
+Your personality is helpful, efficient, and friendly. You understand natural language requests and help match users with the best service providers.
+
+When a user asks for a service:
+1. Understand their need clearly
+2. Ask clarifying questions if needed (e.g., "Are you looking for emergency service or can it wait?"). End with the question on its own line, followed by the choices as a short bulleted list when there are any
+3. When ready to search, indicate you're searching for providers
+4. Recommend the best match with clear reasoning
+
+Keep responses concise and conversational. Use emojis sparingly for warmth.`;
+
+export type AssistantStatusEvent = { type: 'status' } & Pick<StatusMetadata, 'stage' | 'message' | 'progress'>;
+export type AssistantDeltaEvent = { type: 'delta', text: string };
+export type AssistantProvidersEvent = { type: 'providers', providers: RecommendedProvider[] };
+export type AssistantDoneEvent = { type: 'done', message: ChatMessage | null };
+export type AssistantStreamEvent = AssistantStatusEvent | AssistantDeltaEvent | AssistantProvidersEvent | AssistantDoneEvent;
+
+function distanceMiles(business: YelpBusiness): number | null {
+  return business.distance === undefined ? null : Math.round((business.distance / METERS_PER_MILE) * 10) / 10;
+}
+
+/** The Yelp businesses behind a reply, in Yelp's order, each with why it made the list. */
+export function recommendProviders(businesses: YelpBusiness[]): RecommendedProvider[] {
+  const shown = businesses.slice(0, MAX_RECOMMENDED_PROVIDERS);
+  const topRating = Math.max(...shown.map(business => business.rating));
+  const distances = shown.map(distanceMiles).filter((distance): distance is number => distance !== null);
+  const closest = distances.length > 1 ? Math.min(...distances) : null;
+
+  return shown.map((business, index) => {
+    const { address1, city } = business.location;
+    const distance = distanceMiles(business);
+    const reason = [
+      index === 0 ? 'Best match' : null,
+      shown.length > 1 && business.rating === topRating ? 'Highest rated' : null,
+      distance !== null && distance === closest ? 'Closest' : null,
+      `${business.rating}★ from ${business.review_count} reviews`,
+      distance === null ? null : `${distance} mi away`
+    ].filter(Boolean).join(' · ');
+
+    return {
+      yelpBusinessId: business.id,
+      name: business.name,
+      rating: business.rating,
+      reviewCount: business.review_count,
+      price: business.price ?? null,
+      categories: (business.categories ?? []).map(category => category.title),
+      address: [address1, city].filter(Boolean).join(', ') || null,
+      distanceMiles: distance,
+      imageUrl: business.image_url,
+      url: business.url,
+      reason
+    };
+  });
+}
+
+/** Replies that came with businesses are recommendations; replies ending in a question are clarifications. */
+export function assistantReplyMetadata(text: string, businesses: YelpBusiness[]): MessageMetadata | null {
+  if (businesses.length > 0) {
+    return { version: MESSAGE_METADATA_VERSION, kind: 'recommendation', providers: recommendProviders(businesses) };
+  }
+  const { question, options } = splitClarification(text);
+  return question ? { version: MESSAGE_METADATA_VERSION, kind: 'clarification', question, options } : null;
+}
+
+/**
+ * Saves the user's message and returns the prompt for the reply (system prompt plus the conversation so far). The
+ * first message also names the conversation and sets its service type.
+ */
+export async function recordUserMessage(conversationId: number, content: string): Promise<LLMMessage[]> {
+  await db.addMessage({ conversationId, role: 'user', content });
+  const history = await db.getMessagesByConversation(conversationId);
+
+  if (history.length <= 1) {
+    const title = content.slice(0, TITLE_LENGTH) + (content.length > TITLE_LENGTH ? '...' : '');
+    await db.updateConversation(conversationId, { title, serviceType: classifyService(content)?.category ?? 'general' });
+  }
+
+  return [{ role: 'system', content: ASSISTANT_SYSTEM_PROMPT }, ...history.map(m => ({ role: m.role, content: m.content }))];
+}
+
+/**
+ * Saves the reply with its metadata (see `assistantReplyMetadata`). Metadata that fails validation (e.g. a business
+ * Yelp sent without a rating) is dropped and the reply saved as plain text, so the reply itself is never lost.
+ */
+export async function saveAssistantReply(conversationId: number, text: string, businesses: YelpBusiness[] = []): Promise<ChatMessage | undefined> {
+  const content = text.trim() ? text : EMPTY_REPLY;
+  const metadata = assistantReplyMetadata(content, businesses);
+  const valid = readMessageMetadata(metadata);
+  if (metadata && !valid) {
+    console.warn(`[AssistantChat] Invalid ${metadata.kind} metadata; saving the reply as plain text`);
+  }
+  return db.addMessage({ conversationId, role: 'assistant', content, metadata: valid });
+}
+
+/**
+ * Streams the assistant's reply to `content`: status updates while waiting, text deltas, recommended providers, then
+ * `done` with the saved message and its metadata. The reply is saved however the stream ends: when the client goes away mid-reply the rest of
+ * the reply is still read and saved, and when the model fails part-way the text so far is saved before the error
+ * propagates.
+ */
+export async function* streamAssistantReply({ conversationId, content, location }: {
+  conversationId: number,
+  content: string,
+  location?: { latitude: number, longitude: number } | undefined
+}): AsyncGenerator<AssistantStreamEvent> {
+  const messages = await recordUserMessage(conversationId, content);
+  yield { type: 'status', stage: 'thinking', message: 'Thinking…', progress: 0.1 };
+
+  const classification = classifyService(content);
+  if (classification) {
+    yield { type: 'status', stage: 'searching', message: `Checking nearby ${SERVICE_TAXONOMY[classification.category].label.toLowerCase()} listings…`, progress: 0.4 };
+  }
+
+  // Iterated by hand rather than with for-await, which would close the model stream when the client leaves
+  const chunks = streamLLM({ messages, conversationId, ...(location ? { location } : {}) });
+  let text = '';
+  let businesses: YelpBusiness[] = [];
+  let saved = false;
+  const read = (chunk: StreamChunk): AssistantDeltaEvent | AssistantProvidersEvent => {
+    if (chunk.type === 'businesses') {
+      businesses = chunk.businesses;
+      return { type: 'providers', providers: recommendProviders(businesses) };
+    }
+    text += chunk.text;
+    return { type: 'delta', text: chunk.text };
+  };
+
+  try {
+    for (let next = await chunks.next(); !next.done; next = await chunks.next()) {
+      yield read(next.value);
+    }
+    const message = await saveAssistantReply(conversationId, text, businesses);
+    saved = true;
+    yield { type: 'done', message: message ?? null };
+  } finally {
+    if (!saved) {
+      try {
+        for (let next = await chunks.next(); !next.done; next = await chunks.next()) read(next.value);
+      } catch (error) {
+        console.warn('[AssistantChat] Reply ended early:', error instanceof Error ? error.message : error);
+      }
+      if (text.trim()) await saveAssistantReply(conversationId, text, businesses);
+    }
+  }
+}
+
+type ReplyRun = { events: AssistantStreamEvent[], finished: boolean, error: unknown };
+
+/**
+ * Replies being streamed or recently finished, by conversation and the client's message id. Single-process, like
+ * booking_live: a reconnect to another server instance starts the reply again.
+ */
+const replyRuns = new Map<string, ReplyRun>();
+const replyUpdates = new EventEmitter();
+replyUpdates.setMaxListeners(0);
+
+function startReply(key: string, params: Parameters<typeof streamAssistantReply>[0]): ReplyRun {
+  const run: ReplyRun = { events: [], finished: false, error: undefined };
+  replyRuns.set(key, run);
+
+  void (async () => {
+    try {
+      for await (const event of streamAssistantReply(params)) {
+        run.events.push(event);
+        replyUpdates.emit(key);
+      }
+    } catch (error) {
+      run.error = error;
+    } finally {
+      run.finished = true;
+      replyUpdates.emit(key);
+      setTimeout(() => replyRuns.delete(key), REPLY_RETENTION_MS).unref();
+    }
+  })();
+  return run;
+}
+
+/**
+ * `streamAssistantReply` for a subscription that may reconnect. Events are tracked by their index, and the reply runs
+ * once per `clientMessageId`: a resubscription with the same id (an SSE reconnect sends the same input plus
+ * `lastEventId`) follows the reply already under way from after the last event it saw, without recording the message
+ * or calling the model again.
+ */
+export async function* followAssistantReply({ clientMessageId, lastEventId, signal, ...params }: Parameters<typeof streamAssistantReply>[0] & {
+  clientMessageId: string,
+  lastEventId?: string | null | undefined,
+  signal?: AbortSignal | undefined
+}): AsyncGenerator<TrackedEnvelope<AssistantStreamEvent>> {
+  const key = `${params.conversationId}:${clientMessageId}`;
+  const run = replyRuns.get(key) ?? startReply(key, params);
+
+  for (let index = lastEventId ? Number(lastEventId) + 1 : 0; ;) {
+    for (; index < run.events.length; index++) {
+      yield tracked(String(index), run.events[index]!);
+    }
+    if (run.finished) {
+      if (run.error) throw run.error;
+      return;
+    }
+    try {
+      await once(replyUpdates, key, signal ? { signal } : {});
+    } catch (error) {
+      // The client went away; the reply carries on and is saved without it
+      if (signal?.aborted) return;
+      throw error;
+    }
+  }
+}
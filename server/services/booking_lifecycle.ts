@@ -0,0 +1,116 @@
+// file: server/services/booking_lifecycle.ts
+// description: Booking state machine enforcing allowed status transitions and recording each one as a booking event
+// reference: drizzle/schema.ts, server/db.ts, server/routers.ts
+
+import { TRPCError } from '@trpc/server';
+import { type Booking, type BookingEvent, type InsertBooking, type User } from '../../drizzle/schema';
+import * as db from '../db';
+import { publishBookingStatus } from './booking_live';
+
+export type BookingStatus = Booking['status'];
+export type BookingActor = { id: number | null, role: BookingEvent['actorRole'] };
+
+export const SYSTEM_ACTOR: BookingActor = { id: null, role: 'system' };
+
+/**
+ * Allowed next states per status. `completed` and `cancelled` are terminal.
+ */
+export const BOOKING_TRANSITIONS: Record<BookingStatus, readonly BookingStatus[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['in_progress', 'cancelled'],
+  in_progress: ['completed', 'cancelled'],
+  completed: [],
+  cancelled: []
+};
+
+export function actorFromUser(user: Pick<User, 'id' | 'role'>): BookingActor {
+  return { id: user.id, role: user.role };
+}
+
+export function getAllowedTransitions(from: BookingStatus): readonly BookingStatus[] {
+  return BOOKING_TRANSITIONS[from];
+}
+
+export function canTransition(from: BookingStatus, to: BookingStatus): boolean {
+  return BOOKING_TRANSITIONS[from].includes(to);
+}
+
+export function isFinalStatus(status: BookingStatus): boolean {
+  return BOOKING_TRANSITIONS[status].length === 0;
+}
+
+export function assertTransition(from: BookingStatus, to: BookingStatus): void {
+  if (canTransition(from, to)) return;
+
+  const allowed = BOOKING_TRANSITIONS[from];
+  const hint = allowed.length ? `allowed: ${allowed.join(', ')}` : `${from} is final`;
+  throw new TRPCError({ code: 'CONFLICT', message: `Cannot move booking from ${from} to ${to} (${hint}).` });
+}
+
+/**
+ * Timestamps stamped onto the booking row when it enters a given state.
+ */
+function timestampsFor(to: BookingStatus, now: Date): Partial<InsertBooking> {
+  if (to === 'in_progress') return { startedAt: now };
+  if (to === 'completed') return { completedAt: now };
+  return {};
+}
+
+type TransitionParams = {
+  booking: Booking,
+  to: BookingStatus,
+  actor: BookingActor,
+  reason?: string | undefined,
+  patch?: Partial<InsertBooking>
+};
+
+/**
+ * Moves a booking to `to`, rejecting illegal transitions, appends the change to `bookingEvents` and publishes it to
+ * live subscribers.
+ * `patch` lets callers persist extra columns (e.g. cancellation details) atomically with the status change.
+ */
+export async function transitionBooking({ booking, to, actor, reason, patch }: TransitionParams): Promise<Booking> {
+  assertTransition(booking.status, to);
+
+  const now = new Date();
+  const applied = await db.updateBookingStatus(booking.id, booking.status, { ...patch, ...timestampsFor(to, now), status: to });
+  if (!applied) {
+    throw new TRPCError({ code: 'CONFLICT', message: 'Booking status changed concurrently; reload and try again.' });
+  }
+
+  await db.addBookingEvent({
+    bookingId: booking.id,
+    actorId: actor.id,
+    actorRole: actor.role,
+    fromStatus: booking.status,
+    toStatus: to,
+    reason: reason ?? null,
+    createdAt: now
+  });
+
+  const updated = await db.getBookingById(booking.id);
+  if (!updated) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Booking not found.' });
+  }
+  publishBookingStatus(updated, booking.status);
+  return updated;
+}
+
+/**
+ * Records the initial state of a freshly created booking so the timeline starts at creation.
+ */
+export async function recordBookingCreated(booking: Booking, actor: BookingActor): Promise<void> {
+  await db.addBookingEvent({
+    bookingId: booking.id,
+    actorId: actor.id,
+    actorRole: actor.role,
+    fromStatus: null,
+    toStatus: booking.status,
+    reason: 'created',
+    createdAt: booking.createdAt
+  });
+}
+
+export async function getBookingTimeline(bookingId: number): Promise<BookingEvent[]> {
+  return db.getBookingEventsByBooking(bookingId);
+}
@@ -0,0 +1,74 @@
+// file: server/services/booking_live.ts
+// description: In-process pub/sub for live booking updates (status changes, provider position/ETA) keyed by booking id
+// reference: server/services/booking_lifecycle.ts, server/routers.ts
+
+import { EventEmitter, on } from 'node:events';
+import { type Booking } from '../../drizzle/schema';
+
+type BookingPosition = { lat: string | null, lng: string | null, eta: number | null };
+
+export type BookingSnapshotEvent = { type: 'snapshot', bookingId: number, status: Booking['status'], at: string } & BookingPosition;
+export type BookingStatusEvent = { type: 'status', bookingId: number, status: Booking['status'], previousStatus: Booking['status'], at: string };
+export type BookingLocationEvent = { type: 'location', bookingId: number, at: string } & BookingPosition;
+export type BookingUpdateEvent = BookingStatusEvent | BookingLocationEvent;
+export type BookingLiveEvent = BookingSnapshotEvent | BookingUpdateEvent;
+
+/**
+ * Single-process bus: subscribers only see updates published by the same server instance.
+ */
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+const channel = (bookingId: number) => `booking:${bookingId}`;
+
+function publish(event: BookingUpdateEvent): void {
+  emitter.emit(channel(event.bookingId), event);
+}
+
+export function publishBookingStatus(booking: Booking, previousStatus: Booking['status']): void {
+  publish({ type: 'status', bookingId: booking.id, status: booking.status, previousStatus, at: new Date().toISOString() });
+}
+
+export function publishBookingLocation(bookingId: number, position: BookingPosition): void {
+  publish({ type: 'location', bookingId, ...position, at: new Date().toISOString() });
+}
+
+export function bookingSnapshot(booking: Booking): BookingSnapshotEvent {
+  return {
+    type: 'snapshot',
+    bookingId: booking.id,
+    status: booking.status,
+    lat: booking.providerLat,
+    lng: booking.providerLng,
+    eta: booking.providerEta,
+    at: new Date().toISOString()
+  };
+}
+
+/**
+ * Starts listening immediately (not on first `next()`), so callers can subscribe before reading the current booking
+ * state without missing updates published in between. Callers must `return()` the iterator (a `for await` loop that
+ * exits does) to detach; it also ends quietly when `signal` aborts.
+ */
+export function subscribeToBooking(bookingId: number, signal?: AbortSignal): AsyncIterableIterator<BookingUpdateEvent> {
+  const events = on(emitter, channel(bookingId), signal ? { signal } : {});
+
+  return {
+    [Symbol.asyncIterator]() {
+      return this;
+    },
+    async next() {
+      try {
+        const result = await events.next();
+        return result.done ? { done: true, value: undefined } : { done: false, value: result.value[0] as BookingUpdateEvent };
+      } catch (error) {
+        if (signal?.aborted) return { done: true, value: undefined };
+        throw error;
+      }
+    },
+    async return() {
+      await events.return?.();
+      return { done: true, value: undefined };
+    }
+  };
+}
@@ -0,0 +1,138 @@
+// file: server/services/cancellation_policy.ts
+// description: Per-category cancellation policy (free window, post-dispatch fee, no-cancel once started) and booking cancellation
+// reference: server/services/booking_lifecycle.ts, drizzle/schema.ts, server/routers.ts
+
+import { resolveServiceCategory, type ServiceCategory } from '@shared/taxonomy';
+import { TRPCError } from '@trpc/server';
+import { type Booking } from '../../drizzle/schema';
+import * as db from '../db';
+import { type BookingActor, getBookingTimeline, transitionBooking } from './booking_lifecycle';
+
+export type CancellationFee = { kind: 'flat', amount: number } | { kind: 'percent', percent: number, minimum: number };
+
+export type CancellationPolicy = {
+  /** Minutes after confirmation during which the provider is not yet dispatched and cancelling is free. */
+  freeWindowMinutes: number,
+  /** Charged once the free window has passed (the provider is considered dispatched). */
+  fee: CancellationFee
+};
+
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = { freeWindowMinutes: 5, fee: { kind: 'flat', amount: 15 } };
+
+/**
+ * Policies keyed by category slug. Trades that roll a truck charge a call-out style fee; quick services use a percentage.
+ */
+export const CANCELLATION_POLICIES: Record<ServiceCategory, CancellationPolicy> = {
+  plumbing: { freeWindowMinutes: 5, fee: { kind: 'flat', amount: 35 } },
+  electrician: { freeWindowMinutes: 5, fee: { kind: 'flat', amount: 35 } },
+  locksmith: { freeWindowMinutes: 5, fee: { kind: 'flat', amount: 35 } },
+  glass: { freeWindowMinutes: 10, fee: { kind: 'flat', amount: 25 } },
+  handyman: { freeWindowMinutes: 10, fee: { kind: 'flat', amount: 25 } },
+  homecleaning: { freeWindowMinutes: 30, fee: { kind: 'percent', percent: 20, minimum: 15 } },
+  carwash: { freeWindowMinutes: 10, fee: { kind: 'percent', percent: 25, minimum: 10 } },
+  hair: { freeWindowMinutes: 60, fee: { kind: 'percent', percent: 50, minimum: 10 } },
+  restaurants: { freeWindowMinutes: 15, fee: { kind: 'flat', amount: 0 } }
+};
+
+/**
+ * Resolves a free-text category ("Plumbing", "Hair Salon", "Car Wash") to its policy.
+ */
+export function getCancellationPolicy(category: string | null | undefined): { category: ServiceCategory | null, policy: CancellationPolicy } {
+  const match = resolveServiceCategory(category);
+  return { category: match, policy: match ? CANCELLATION_POLICIES[match] : DEFAULT_CANCELLATION_POLICY };
+}
+
+export type CancellationPhase = 'free' | 'fee' | 'not_allowed';
+
+export type CancellationQuote = {
+  bookingId: number,
+  phase: CancellationPhase,
+  allowed: boolean,
+  fee: number,
+  freeUntil: Date | null,
+  category: ServiceCategory | null,
+  policy: CancellationPolicy,
+  message: string
+};
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+function feeAmount(fee: CancellationFee, booking: Booking): number {
+  if (fee.kind === 'flat') return fee.amount;
+  const base = booking.estimatedCostMin ?? booking.estimatedCostMax ?? 0;
+  return roundCents(Math.max(fee.minimum, (base * fee.percent) / 100));
+}
+
+/**
+ * When the booking was last confirmed; bookings created directly as `confirmed` fall back to their creation time.
+ */
+async function confirmedAt(booking: Booking): Promise<Date> {
+  const events = await getBookingTimeline(booking.id);
+  const confirmation = events.filter(event => event.toStatus === 'confirmed').at(-1);
+  return confirmation?.createdAt ?? booking.createdAt;
+}
+
+/**
+ * Evaluates the policy for `booking` at `now` without changing anything.
+ */
+export async function quoteCancellation(booking: Booking, now = new Date()): Promise<CancellationQuote> {
+  const provider = await db.getProviderById(booking.providerId);
+  const { category, policy } = getCancellationPolicy(provider?.category ?? booking.serviceType);
+  const base = { bookingId: booking.id, category, policy };
+
+  if (booking.status === 'completed' || booking.status === 'cancelled') {
+    return { ...base, phase: 'not_allowed', allowed: false, fee: 0, freeUntil: null, message: `This booking is already ${booking.status}.` };
+  }
+  if (booking.status === 'in_progress') {
+    return { ...base, phase: 'not_allowed', allowed: false, fee: 0, freeUntil: null, message: 'Work has started; this booking can no longer be cancelled.' };
+  }
+  if (booking.status === 'pending') {
+    return { ...base, phase: 'free', allowed: true, fee: 0, freeUntil: null, message: 'Free cancellation until the provider confirms.' };
+  }
+
+  const freeUntil = new Date((await confirmedAt(booking)).getTime() + policy.freeWindowMinutes * 60_000);
+  if (now <= freeUntil) {
+    return { ...base, phase: 'free', allowed: true, fee: 0, freeUntil, message: 'Free cancellation: the provider has not been dispatched yet.' };
+  }
+
+  const fee = feeAmount(policy.fee, booking);
+  return {
+    ...base,
+    phase: 'fee',
+    allowed: true,
+    fee,
+    freeUntil,
+    message: fee > 0 ? `The provider is on the way; a $${fee.toFixed(2)} cancellation fee applies.` : 'The provider is on the way.'
+  };
+}
+
+type CancelParams = {
+  booking: Booking,
+  actor: BookingActor,
+  reason: string,
+  /** Fee the user agreed to in the preview; cancelling fails if the fee has since gone up. */
+  acceptedFee?: number | undefined
+};
+
+/**
+ * Cancels a booking under its category policy, recording the reason and fee on the booking and in its timeline.
+ */
+export async function cancelBooking({ booking, actor, reason, acceptedFee }: CancelParams): Promise<{ booking: Booking, quote: CancellationQuote }> {
+  const now = new Date();
+  const quote = await quoteCancellation(booking, now);
+  if (!quote.allowed) {
+    throw new TRPCError({ code: 'CONFLICT', message: quote.message });
+  }
+  if (acceptedFee !== undefined && quote.fee > acceptedFee) {
+    throw new TRPCError({ code: 'CONFLICT', message: `The cancellation fee is now $${quote.fee.toFixed(2)}; review it and try again.` });
+  }
+
+  const updated = await transitionBooking({
+    booking,
+    to: 'cancelled',
+    actor,
+    reason,
+    patch: { cancellationReason: reason, cancellationFee: quote.fee, cancelledAt: now }
+  });
+  return { booking: updated, quote };
+}
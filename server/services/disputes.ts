@@ -0,0 +1,152 @@
+// file: server/services/disputes.ts
+// description: Dispute cases against bookings: opening, evidence, ops review and resolution (refund, credit, reject)
+// reference: drizzle/schema.ts, server/db.ts, server/services/payments.ts, server/_core/notification.ts
+
+import { TRPCError } from '@trpc/server';
+import { type Booking, type Dispute, type DisputeEvidence, type User } from '../../drizzle/schema';
+import { notifyOwner, notifyUser } from '../_core/notification';
+import * as db from '../db';
+import { getPaymentSummary, refundBookingPayment } from './payments';
+
+export type DisputeStatus = Dispute['status'];
+export type DisputeOutcome = NonNullable<Dispute['resolution']>;
+
+const ACTIVE_STATUSES: readonly DisputeStatus[] = ['open', 'under_review'];
+const CLOSED_STATUSES: readonly DisputeStatus[] = ['resolved', 'rejected'];
+
+/** Disputes can be filed until this many days after the booking was completed or cancelled. */
+export const DISPUTE_WINDOW_DAYS = 30;
+
+const STATUS_MESSAGES: Record<DisputeStatus, string> = {
+  open: 'We received your report and will review it within 24 hours.',
+  under_review: 'Our team is now reviewing your report.',
+  resolving: 'Our team is applying the resolution to your report.',
+  resolved: 'Your report has been resolved.',
+  rejected: 'Your report was reviewed and closed without changes.'
+};
+
+export function isActiveDispute(dispute: Pick<Dispute, 'status'>): boolean {
+  return ACTIVE_STATUSES.includes(dispute.status);
+}
+
+async function notifyStatus(dispute: Dispute, detail?: string): Promise<void> {
+  const content = detail ? `${STATUS_MESSAGES[dispute.status]} ${detail}` : STATUS_MESSAGES[dispute.status];
+  await notifyUser(dispute.userId, { title: `Dispute #${dispute.id}: ${dispute.status.replace('_', ' ')}`, content });
+}
+
+type OpenParams = { booking: Booking, userId: number, reason: Dispute['reason'], description?: string | undefined };
+
+export async function openDispute({ booking, userId, reason, description }: OpenParams): Promise<Dispute> {
+  if (booking.status === 'pending') {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'This booking has not been confirmed yet; cancel it instead.' });
+  }
+  const closedAt = booking.completedAt ?? booking.cancelledAt;
+  if (closedAt && Date.now() - closedAt.getTime() > DISPUTE_WINDOW_DAYS * 24 * 60 * 60 * 1000) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: `Issues must be reported within ${DISPUTE_WINDOW_DAYS} days.` });
+  }
+  if ((await db.getDisputesByBooking(booking.id)).some(existing => !CLOSED_STATUSES.includes(existing.status))) {
+    throw new TRPCError({ code: 'CONFLICT', message: 'There is already an open dispute for this booking.' });
+  }
+
+  const dispute = await db.createDispute({ bookingId: booking.id, userId, reason, description: description ?? null, status: 'open' });
+  if (!dispute) {
+    throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Failed to open dispute.' });
+  }
+
+  await notifyOwner({
+    title: `New dispute #${dispute.id} (${reason})`,
+    content: `Booking ${booking.orderId}: ${description?.trim() || 'No description provided.'}`
+  });
+  await notifyStatus(dispute);
+  return dispute;
+}
+
+type EvidenceParams = { dispute: Dispute, userId: number, kind: DisputeEvidence['kind'], content: string };
+
+export async function addEvidence({ dispute, userId, kind, content }: EvidenceParams): Promise<DisputeEvidence> {
+  if (!isActiveDispute(dispute)) {
+    throw new TRPCError({ code: 'CONFLICT', message: `Dispute is ${dispute.status}; evidence can no longer be added.` });
+  }
+  const evidence = await db.addDisputeEvidence({ disputeId: dispute.id, userId, kind, content });
+  if (!evidence) {
+    throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Failed to add evidence.' });
+  }
+  return evidence;
+}
+
+async function moveDispute(dispute: Dispute, patch: Parameters<typeof db.updateDisputeStatus>[2]): Promise<Dispute> {
+  const updated = await db.updateDisputeStatus(dispute.id, dispute.status, patch);
+  if (!updated) {
+    throw new TRPCError({ code: 'CONFLICT', message: 'Dispute changed concurrently; reload and try again.' });
+  }
+  return updated;
+}
+
+export async function startReview(dispute: Dispute): Promise<Dispute> {
+  if (dispute.status !== 'open') {
+    throw new TRPCError({ code: 'CONFLICT', message: `Only open disputes can be taken into review (this one is ${dispute.status}).` });
+  }
+  const updated = await moveDispute(dispute, { status: 'under_review' });
+  await notifyStatus(updated);
+  return updated;
+}
+
+type ResolveParams = {
+  dispute: Dispute,
+  admin: Pick<User, 'id'>,
+  outcome: DisputeOutcome,
+  /** Dollars. Required for credits; for refunds, omit it to refund everything still refundable. */
+  amount?: number | undefined,
+  note?: string | undefined
+};
+
+/**
+ * Closes an active dispute. The dispute is first claimed (moved to `resolving`), so of two concurrent resolutions only
+ * one gets to refund; a failed refund hands the dispute back in its previous status. Credits are recorded on the
+ * dispute for ops to apply.
+ */
+export async function resolveDispute({ dispute, admin, outcome, amount, note }: ResolveParams): Promise<Dispute> {
+  if (!isActiveDispute(dispute)) {
+    throw new TRPCError({ code: 'CONFLICT', message: `Dispute is already ${dispute.status}.` });
+  }
+  if (outcome === 'credit' && amount === undefined) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'A credit amount is required.' });
+  }
+
+  const booking = outcome === 'refund' ? await db.getBookingById(dispute.bookingId) : undefined;
+  if (outcome === 'refund' && !booking) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Booking not found.' });
+  }
+
+  const claimed = await moveDispute(dispute, { status: 'resolving' });
+  let detail = note ?? '';
+  let refundAmount: number | null = null;
+  let creditAmount: number | null = null;
+
+  if (booking) {
+    try {
+      const { refundedCents: before } = await getPaymentSummary(booking.id);
+      const { refundedCents: after } = await refundBookingPayment(booking, note ?? `Dispute #${dispute.id}`, amount);
+      refundAmount = (after - before) / 100;
+    } catch (error) {
+      await db.updateDisputeStatus(claimed.id, 'resolving', { status: dispute.status });
+      throw error;
+    }
+    detail = `A refund of $${refundAmount.toFixed(2)} is on its way to your card.`;
+  } else if (outcome === 'credit' && amount !== undefined) {
+    creditAmount = amount;
+    detail = `We approved a $${amount.toFixed(2)} credit, which our team will apply to your account.`;
+  }
+
+  const updated = await moveDispute(claimed, {
+    status: outcome === 'reject' ? 'rejected' : 'resolved',
+    resolution: outcome,
+    refundAmount,
+    creditAmount,
+    resolutionNote: note ?? null,
+    resolvedBy: admin.id,
+    resolvedAt: new Date()
+  });
+  await notifyStatus(updated, detail || undefined);
+  return updated;
+}
@@ -0,0 +1,77 @@
+// file: server/services/geo_search.ts
+// description: Radius and bounding-box search over internal providers with server-side distances, sorted nearest first
+// reference: server/db.ts (getProvidersInBounds), server/services/pricing.ts, server/services/provider_sources.ts
+
+import { type Provider } from '../../drizzle/schema';
+import * as db from '../db';
+import { type ProviderBounds } from '../db';
+import { type Coordinates, haversineMiles, providerCoordinates } from './pricing';
+
+/** Radius used when a caller does not pass one (and by the internal `provider.search` source). */
+export const DEFAULT_SEARCH_RADIUS_MILES = 25;
+export const MAX_SEARCH_RADIUS_MILES = 100;
+export const MAX_GEO_RESULTS = 100;
+
+/** One degree of latitude (and of longitude at the equator) in miles. */
+const MILES_PER_DEGREE = 69.09;
+
+export type ProviderWithDistance = { provider: Provider, distanceMiles: number };
+
+/**
+ * Smallest latitude/longitude box containing the circle. Longitudes wrap, so near the antimeridian `west > east`; a
+ * circle reaching a pole covers every longitude.
+ */
+export function boundsAround(center: Coordinates, radiusMiles: number): ProviderBounds {
+  const dLat = radiusMiles / MILES_PER_DEGREE;
+  const south = Math.max(-90, center.lat - dLat);
+  const north = Math.min(90, center.lat + dLat);
+  const cosLat = Math.cos((center.lat * Math.PI) / 180);
+  const dLng = cosLat > 0 ? radiusMiles / (MILES_PER_DEGREE * cosLat) : 180;
+  if (north === 90 || south === -90 || dLng >= 180) {
+    return { south, west: -180, north, east: 180 };
+  }
+
+  const wrap = (lng: number) => ((((lng + 180) % 360) + 360) % 360) - 180;
+  return { south, west: wrap(center.lng - dLng), north, east: wrap(center.lng + dLng) };
+}
+
+function withDistances(rows: Provider[], from: Coordinates): ProviderWithDistance[] {
+  return rows
+    .flatMap(provider => {
+      const coordinates = providerCoordinates(provider);
+      return coordinates ? [{ provider, distanceMiles: haversineMiles(from, coordinates) }] : [];
+    })
+    .sort((a, b) => a.distanceMiles - b.distanceMiles);
+}
+
+/**
+ * Providers within `radiusMiles` of `center`, nearest first. The database narrows to the enclosing box; exact
+ * great-circle distances decide membership and order.
+ */
+export async function searchProvidersNearby({ center, radiusMiles = DEFAULT_SEARCH_RADIUS_MILES, query, limit = MAX_GEO_RESULTS }: {
+  center: Coordinates,
+  radiusMiles?: number | undefined,
+  query?: string | undefined,
+  limit?: number | undefined
+}): Promise<ProviderWithDistance[]> {
+  const radius = Math.min(radiusMiles, MAX_SEARCH_RADIUS_MILES);
+  // The box's corners lie outside the circle, so ask for a few extra rows before trimming
+  const rows = await db.getProvidersInBounds(boundsAround(center, radius), { query, nearest: center, limit: limit * 2 });
+  return withDistances(rows, center).filter(row => row.distanceMiles <= radius).slice(0, limit);
+}
+
+/**
+ * Providers inside a map viewport, nearest to `center` first (the middle of the box when omitted).
+ */
+export async function searchProvidersInBounds({ bounds, center, query, limit = MAX_GEO_RESULTS }: {
+  bounds: ProviderBounds,
+  center?: Coordinates | undefined,
+  query?: string | undefined,
+  limit?: number | undefined
+}): Promise<ProviderWithDistance[]> {
+  const lngSpan = bounds.west <= bounds.east ? bounds.east - bounds.west : bounds.east + 360 - bounds.west;
+  const middleLng = bounds.west + lngSpan / 2;
+  const from = center ?? { lat: (bounds.south + bounds.north) / 2, lng: middleLng > 180 ? middleLng - 360 : middleLng };
+  const rows = await db.getProvidersInBounds(bounds, { query, nearest: from, limit });
+  return withDistances(rows, from);
+}
@@ -0,0 +1,96 @@
+// file: server/services/payment_gateway.ts
+// description: Pluggable payment gateway interface plus a deterministic local fake used in development and tests
+// reference: server/services/payments.ts, server/_core/env.ts
+
+import { type PaymentMethod } from '../../drizzle/schema';
+import { ENV } from '../_core/env';
+
+export type GatewayCard = Pick<PaymentMethod, 'id' | 'cardType' | 'lastFour' | 'expiryMonth' | 'expiryYear'>;
+
+export type GatewayResult = { ok: true, reference: string } | { ok: false, code: string, message: string };
+
+/**
+ * What the ledger needs from a payment processor. Amounts are integer cents; `reference` values returned by one call
+ * are passed back to follow-up calls (capture/void use the authorization, refund uses the capture or tip charge).
+ */
+export interface PaymentGateway {
+  readonly name: string;
+  authorize(request: { card: GatewayCard, amountCents: number, currency: string, description: string }): Promise<GatewayResult>;
+  capture(request: { authorizationReference: string, amountCents: number }): Promise<GatewayResult>;
+  void(request: { authorizationReference: string }): Promise<GatewayResult>;
+  /** Immediate authorize-and-capture, used for tips. */
+  charge(request: { card: GatewayCard, amountCents: number, currency: string, description: string }): Promise<GatewayResult>;
+  refund(request: { chargeReference: string, amountCents: number }): Promise<GatewayResult>;
+}
+
+/** Cards ending in this number are declined by the fake gateway (mirrors common processor test cards). */
+export const FAKE_DECLINED_LAST_FOUR = '0002';
+
+/**
+ * In-process gateway that never talks to the network. Approves everything except cards ending in
+ * FAKE_DECLINED_LAST_FOUR and expired cards, so flows are reproducible.
+ */
+export class FakePaymentGateway implements PaymentGateway {
+  readonly name = 'fake';
+  private sequence = 0;
+
+  private reference(kind: string): string {
+    this.sequence += 1;
+    return `fake_${kind}_${Date.now().toString(36)}${this.sequence.toString(36)}`;
+  }
+
+  private checkCard(card: GatewayCard, now = new Date()): GatewayResult | null {
+    if (card.lastFour === FAKE_DECLINED_LAST_FOUR) {
+      return { ok: false, code: 'card_declined', message: 'The card was declined.' };
+    }
+    const expiresAfter = new Date(card.expiryYear, card.expiryMonth, 1);
+    if (expiresAfter <= now) {
+      return { ok: false, code: 'expired_card', message: 'The card has expired.' };
+    }
+    return null;
+  }
+
+  async authorize({ card }: { card: GatewayCard }): Promise<GatewayResult> {
+    return this.checkCard(card) ?? { ok: true, reference: this.reference('auth') };
+  }
+
+  async capture(): Promise<GatewayResult> {
+    return { ok: true, reference: this.reference('capture') };
+  }
+
+  async void(): Promise<GatewayResult> {
+    return { ok: true, reference: this.reference('void') };
+  }
+
+  async charge({ card }: { card: GatewayCard }): Promise<GatewayResult> {
+    return this.checkCard(card) ?? { ok: true, reference: this.reference('charge') };
+  }
+
+  async refund(): Promise<GatewayResult> {
+    return { ok: true, reference: this.reference('refund') };
+  }
+}
+
+const gateways: Record<string, () => PaymentGateway> = {
+  fake: () => new FakePaymentGateway()
+};
+
+let activeGateway: PaymentGateway | null = null;
+
+/**
+ * Gateway selected by PAYMENT_GATEWAY (defaults to `fake`). Real processors register a factory here.
+ */
+export function getPaymentGateway(): PaymentGateway {
+  if (activeGateway) return activeGateway;
+  const factory = gateways[ENV.paymentGateway];
+  if (!factory) {
+    throw new Error(`Unknown PAYMENT_GATEWAY "${ENV.paymentGateway}" (available: ${Object.keys(gateways).join(', ')})`);
+  }
+  activeGateway = factory();
+  return activeGateway;
+}
+
+/** Overrides the active gateway (e.g. a fake with scripted failures in tests). */
+export function setPaymentGateway(gateway: PaymentGateway | null): void {
+  activeGateway = gateway;
+}
@@ -0,0 +1,309 @@
+// file: server/services/payments.ts
+// description: Booking payment ledger: authorize at booking, capture final cost on completion, tips and refunds
+// reference: server/services/payment_gateway.ts, drizzle/schema.ts, server/db.ts, server/routers.ts
+
+import { TRPCError } from '@trpc/server';
+import { type Booking, type InsertLedgerEntry, type LedgerEntry, type PaymentMethod } from '../../drizzle/schema';
+import * as db from '../db';
+import { type GatewayResult, getPaymentGateway } from './payment_gateway';
+
+const CURRENCY = 'usd';
+
+export const toCents = (dollars: number) => Math.round(dollars * 100);
+
+/** Largest tip, in dollars, one request may add. */
+export const MAX_TIP_DOLLARS = 500;
+
+export type PaymentSummary = {
+  bookingId: number,
+  /** Authorization still open (not yet captured or voided). */
+  authorizedCents: number,
+  capturedCents: number,
+  tipCents: number,
+  refundedCents: number,
+  /** Captured plus tips, minus refunds. */
+  netCents: number,
+  paymentMethodId: number | null,
+  entries: LedgerEntry[]
+};
+
+function succeeded(entries: LedgerEntry[], type: LedgerEntry['type']): LedgerEntry[] {
+  return entries.filter(entry => entry.type === type && entry.status === 'succeeded');
+}
+
+const sum = (entries: LedgerEntry[]) => entries.reduce((total, entry) => total + entry.amountCents, 0);
+
+function openAuthorization(entries: LedgerEntry[]): LedgerEntry | undefined {
+  const closed = new Set([...succeeded(entries, 'capture'), ...succeeded(entries, 'void')].map(entry => entry.parentEntryId));
+  return succeeded(entries, 'authorization').find(entry => !closed.has(entry.id));
+}
+
+const paymentQueues = new Map<number, Promise<unknown>>();
+
+/**
+ * Runs one booking's ledger changes one at a time, so an authorization and a capture (or two captures) cannot
+ * interleave. `run` gets the booking as stored when its turn comes, not the copy the caller loaded earlier.
+ */
+async function withBookingPayments<T>(booking: Booking, run: (current: Booking) => Promise<T>): Promise<T> {
+  const previous = paymentQueues.get(booking.id) ?? Promise.resolve();
+  const result = previous.then(async () => run((await db.getBookingById(booking.id)) ?? booking));
+  const settled = result.catch(() => undefined);
+  paymentQueues.set(booking.id, settled);
+  void settled.then(() => {
+    if (paymentQueues.get(booking.id) === settled) paymentQueues.delete(booking.id);
+  });
+  return result;
+}
+
+export function summarizeLedger(bookingId: number, entries: LedgerEntry[]): PaymentSummary {
+  const capturedCents = sum(succeeded(entries, 'capture'));
+  const tipCents = sum(succeeded(entries, 'tip'));
+  const refundedCents = sum(succeeded(entries, 'refund'));
+  const authorization = openAuthorization(entries);
+  const lastAuthorization = succeeded(entries, 'authorization').at(-1);
+
+  return {
+    bookingId,
+    authorizedCents: authorization?.amountCents ?? 0,
+    capturedCents,
+    tipCents,
+    refundedCents,
+    netCents: capturedCents + tipCents - refundedCents,
+    paymentMethodId: lastAuthorization?.paymentMethodId ?? null,
+    entries
+  };
+}
+
+export async function getPaymentSummary(bookingId: number): Promise<PaymentSummary> {
+  return summarizeLedger(bookingId, await db.getLedgerEntriesByBooking(bookingId));
+}
+
+/**
+ * Appends the gateway outcome to the ledger; failures are recorded too, then surfaced as PAYMENT_REQUIRED.
+ */
+async function record(entry: Omit<InsertLedgerEntry, 'status' | 'gateway' | 'gatewayReference' | 'failureCode'>, result: GatewayResult) {
+  const saved = await db.addLedgerEntry({
+    ...entry,
+    gateway: getPaymentGateway().name,
+    status: result.ok ? 'succeeded' : 'failed',
+    gatewayReference: result.ok ? result.reference : null,
+    failureCode: result.ok ? null : result.code
+  });
+  if (!result.ok) {
+    throw new TRPCError({ code: 'PAYMENT_REQUIRED', message: result.message });
+  }
+  if (!saved) {
+    throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Payment was processed but could not be recorded.' });
+  }
+  return saved;
+}
+
+async function loadCard(booking: Booking, paymentMethodId: number): Promise<PaymentMethod> {
+  const card = await db.getPaymentMethodById(paymentMethodId);
+  if (!card || card.userId !== booking.userId) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Payment method not found.' });
+  }
+  return card;
+}
+
+/**
+ * Places a hold for the top of the quoted range when the booking is made.
+ */
+export async function authorizeBookingPayment(booking: Booking, paymentMethodId: number): Promise<PaymentSummary> {
+  return withBookingPayments(booking, current => authorize(current, paymentMethodId));
+}
+
+async function authorize(booking: Booking, paymentMethodId: number): Promise<PaymentSummary> {
+  if (booking.status === 'completed' || booking.status === 'cancelled') {
+    throw new TRPCError({ code: 'CONFLICT', message: `Cannot authorize payment for a ${booking.status} booking.` });
+  }
+  if (booking.estimatedCostMax === null) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Booking has no cost estimate to authorize.' });
+  }
+
+  const entries = await db.getLedgerEntriesByBooking(booking.id);
+  if (openAuthorization(entries)) {
+    throw new TRPCError({ code: 'CONFLICT', message: 'Payment for this booking is already authorized.' });
+  }
+
+  const card = await loadCard(booking, paymentMethodId);
+  const amountCents = toCents(booking.estimatedCostMax);
+  const result = await getPaymentGateway().authorize({ card, amountCents, currency: CURRENCY, description: `Booking ${booking.orderId}` });
+  await record({ bookingId: booking.id, userId: booking.userId, paymentMethodId: card.id, type: 'authorization', amountCents, currency: CURRENCY }, result);
+  return getPaymentSummary(booking.id);
+}
+
+async function captureAuthorization(booking: Booking, authorization: LedgerEntry, amountCents: number, reason?: string) {
+  const result = await getPaymentGateway().capture({ authorizationReference: authorization.gatewayReference ?? '', amountCents });
+  await record({
+    bookingId: booking.id,
+    userId: booking.userId,
+    paymentMethodId: authorization.paymentMethodId,
+    type: 'capture',
+    amountCents,
+    currency: authorization.currency,
+    parentEntryId: authorization.id,
+    reason: reason ?? null
+  }, result);
+}
+
+/**
+ * Records the final cost of a completed job (ops only; see `payment.setFinalCost`). It cannot change once captured
+ * and cannot exceed the open authorization.
+ */
+export async function setBookingFinalCost(booking: Booking, finalCost: number): Promise<Booking> {
+  return withBookingPayments(booking, async current => {
+    if (current.status !== 'completed') {
+      throw new TRPCError({ code: 'CONFLICT', message: 'The final cost can only be set once the booking is completed.' });
+    }
+    const entries = await db.getLedgerEntriesByBooking(current.id);
+    if (succeeded(entries, 'capture').length > 0) {
+      throw new TRPCError({ code: 'CONFLICT', message: 'Payment for this booking has already been captured.' });
+    }
+    const authorization = openAuthorization(entries);
+    if (authorization && toCents(finalCost) > authorization.amountCents) {
+      throw new TRPCError({ code: 'CONFLICT', message: 'Final cost exceeds the authorized amount.' });
+    }
+    await db.updateBooking(current.id, { finalCost });
+    return { ...current, finalCost };
+  });
+}
+
+/**
+ * Captures the booking's stored `finalCost` against the open authorization once the job is completed.
+ */
+export async function captureBookingPayment(booking: Booking): Promise<PaymentSummary> {
+  return withBookingPayments(booking, capture);
+}
+
+async function capture(booking: Booking): Promise<PaymentSummary> {
+  if (booking.status !== 'completed') {
+    throw new TRPCError({ code: 'CONFLICT', message: 'Payment can only be captured once the booking is completed.' });
+  }
+  if (booking.finalCost === null) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Booking has no final cost to capture.' });
+  }
+
+  const entries = await db.getLedgerEntriesByBooking(booking.id);
+  const authorization = openAuthorization(entries);
+  if (!authorization) {
+    throw new TRPCError({ code: 'CONFLICT', message: 'No open payment authorization for this booking.' });
+  }
+
+  const amountCents = toCents(booking.finalCost);
+  if (amountCents > authorization.amountCents) {
+    throw new TRPCError({ code: 'CONFLICT', message: 'Final cost exceeds the authorized amount.' });
+  }
+
+  await captureAuthorization(booking, authorization, amountCents);
+  return getPaymentSummary(booking.id);
+}
+
+/**
+ * Settles the hold on a cancelled booking: captures the cancellation fee (capped at the hold) or releases it when free.
+ */
+export async function settleCancelledBooking(booking: Booking, fee: number): Promise<PaymentSummary> {
+  return withBookingPayments(booking, current => settleCancelled(current, fee));
+}
+
+async function settleCancelled(booking: Booking, fee: number): Promise<PaymentSummary> {
+  const authorization = openAuthorization(await db.getLedgerEntriesByBooking(booking.id));
+  if (!authorization) return getPaymentSummary(booking.id);
+
+  const feeCents = Math.min(toCents(fee), authorization.amountCents);
+  if (feeCents > 0) {
+    await captureAuthorization(booking, authorization, feeCents, 'cancellation fee');
+    return getPaymentSummary(booking.id);
+  }
+
+  const result = await getPaymentGateway().void({ authorizationReference: authorization.gatewayReference ?? '' });
+  await record({
+    bookingId: booking.id,
+    userId: booking.userId,
+    paymentMethodId: authorization.paymentMethodId,
+    type: 'void',
+    amountCents: authorization.amountCents,
+    currency: authorization.currency,
+    parentEntryId: authorization.id,
+    reason: 'booking cancelled'
+  }, result);
+  return getPaymentSummary(booking.id);
+}
+
+/**
+ * Charges a tip on a completed booking, using the booking's card unless another one is given.
+ */
+export async function tipBooking(booking: Booking, amount: number, paymentMethodId?: number): Promise<PaymentSummary> {
+  return withBookingPayments(booking, current => tip(current, amount, paymentMethodId));
+}
+
+/**
+ * Throws the error `tipBooking` would before charging anything, so callers can check a tip before saving other work.
+ */
+export async function assertTippable(booking: Booking, paymentMethodId?: number): Promise<PaymentMethod> {
+  if (booking.status !== 'completed') {
+    throw new TRPCError({ code: 'CONFLICT', message: 'Tips can only be added to completed bookings.' });
+  }
+
+  const methodId = paymentMethodId ?? (await getPaymentSummary(booking.id)).paymentMethodId;
+  if (methodId === null) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'No payment method on file for this booking.' });
+  }
+
+  return loadCard(booking, methodId);
+}
+
+async function tip(booking: Booking, amount: number, paymentMethodId?: number): Promise<PaymentSummary> {
+  const amountCents = toCents(amount);
+  if (amountCents <= 0) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'A tip must be a positive amount.' });
+  }
+  const card = await assertTippable(booking, paymentMethodId);
+  const result = await getPaymentGateway().charge({ card, amountCents, currency: CURRENCY, description: `Tip for booking ${booking.orderId}` });
+  await record({ bookingId: booking.id, userId: booking.userId, paymentMethodId: card.id, type: 'tip', amountCents, currency: CURRENCY }, result);
+  return getPaymentSummary(booking.id);
+}
+
+/**
+ * Refunds `amount` (default: everything still refundable), drawing on the capture first and then on tips.
+ */
+export async function refundBookingPayment(booking: Booking, reason: string, amount?: number): Promise<PaymentSummary> {
+  return withBookingPayments(booking, current => refund(current, reason, amount));
+}
+
+async function refund(booking: Booking, reason: string, amount?: number): Promise<PaymentSummary> {
+  const entries = await db.getLedgerEntriesByBooking(booking.id);
+  const refunds = succeeded(entries, 'refund');
+  const refundedFrom = (charge: LedgerEntry) => sum(refunds.filter(refund => refund.parentEntryId === charge.id));
+  const charges = [...succeeded(entries, 'capture'), ...succeeded(entries, 'tip')]
+    .map(charge => ({ charge, remaining: charge.amountCents - refundedFrom(charge) }))
+    .filter(({ remaining }) => remaining > 0);
+
+  const refundable = charges.reduce((total, { remaining }) => total + remaining, 0);
+  let outstanding = amount === undefined ? refundable : toCents(amount);
+  if (outstanding <= 0) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Nothing to refund.' });
+  }
+  if (outstanding > refundable) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: `At most $${(refundable / 100).toFixed(2)} can be refunded.` });
+  }
+
+  const gateway = getPaymentGateway();
+  for (const { charge, remaining } of charges) {
+    if (outstanding === 0) break;
+    const amountCents = Math.min(outstanding, remaining);
+    const result = await gateway.refund({ chargeReference: charge.gatewayReference ?? '', amountCents });
+    await record({
+      bookingId: booking.id,
+      userId: booking.userId,
+      paymentMethodId: charge.paymentMethodId,
+      type: 'refund',
+      amountCents,
+      currency: charge.currency,
+      parentEntryId: charge.id,
+      reason
+    }, result);
+    outstanding -= amountCents;
+  }
+  return getPaymentSummary(booking.id);
+}
@@ -0,0 +1,138 @@
+// file: server/services/pricing.ts
+// description: Deterministic booking quotes: cost range from rate, call-out fee and typical job length, plus a travel-time ETA
+// reference: shared/taxonomy.ts, server/_core/env.ts, server/routers.ts
+
+import { resolveServiceCategory, type ServiceCategory } from '@shared/taxonomy';
+import { type Provider } from '../../drizzle/schema';
+import { ENV } from '../_core/env';
+
+export const QUOTE_VERSION = 1;
+
+/** Used when a provider has not published an hourly rate. */
+export const DEFAULT_HOURLY_RATE = 50;
+
+/** Premium on labour for ASAP (same-hour) dispatch compared with a scheduled visit. */
+export const ASAP_SURCHARGE_PERCENT = 15;
+
+/** Typical job length in minutes per category; unknown categories use DEFAULT_JOB_DURATION. */
+export const JOB_DURATIONS: Record<ServiceCategory, { min: number, max: number }> = {
+  plumbing: { min: 60, max: 120 },
+  electrician: { min: 60, max: 150 },
+  locksmith: { min: 30, max: 60 },
+  glass: { min: 60, max: 180 },
+  handyman: { min: 60, max: 180 },
+  homecleaning: { min: 120, max: 240 },
+  carwash: { min: 30, max: 60 },
+  hair: { min: 30, max: 60 },
+  restaurants: { min: 30, max: 45 }
+};
+export const DEFAULT_JOB_DURATION = { min: 60, max: 120 };
+
+/**
+ * Travel model: straight-line distance stretched by `roadFactor` for the street network, driven at `speedMph`,
+ * plus `dispatchMinutes` for the provider to get going. Speed comes from TRAVEL_SPEED_MPH.
+ */
+export const TRAVEL_MODEL = { speedMph: ENV.travelSpeedMph, roadFactor: 1.3, dispatchMinutes: 5 };
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+export type Coordinates = { lat: number, lng: number };
+
+/** Everything a quote was computed from, stored on the booking so the numbers can be explained later. */
+export type QuoteInputs = {
+  version: number,
+  category: ServiceCategory | null,
+  hourlyRate: number,
+  hourlyRateDefaulted: boolean,
+  callOutFee: number,
+  jobMinutes: { min: number, max: number },
+  isAsap: boolean,
+  asapSurchargePercent: number,
+  distanceMiles: number | null,
+  travel: { speedMph: number, roadFactor: number, dispatchMinutes: number }
+};
+
+export type Quote = {
+  estimatedCost: { min: number, max: number },
+  /** Minutes until the provider arrives for ASAP jobs; null when the provider's location is unknown. */
+  etaMinutes: number | null,
+  inputs: QuoteInputs
+};
+
+export function haversineMiles(from: Coordinates, to: Coordinates): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(a));
+}
+
+export function travelMinutes(distanceMiles: number, model = TRAVEL_MODEL): number {
+  return Math.ceil(model.dispatchMinutes + ((distanceMiles * model.roadFactor) / model.speedMph) * 60);
+}
+
+/** Null unless the provider has both coordinates. */
+export function providerCoordinates(provider: Pick<Provider, 'latitude' | 'longitude'>): Coordinates | null {
+  const { latitude: lat, longitude: lng } = provider;
+  return lat !== null && lng !== null && Number.isFinite(lat) && Number.isFinite(lng) ? { lat, lng } : null;
+}
+
+/** The provider fields a quote is priced from. */
+export type QuotedProvider = Pick<Provider, 'category' | 'hourlyRate' | 'callOutFee' | 'latitude' | 'longitude'>;
+
+type QuoteParams = {
+  provider: QuotedProvider,
+  serviceType?: string | undefined,
+  isAsap: boolean,
+  jobLocation?: Coordinates | null | undefined
+};
+
+function jobDurationFor(category: ServiceCategory | null): { min: number, max: number } {
+  return category ? JOB_DURATIONS[category] : DEFAULT_JOB_DURATION;
+}
+
+/**
+ * Minutes a booking holds the provider's calendar: the long end of the quoted job length, so slots offered for a
+ * service are the ones `booking.create` accepts.
+ */
+export function bookedJobMinutes(provider: Pick<Provider, 'category'>, serviceType?: string | undefined): number {
+  return jobDurationFor(resolveServiceCategory(serviceType) ?? resolveServiceCategory(provider.category)).max;
+}
+
+/**
+ * Cost range = hourly rate × typical job length (min/max), plus the ASAP surcharge on labour, plus the call-out fee.
+ * Amounts are whole dollars: the low end rounds down and the high end rounds up.
+ */
+export function quoteBooking({ provider, serviceType, isAsap, jobLocation }: QuoteParams): Quote {
+  const category = resolveServiceCategory(serviceType) ?? resolveServiceCategory(provider.category);
+  const jobMinutes = jobDurationFor(category);
+  const hourlyRate = provider.hourlyRate ?? DEFAULT_HOURLY_RATE;
+  const callOutFee = provider.callOutFee ?? 0;
+  const surcharge = isAsap ? 1 + ASAP_SURCHARGE_PERCENT / 100 : 1;
+
+  const labour = (minutes: number) => ((hourlyRate * minutes) / 60) * surcharge;
+  const estimatedCost = {
+    min: Math.floor(labour(jobMinutes.min) + callOutFee),
+    max: Math.ceil(labour(jobMinutes.max) + callOutFee)
+  };
+
+  const from = providerCoordinates(provider);
+  const distanceMiles = from && jobLocation ? Math.round(haversineMiles(from, jobLocation) * 100) / 100 : null;
+
+  return {
+    estimatedCost,
+    etaMinutes: distanceMiles === null ? null : travelMinutes(distanceMiles),
+    inputs: {
+      version: QUOTE_VERSION,
+      category,
+      hourlyRate,
+      hourlyRateDefaulted: provider.hourlyRate === null,
+      callOutFee,
+      jobMinutes,
+      isAsap,
+      asapSurchargePercent: isAsap ? ASAP_SURCHARGE_PERCENT : 0,
+      distanceMiles,
+      travel: { ...TRAVEL_MODEL }
+    }
+  };
+}
@@ -0,0 +1,186 @@
+// file: server/services/provider_search.ts
+// description: Federated, paginated provider search over the registered sources (cascade or parallel) with cross-source de-duplication
+// reference: server/services/provider_sources.ts, server/_core/env.ts, server/routers.ts
+
+import { TRPCError } from '@trpc/server';
+import { createHash } from 'node:crypto';
+import { z } from 'zod';
+import { ENV } from '../_core/env';
+import * as db from '../db';
+import { haversineMiles } from './pricing';
+import { fromProviderRow, getProviderSource, matchesProviderFilters, type ProviderPage, type ProviderResult, type ProviderSearchRequest, type ProviderSource } from './provider_sources';
+
+export type ProviderSearchMode = 'cascade' | 'parallel';
+
+export type ProviderSearchConfig = {
+  /** Source names in priority order. */
+  sources: string[],
+  /** `cascade` stops at the first source with results; `parallel` queries all and merges. */
+  mode: ProviderSearchMode
+};
+
+/** Configured by PROVIDER_SOURCES and PROVIDER_SEARCH_MODE; the default mirrors Yelp REST → Yelp AI → internal DB. */
+export function getProviderSearchConfig(): ProviderSearchConfig {
+  return { sources: ENV.providerSources, mode: ENV.providerSearchMode };
+}
+
+/** Same business when within this distance and sharing a normalized name. */
+const SAME_PLACE_MILES = 0.1;
+
+const NAME_NOISE = /\b(llc|inc|co|corp|company|ltd|the|and)\b/g;
+
+export function normalizeBusinessName(name: string): string {
+  return name.toLowerCase().replace(/&/g, ' and ').replace(/[^a-z0-9 ]/g, ' ').replace(NAME_NOISE, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/** Last ten digits, so "+1 (614) 555-0101" and "614-555-0101" match. */
+export function normalizePhone(phone: string | null): string | null {
+  const digits = phone?.replace(/\D/g, '') ?? '';
+  return digits.length >= 10 ? digits.slice(-10) : null;
+}
+
+/**
+ * Two results are the same business when their Yelp ids or phones match, or their names match and both are at the
+ * same spot. A shared name alone never merges results: chains and common names would collapse into one.
+ */
+export function isSameBusiness(a: ProviderResult, b: ProviderResult): boolean {
+  if (a.yelpId && a.yelpId === b.yelpId) return true;
+
+  const phoneA = normalizePhone(a.phone);
+  if (phoneA && phoneA === normalizePhone(b.phone)) return true;
+
+  if (normalizeBusinessName(a.name) !== normalizeBusinessName(b.name)) return false;
+  if (a.latitude === null || a.longitude === null || b.latitude === null || b.longitude === null) return false;
+  return haversineMiles({ lat: a.latitude, lng: a.longitude }, { lat: b.latitude, lng: b.longitude }) <= SAME_PLACE_MILES;
+}
+
+/** Keeps the higher-priority record and fills its gaps (rates, coordinates, Yelp id...) from the duplicate. */
+function mergeResults(primary: ProviderResult, duplicate: ProviderResult): ProviderResult {
+  const merged = { ...primary, sources: [...new Set([...primary.sources, ...duplicate.sources])] };
+  for (const key of Object.keys(duplicate) as Array<keyof ProviderResult>) {
+    if (merged[key] === null) {
+      Object.assign(merged, { [key]: duplicate[key] });
+    }
+  }
+  // A stored provider keeps its real id and pricing even when an external copy of it ranked first
+  if (duplicate.source === 'internal' && primary.source !== 'internal') {
+    Object.assign(merged, { source: 'internal', id: duplicate.id, hourlyRate: duplicate.hourlyRate, callOutFee: duplicate.callOutFee });
+  }
+  return merged;
+}
+
+export function dedupeProviders(results: ProviderResult[]): ProviderResult[] {
+  const unique: ProviderResult[] = [];
+  for (const result of results) {
+    const index = unique.findIndex(existing => isSameBusiness(existing, result));
+    if (index === -1) {
+      unique.push(result);
+    } else {
+      unique[index] = mergeResults(unique[index] as ProviderResult, result);
+    }
+  }
+  return unique;
+}
+
+/** Page size for `provider.search` when the caller does not pass one, and the largest accepted. */
+export const DEFAULT_PROVIDER_PAGE_SIZE = 10;
+export const MAX_PROVIDER_PAGE_SIZE = 50;
+
+/**
+ * Where the next page starts: an offset into each source's results and, in cascade mode, the source that answered the
+ * first page so later pages keep coming from it.
+ */
+type ProviderCursor = { offset: number, source?: string | undefined };
+
+const cursorSchema = z.object({ offset: z.number().int().min(0), source: z.string().optional() });
+
+/** Cursors are opaque to clients: base64url-encoded JSON. */
+export function encodeProviderCursor(cursor: ProviderCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeProviderCursor(value: string): ProviderCursor {
+  try {
+    return cursorSchema.parse(JSON.parse(Buffer.from(value, 'base64url').toString('utf8')));
+  } catch {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Invalid search cursor.' });
+  }
+}
+
+export type FederatedSearchRequest = Omit<ProviderSearchRequest, 'offset'> & { cursor?: string | null | undefined };
+
+export type ProviderSearchPage = { results: ProviderResult[], nextCursor: string | null };
+
+async function querySource(source: ProviderSource, request: ProviderSearchRequest): Promise<ProviderPage> {
+  try {
+    const page = await source.search(request);
+    console.info(`[ProviderSearch] ${source.name}`, { query: request.query, offset: request.offset, count: page.results.length });
+    return { results: page.results.filter(result => matchesProviderFilters(result, request.filters)), hasMore: page.hasMore };
+  } catch (error) {
+    console.error(`[ProviderSearch] ${source.name} failed`, error instanceof Error ? error.message : error);
+    return { results: [], hasMore: false };
+  }
+}
+
+/**
+ * Runs one page of `request` against the configured sources. Sources that are unregistered or report themselves
+ * unavailable are skipped; a failing source counts as empty. In cascade mode the first source with results answers,
+ * and the cursor keeps later pages on that source; in parallel mode every source is paged together, so a sorted
+ * search is ordered within each source's pages and within each merged page, not across the merged pages.
+ */
+export async function federatedProviderSearch(
+  { cursor: cursorValue, ...request }: FederatedSearchRequest,
+  config: ProviderSearchConfig = getProviderSearchConfig()
+): Promise<ProviderSearchPage> {
+  const cursor = cursorValue ? decodeProviderCursor(cursorValue) : { offset: 0 };
+  const names = cursor.source ? config.sources.filter(name => name === cursor.source) : config.sources;
+  const sources = names
+    .map(name => getProviderSource(name))
+    .filter((source): source is ProviderSource => Boolean(source?.isAvailable()));
+  const pageRequest = { ...request, offset: cursor.offset };
+
+  let results: ProviderResult[] = [];
+  let hasMore = false;
+  let answeredBy: string | undefined;
+  if (config.mode === 'parallel') {
+    const pages = await Promise.all(sources.map(source => querySource(source, pageRequest)));
+    results = pages.flatMap(page => page.results);
+    hasMore = pages.some(page => page.hasMore);
+  } else {
+    for (const source of sources) {
+      const page = await querySource(source, pageRequest);
+      ({ results, hasMore } = page);
+      answeredBy = source.name;
+      if (results.length > 0 || page.hasMore) break;
+    }
+  }
+
+  const nextCursor = hasMore ? encodeProviderCursor({ offset: cursor.offset + request.limit, source: answeredBy }) : null;
+  return { results: await withStoredIds(dedupeProviders(results), request.location), nextCursor };
+}
+
+/**
+ * Id for a result with no stored provider: negative, so it can never be mistaken for a `providers.id`, and derived from
+ * the business (its Yelp id, else its source and name) so it is the same on every page and in every search.
+ */
+function externalResultId(result: ProviderResult): number {
+  const key = result.yelpId ? `yelp:${result.yelpId}` : `${result.source}:${normalizeBusinessName(result.name)}`;
+  // 48 bits of the hash stay within Number.MAX_SAFE_INTEGER
+  return -(parseInt(createHash('sha1').update(key).digest('hex').slice(0, 12), 16) + 1);
+}
+
+/**
+ * Yelp businesses already materialized as providers take the stored row's id and pricing, as an internal duplicate
+ * would. The rest get ids from `externalResultId`; book or favorite those by `yelpId`.
+ */
+async function withStoredIds(results: ProviderResult[], location: ProviderSearchRequest['location']): Promise<ProviderResult[]> {
+  const yelpIds = results.flatMap(result => (result.source !== 'internal' && result.yelpId ? [result.yelpId] : []));
+  const stored = new Map((await db.getProvidersByYelpIds(yelpIds)).map(row => [row.yelpId, row]));
+
+  return results.map(result => {
+    if (result.source === 'internal') return result;
+    const row = result.yelpId ? stored.get(result.yelpId) : undefined;
+    if (row) return { ...mergeResults(result, fromProviderRow(row, location)), sources: result.sources };
+    return { ...result, id: externalResultId(result) };
+  });
+}
@@ -0,0 +1,391 @@
+// file: server/services/provider_sources.ts
+// description: ProviderSource interface, built-in sources (Yelp REST, Yelp AI, internal DB, mock dataset) and their registry
+// reference: server/services/provider_search.ts, server/services/geo_search.ts, server/_core/yelp_rest_search.ts, server/_core/llm.ts, server/mastra/data/mockProviders.ts
+
+import { type Provider } from '../../drizzle/schema';
+import { ENV } from '../_core/env';
+import { searchProvidersWithLogging } from '../_core/llm';
+import { isUpstreamAvailable } from '../_core/resilient_http';
+import { type YelpBusiness } from '../_core/yelp_ai_types';
+import { searchYelpBusinesses, YELP_MAX_PAGE_SIZE, YELP_MAX_RESULTS, type YelpRestBusiness, type YelpSearchOptions } from '../_core/yelp_rest_search';
+import { mockProviders } from '../mastra/data/mockProviders';
+import { type ServiceAgent } from '../mastra/schemas';
+import { searchProvidersNearby } from './geo_search';
+import { type Coordinates, haversineMiles, providerCoordinates } from './pricing';
+import { isProviderOpenAt } from './scheduling';
+
+/** Shown as the ETA for providers that do not publish one. */
+export const DEFAULT_AVAILABLE_MINUTES = 10;
+
+const METERS_PER_MILE = 1609;
+
+export type ProviderOrigin = 'yelp' | 'internal' | 'mock';
+
+/**
+ * The one provider shape `provider.search` returns, whichever source found it. Ratings use the providers table
+ * convention (stars × 10) and distances are miles from the search location.
+ */
+export type ProviderResult = {
+  id: number,
+  source: ProviderOrigin,
+  /** Registered source names that returned this business (more than one after de-duplication). */
+  sources: string[],
+  yelpId: string | null,
+  name: string,
+  category: string,
+  description: string | null,
+  imageUrl: string | null,
+  bannerUrl: string | null,
+  rating: number | null,
+  reviewCount: number,
+  hourlyRate: number | null,
+  callOutFee: number | null,
+  /** 1 ($) to 4 ($$$$): Yelp's price level, or the hourly-rate band for stored providers. */
+  priceLevel: number | null,
+  distance: number | null,
+  address: string | null,
+  latitude: number | null,
+  longitude: number | null,
+  phone: string | null,
+  website: string | null,
+  /** Null when the source does not say, as with Yelp results. */
+  isAvailable: boolean | null,
+  availableIn: number | null,
+  specialties: string | null,
+  servicesOffered: string[] | null,
+  ecoFriendly: boolean | null
+};
+
+export const PROVIDER_SORTS = ['best_match', 'rating', 'distance', 'price'] as const;
+export type ProviderSort = (typeof PROVIDER_SORTS)[number];
+
+/** Yelp transaction types. Stored providers do not record them, so filtering on one leaves only Yelp results. */
+export const PROVIDER_TRANSACTIONS = ['delivery', 'pickup', 'restaurant_reservation'] as const;
+export type ProviderTransaction = (typeof PROVIDER_TRANSACTIONS)[number];
+
+/** Every filter must hold; a result whose value is unknown for an active filter is left out. */
+export type ProviderFilters = {
+  /** Stars, 0 to 5. */
+  minRating?: number | undefined,
+  maxDistanceMiles?: number | undefined,
+  /** Accepted price levels, 1 ($) to 4 ($$$$). */
+  priceLevels?: number[] | undefined,
+  openNow?: boolean | undefined,
+  ecoFriendly?: boolean | undefined,
+  transactions?: ProviderTransaction[] | undefined
+};
+
+export type ProviderSearchRequest = {
+  /** Canonical service term (e.g. "plumber"). */
+  query: string,
+  /** What the user typed, for sources that can use the original wording. */
+  rawQuery: string,
+  /** Yelp category alias hint, when the query maps to one. */
+  category?: string | undefined,
+  location: { latitude: number, longitude: number },
+  filters: ProviderFilters,
+  sort: ProviderSort,
+  /** Results of this source to skip (pagination). */
+  offset: number,
+  limit: number
+};
+
+/** One page from a source. `hasMore` reflects the source's own paging, before any filtering. */
+export type ProviderPage = { results: ProviderResult[], hasMore: boolean };
+
+export interface ProviderSource {
+  readonly name: string;
+  /** False skips the source without calling it (missing credentials, open circuit, spent quota). */
+  isAvailable(): boolean;
+  search(request: ProviderSearchRequest): Promise<ProviderPage>;
+}
+
+/** Hourly-rate bands that stand in for Yelp's $ to $$$$ on stored providers. */
+const PRICE_LEVEL_RATE_CEILINGS = [50, 80, 120];
+
+export function priceLevelForRate(hourlyRate: number | null): number | null {
+  if (hourlyRate === null) return null;
+  const band = PRICE_LEVEL_RATE_CEILINGS.findIndex(ceiling => hourlyRate < ceiling);
+  return band === -1 ? PRICE_LEVEL_RATE_CEILINGS.length + 1 : band + 1;
+}
+
+/**
+ * Checks everything except `openNow`, which only the sources can answer (Yelp filters upstream, stored providers use
+ * their opening hours).
+ */
+export function matchesProviderFilters(result: ProviderResult, filters: ProviderFilters): boolean {
+  const { minRating, maxDistanceMiles, priceLevels, ecoFriendly, transactions } = filters;
+  if (minRating !== undefined && (result.rating === null || result.rating / 10 < minRating)) return false;
+  if (maxDistanceMiles !== undefined && (result.distance === null || result.distance > maxDistanceMiles)) return false;
+  if (priceLevels?.length && (result.priceLevel === null || !priceLevels.includes(result.priceLevel))) return false;
+  if (ecoFriendly && result.ecoFriendly !== true) return false;
+  if (transactions?.length && !transactions.every(transaction => result.servicesOffered?.includes(transaction))) return false;
+  return true;
+}
+
+/** Ascending sort keys per mode; price compares the level first, then the hourly rate. */
+function sortKeys(result: ProviderResult, sort: Exclude<ProviderSort, 'best_match'>): Array<number | null> {
+  if (sort === 'rating') return [result.rating === null ? null : -result.rating];
+  if (sort === 'distance') return [result.distance];
+  return [result.priceLevel, result.hourlyRate];
+}
+
+/** Unknown values sort last and ties keep their order. `best_match` keeps the incoming order. */
+export function sortProviderResults<T extends ProviderResult>(results: T[], sort: ProviderSort): T[] {
+  if (sort === 'best_match') return results;
+  const compare = (a: Array<number | null>, b: Array<number | null>) =>
+    a.reduce<number>((order, value, index) => order || (value ?? Infinity) - (b[index] ?? Infinity) || 0, 0);
+  return results
+    .map((result, index) => ({ result, index, keys: sortKeys(result, sort) }))
+    .sort((a, b) => compare(a.keys, b.keys) || a.index - b.index)
+    .map(({ result }) => result);
+}
+
+const toMiles = (meters: number | null | undefined) => (meters ? Number((meters / METERS_PER_MILE).toFixed(1)) : null);
+
+function milesFrom(location: ProviderSearchRequest['location'], point: Coordinates | null): number | null {
+  if (!point) return null;
+  return Number(haversineMiles({ lat: location.latitude, lng: location.longitude }, point).toFixed(1));
+}
+
+function fromYelpRest(business: YelpRestBusiness, source: string): ProviderResult {
+  const address = business.location?.display_address?.join(', ') ?? business.location?.address1 ?? null;
+  return {
+    id: 0,
+    source: 'yelp',
+    sources: [source],
+    yelpId: business.id,
+    name: business.name,
+    category: business.categories?.[0]?.title ?? 'Local Service',
+    description: address ?? business.location?.city ?? 'Trusted local provider',
+    imageUrl: business.image_url ?? null,
+    bannerUrl: business.image_url ?? null,
+    rating: business.rating ? Math.round(business.rating * 10) : null,
+    reviewCount: business.review_count ?? 0,
+    hourlyRate: null,
+    callOutFee: 0,
+    priceLevel: business.price?.length || null,
+    distance: toMiles(business.distance),
+    address,
+    latitude: business.coordinates?.latitude ?? null,
+    longitude: business.coordinates?.longitude ?? null,
+    phone: business.display_phone ?? business.phone ?? null,
+    website: business.url ?? null,
+    isAvailable: null,
+    availableIn: null,
+    specialties: business.categories?.map(category => category.title).join(', ') ?? null,
+    servicesOffered: business.transactions ?? null,
+    ecoFriendly: null
+  };
+}
+
+function fromYelpAi(business: YelpBusiness, source: string): ProviderResult {
+  return {
+    id: 0,
+    source: 'yelp',
+    sources: [source],
+    yelpId: business.id,
+    name: business.name,
+    category: business.categories?.[0]?.title ?? 'Local Service',
+    description: business.location.address1 ?? business.location.city ?? 'Trusted local provider',
+    imageUrl: business.image_url ?? null,
+    bannerUrl: business.image_url ?? null,
+    rating: business.rating ? Math.round(business.rating * 10) : null,
+    reviewCount: business.review_count ?? 0,
+    hourlyRate: null,
+    callOutFee: 0,
+    priceLevel: business.price?.length || null,
+    distance: toMiles(business.distance),
+    address: business.location.address1 ?? null,
+    latitude: null,
+    longitude: null,
+    phone: business.phone ?? null,
+    website: business.url ?? null,
+    isAvailable: null,
+    availableIn: null,
+    specialties: business.categories?.map(category => category.title).join(', ') ?? null,
+    servicesOffered: null,
+    ecoFriendly: null
+  };
+}
+
+export function fromProviderRow(provider: Provider, location: ProviderSearchRequest['location'] | null, source = 'internal'): ProviderResult {
+  const coordinates = providerCoordinates(provider);
+  return {
+    id: provider.id,
+    source: 'internal',
+    sources: [source],
+    yelpId: provider.yelpId,
+    name: provider.name,
+    category: provider.category,
+    description: provider.description,
+    imageUrl: provider.imageUrl,
+    bannerUrl: provider.bannerUrl,
+    rating: provider.rating,
+    reviewCount: provider.reviewCount ?? 0,
+    hourlyRate: provider.hourlyRate,
+    callOutFee: provider.callOutFee,
+    priceLevel: priceLevelForRate(provider.hourlyRate),
+    distance: location ? milesFrom(location, coordinates) : null,
+    address: provider.address,
+    latitude: coordinates?.lat ?? null,
+    longitude: coordinates?.lng ?? null,
+    phone: provider.phone,
+    website: provider.website,
+    isAvailable: provider.isAvailable,
+    availableIn: provider.availableIn,
+    specialties: provider.specialties,
+    servicesOffered: Array.isArray(provider.servicesJson) ? (provider.servicesJson as string[]) : null,
+    ecoFriendly: provider.ecoFriendly
+  };
+}
+
+function fromMock(agent: ServiceAgent, location: ProviderSearchRequest['location'], source: string): ProviderResult {
+  return {
+    id: 0,
+    source: 'mock',
+    sources: [source],
+    // Fixture Yelp ids are made up, so they are not exposed for Yelp lookups
+    yelpId: null,
+    name: agent.name,
+    category: agent.category,
+    description: 'Columbus, OH 43228',
+    imageUrl: agent.imageUrl,
+    bannerUrl: agent.imageUrl,
+    rating: Math.round(agent.rating * 10),
+    reviewCount: agent.reviewCount,
+    hourlyRate: null,
+    callOutFee: 0,
+    priceLevel: null,
+    distance: milesFrom(location, agent.location ?? null) ?? agent.distance,
+    address: null,
+    latitude: agent.location?.lat ?? null,
+    longitude: agent.location?.lng ?? null,
+    phone: agent.phone,
+    website: null,
+    isAvailable: agent.available,
+    availableIn: DEFAULT_AVAILABLE_MINUTES,
+    specialties: agent.category,
+    servicesOffered: null,
+    ecoFriendly: null
+  };
+}
+
+/**
+ * Yelp has no price sort: price-sorted searches sort the first `YELP_PRICE_SORT_WINDOW` best matches by price and page
+ * through those, so the order holds across pages but businesses past the window are not reached.
+ */
+const YELP_PRICE_SORT_WINDOW = YELP_MAX_PAGE_SIZE;
+
+const YELP_SORTS: Record<ProviderSort, YelpSearchOptions['sortBy']> = {
+  best_match: 'best_match',
+  rating: 'rating',
+  distance: 'distance',
+  price: 'best_match'
+};
+
+/** Applies the filters and sort a source could not push down, then cuts out the requested page. */
+function pageOf(results: ProviderResult[], { filters, sort, offset, limit }: ProviderSearchRequest): ProviderPage {
+  const matches = sortProviderResults(results.filter(result => matchesProviderFilters(result, filters)), sort);
+  return { results: matches.slice(offset, offset + limit), hasMore: matches.length > offset + limit };
+}
+
+/**
+ * Yelp Fusion search with filters, sort and offset passed upstream. Retries with the user's own wording when the
+ * canonical term finds nothing.
+ */
+export const yelpRestSource: ProviderSource = {
+  name: 'yelp_rest',
+  isAvailable: () => Boolean(ENV.yelpApiKey) && isUpstreamAvailable('yelp_rest'),
+  async search(request) {
+    const { query, rawQuery, category, location, filters, sort, offset, limit } = request;
+    const priceWindow = sort === 'price';
+    const options: YelpSearchOptions = {
+      offset: priceWindow ? 0 : offset,
+      limit: priceWindow ? YELP_PRICE_SORT_WINDOW : limit,
+      sortBy: YELP_SORTS[sort],
+      price: filters.priceLevels,
+      openNow: filters.openNow,
+      radiusMeters: filters.maxDistanceMiles === undefined ? undefined : filters.maxDistanceMiles * METERS_PER_MILE
+    };
+    let businesses = await searchYelpBusinesses(query, location, category, options);
+    if (!businesses.length && query !== rawQuery) {
+      businesses = await searchYelpBusinesses(rawQuery, location, category, options);
+    }
+    const results = businesses.map(business => fromYelpRest(business, this.name));
+    if (priceWindow) return pageOf(results, request);
+
+    return {
+      results: sortProviderResults(results.filter(result => matchesProviderFilters(result, filters)), sort),
+      hasMore: businesses.length === Math.min(limit, YELP_MAX_PAGE_SIZE) && offset + limit < YELP_MAX_RESULTS
+    };
+  }
+};
+
+/**
+ * Yelp AI chat search. Retries with "near me" appended when the canonical term finds nothing. The chat answer is a
+ * single short list, so there is only ever one page; "open now" is asked for in the query.
+ */
+export const yelpAiSource: ProviderSource = {
+  name: 'yelp_ai',
+  isAvailable: () => Boolean(ENV.yelpApiKey) && isUpstreamAvailable('yelp_ai'),
+  async search(request) {
+    if (request.offset > 0) return { results: [], hasMore: false };
+    const { query, rawQuery, location, filters } = request;
+    const openNow = filters.openNow ? ' open now' : '';
+    let result = await searchProvidersWithLogging(`${query}${openNow}`, location);
+    if (!result.businesses.length && query !== rawQuery) {
+      result = await searchProvidersWithLogging(`${query}${openNow} near me`, location);
+    }
+    return { ...pageOf(result.businesses.map(business => fromYelpAi(business, this.name)), request), hasMore: false };
+  }
+};
+
+/**
+ * Stored providers matching the query within `maxDistanceMiles` (DEFAULT_SEARCH_RADIUS_MILES when unset) of the search
+ * location, nearest first unless another sort is asked for.
+ */
+export const internalSource: ProviderSource = {
+  name: 'internal',
+  isAvailable: () => Boolean(ENV.databaseUrl),
+  async search(request) {
+    const { query, location, filters } = request;
+    const center = { lat: location.latitude, lng: location.longitude };
+    const nearby = await searchProvidersNearby({ center, query, radiusMiles: filters.maxDistanceMiles });
+    const now = new Date();
+    const open = nearby.filter(({ provider }) => !filters.openNow || isProviderOpenAt(provider, now));
+    return pageOf(open.map(({ provider }) => fromProviderRow(provider, location, this.name)), request);
+  }
+};
+
+/**
+ * Development fixture for zip 43228 (Columbus, OH), keyed by category ("plumber", "electrician", "locksmith", ...).
+ * Unknown categories return nothing rather than the fixture's handyman fallback.
+ */
+export const mockSource: ProviderSource = {
+  name: 'mock',
+  isAvailable: () => true,
+  async search(request) {
+    const { query, location, filters } = request;
+    const key = query.trim().toLowerCase();
+    const agents = (mockProviders[key] ?? mockProviders[key.replace(/s$/, '')] ?? []).filter(agent => !filters.openNow || agent.available);
+    return pageOf(agents.map(agent => fromMock(agent, location, this.name)), request);
+  }
+};
+
+const registry = new Map<string, ProviderSource>();
+
+/** Adds or replaces a source; PROVIDER_SOURCES decides which registered sources a search uses. */
+export function registerProviderSource(source: ProviderSource): void {
+  registry.set(source.name, source);
+}
+
+export function getProviderSource(name: string): ProviderSource | undefined {
+  return registry.get(name);
+}
+
+export function listProviderSources(): string[] {
+  return [...registry.keys()];
+}
+
+[yelpRestSource, yelpAiSource, internalSource, mockSource].forEach(registerProviderSource);
@@ -0,0 +1,213 @@
+// file: server/services/ranking.ts
+// description: Explainable provider ranking: weighted signals per category and reasons derived from each score contribution
+// reference: server/services/provider_sources.ts, shared/taxonomy.ts, server/routers.ts
+
+import { resolveServiceCategory, type ServiceCategory } from '@shared/taxonomy';
+import * as db from '../db';
+import { type ProviderResult } from './provider_sources';
+
+export const RANKING_FACTORS = ['rating', 'reviews', 'distance', 'availability', 'price', 'favorite', 'pastBookings'] as const;
+export type RankingFactor = (typeof RANKING_FACTORS)[number];
+
+/** Relative importance of each factor; only the ratios matter. */
+export type RankingWeights = Record<RankingFactor, number>;
+
+export const DEFAULT_RANKING_WEIGHTS: RankingWeights = {
+  rating: 30,
+  reviews: 10,
+  distance: 20,
+  availability: 20,
+  price: 10,
+  favorite: 5,
+  pastBookings: 5
+};
+
+/**
+ * Per-category adjustments on top of the defaults. Emergency trades favour whoever can get there soonest, recurring
+ * services favour providers the user already knows, and restaurants are mostly about reputation.
+ */
+export const CATEGORY_RANKING_WEIGHTS: Record<ServiceCategory, Partial<RankingWeights>> = {
+  plumbing: { availability: 30, distance: 25, rating: 25, price: 5 },
+  electrician: { availability: 30, distance: 25, rating: 25, price: 5 },
+  locksmith: { availability: 35, distance: 25, rating: 20, price: 5 },
+  glass: { price: 15 },
+  handyman: { price: 15 },
+  homecleaning: { price: 20, pastBookings: 15, distance: 10, availability: 5 },
+  carwash: { distance: 30, price: 20, rating: 20 },
+  hair: { pastBookings: 20, favorite: 15, distance: 10, availability: 10 },
+  restaurants: { rating: 35, reviews: 20, distance: 25, availability: 5, favorite: 10, pastBookings: 0 }
+};
+
+export function getRankingWeights(category: string | null | undefined): { category: ServiceCategory | null, weights: RankingWeights } {
+  const match = resolveServiceCategory(category);
+  return { category: match, weights: { ...DEFAULT_RANKING_WEIGHTS, ...(match ? CATEGORY_RANKING_WEIGHTS[match] : {}) } };
+}
+
+/** Ratings at or below this many stars earn nothing; 5 stars earns the full weight. */
+const RATING_FLOOR_STARS = 3;
+/** Review counts are scored on a log scale that saturates here. */
+const REVIEW_SATURATION = 1000;
+/** Providers this far away or further earn nothing for distance. */
+const DISTANCE_HORIZON_MILES = 25;
+/** ETAs up to this are as good as "now"; the score falls to zero at AVAILABILITY_HORIZON_MINUTES. */
+const PROMPT_ARRIVAL_MINUTES = 10;
+const AVAILABILITY_HORIZON_MINUTES = 60;
+/** Completed bookings beyond this do not add more loyalty. */
+const PAST_BOOKINGS_SATURATION = 3;
+/** Unknown values (no rating, no coordinates, no ETA, no published rate) score as average rather than as worst. */
+const UNKNOWN_SIGNAL = 0.5;
+/** A factor is only offered as a reason when it scored at least this well. */
+const REASON_MIN_SIGNAL = 0.6;
+const MAX_REASONS = 4;
+
+export type RankableProvider = Pick<ProviderResult, 'id' | 'source' | 'rating' | 'reviewCount' | 'distance' | 'isAvailable' | 'availableIn' | 'hourlyRate'>;
+
+export type RankingContext = {
+  category: string | null,
+  /** Internal provider ids the user has favourited. */
+  favoriteProviderIds: ReadonlySet<number>,
+  /** Completed bookings per internal provider id. */
+  completedBookings: ReadonlyMap<number, number>,
+  /** Overrides the category weights, e.g. for experiments. */
+  weights?: Partial<RankingWeights> | undefined
+};
+
+export type ScoreContribution = {
+  factor: RankingFactor,
+  weight: number,
+  /** How well the provider did on this factor, 0..1; null when the value is unknown. */
+  signal: number | null,
+  /** Share of the 0..100 score this factor earned. */
+  points: number,
+  /** Human-readable explanation, present when the factor is strong enough to cite. */
+  reason: string | null
+};
+
+export type RankedProvider<T extends RankableProvider> = {
+  provider: T,
+  /** 0..100. */
+  score: number,
+  contributions: ScoreContribution[],
+  /** The strongest contributions as sentences, highest first. */
+  reasons: string[]
+};
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+type Peers = { count: number, bestRating: number | null, mostReviews: number, nearest: number | null, rates: number[], minRate: number | null, maxRate: number | null };
+
+function summarizePeers(providers: RankableProvider[]): Peers {
+  const ratings = providers.flatMap(p => (p.rating === null ? [] : [p.rating]));
+  const distances = providers.flatMap(p => (p.distance === null ? [] : [p.distance]));
+  const rates = providers.flatMap(p => (p.hourlyRate === null ? [] : [p.hourlyRate]));
+  return {
+    count: providers.length,
+    bestRating: ratings.length ? Math.max(...ratings) : null,
+    mostReviews: Math.max(0, ...providers.map(p => p.reviewCount)),
+    nearest: distances.length ? Math.min(...distances) : null,
+    rates,
+    minRate: rates.length ? Math.min(...rates) : null,
+    maxRate: rates.length ? Math.max(...rates) : null
+  };
+}
+
+/** Signal (0..1, null when unknown) and the reason that signal justifies. */
+function evaluate(factor: RankingFactor, provider: RankableProvider, peers: Peers, context: RankingContext): { signal: number | null, reason: string } {
+  const others = peers.count > 1;
+  switch (factor) {
+    case 'rating': {
+      if (provider.rating === null) return { signal: null, reason: '' };
+      const stars = provider.rating / 10;
+      const best = others && provider.rating === peers.bestRating ? `, the highest of ${peers.count} options` : '';
+      return { signal: clamp01((stars - RATING_FLOOR_STARS) / (5 - RATING_FLOOR_STARS)), reason: `Rated ${stars.toFixed(1)} stars${best}` };
+    }
+    case 'reviews': {
+      const most = others && provider.reviewCount === peers.mostReviews ? ', more than any other option' : '';
+      return {
+        signal: clamp01(Math.log10(provider.reviewCount + 1) / Math.log10(REVIEW_SATURATION + 1)),
+        reason: `${plural(provider.reviewCount, 'review')}${most}`
+      };
+    }
+    case 'distance': {
+      if (provider.distance === null) return { signal: null, reason: '' };
+      const closest = others && provider.distance === peers.nearest ? ', the closest option' : '';
+      return { signal: clamp01(1 - provider.distance / DISTANCE_HORIZON_MILES), reason: `${round1(provider.distance)} miles away${closest}` };
+    }
+    case 'availability': {
+      if (provider.isAvailable === false) return { signal: 0, reason: '' };
+      if (provider.isAvailable === null || provider.availableIn === null) return { signal: null, reason: '' };
+      const late = Math.max(0, provider.availableIn - PROMPT_ARRIVAL_MINUTES);
+      return {
+        signal: clamp01(1 - late / (AVAILABILITY_HORIZON_MINUTES - PROMPT_ARRIVAL_MINUTES)),
+        reason: `Available now, about ${plural(provider.availableIn, 'minute')} away`
+      };
+    }
+    case 'price': {
+      // Price is judged against the other options; a lone or uniformly priced list says nothing about value
+      if (provider.hourlyRate === null || peers.minRate === null || peers.maxRate === null || peers.minRate === peers.maxRate) {
+        return { signal: null, reason: '' };
+      }
+      const rate = provider.hourlyRate;
+      const dearer = peers.rates.filter(other => other > rate).length;
+      const comparison = rate === peers.minRate ? ', the lowest rate here' : dearer * 2 > peers.rates.length - 1 ? ', below most options' : '';
+      return { signal: (peers.maxRate - rate) / (peers.maxRate - peers.minRate), reason: `$${rate}/hr${comparison}` };
+    }
+    case 'favorite': {
+      const favorite = provider.source === 'internal' && context.favoriteProviderIds.has(provider.id);
+      return { signal: favorite ? 1 : 0, reason: 'One of your saved favorites' };
+    }
+    case 'pastBookings': {
+      const count = provider.source === 'internal' ? context.completedBookings.get(provider.id) ?? 0 : 0;
+      return { signal: Math.min(count, PAST_BOOKINGS_SATURATION) / PAST_BOOKINGS_SATURATION, reason: `You have booked them ${plural(count, 'time')} before` };
+    }
+  }
+}
+
+/**
+ * Scores each provider as the weighted average of its factor signals (0..100) and sorts best first; ties keep their
+ * incoming order. Reasons are only the factors that actually earned points, strongest first.
+ */
+export function rankProviders<T extends RankableProvider>(providers: T[], context: RankingContext): RankedProvider<T>[] {
+  const weights = { ...getRankingWeights(context.category).weights, ...context.weights };
+  const totalWeight = RANKING_FACTORS.reduce((sum, factor) => sum + weights[factor], 0) || 1;
+  const peers = summarizePeers(providers);
+
+  return providers
+    .map((provider, index) => {
+      const contributions = RANKING_FACTORS.map((factor): ScoreContribution => {
+        const { signal, reason } = evaluate(factor, provider, peers, context);
+        const points = (100 * weights[factor] * (signal ?? UNKNOWN_SIGNAL)) / totalWeight;
+        const citable = signal !== null && signal >= REASON_MIN_SIGNAL && weights[factor] > 0;
+        return { factor, weight: weights[factor], signal, points: round1(points), reason: citable ? reason : null };
+      });
+      const reasons = contributions
+        .filter((contribution): contribution is ScoreContribution & { reason: string } => contribution.reason !== null)
+        .sort((a, b) => b.points - a.points)
+        .slice(0, MAX_REASONS)
+        .map(contribution => contribution.reason);
+      const score = round1(contributions.reduce((sum, contribution) => sum + contribution.points, 0));
+      return { index, ranked: { provider, score, contributions, reasons } };
+    })
+    .sort((a, b) => b.ranked.score - a.ranked.score || a.index - b.index)
+    .map(({ ranked }) => ranked);
+}
+
+/**
+ * Favourites and completed bookings for the signed-in user; anonymous searches rank on provider data alone.
+ */
+export async function loadRankingContext(userId: number | null | undefined, category: string | null): Promise<RankingContext> {
+  if (!userId) {
+    return { category, favoriteProviderIds: new Set(), completedBookings: new Map() };
+  }
+
+  const [favorites, bookings] = await Promise.all([db.getFavoriteProvidersByUser(userId), db.getBookingsByUser(userId)]);
+  const completedBookings = new Map<number, number>();
+  for (const booking of bookings) {
+    if (booking.status === 'completed') {
+      completedBookings.set(booking.providerId, (completedBookings.get(booking.providerId) ?? 0) + 1);
+    }
+  }
+  return { category, favoriteProviderIds: new Set(favorites.map(provider => provider.id)), completedBookings };
+}
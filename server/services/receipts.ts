@@ -0,0 +1,200 @@
+// file: server/services/receipts.ts
+// description: Canonical receipts for completed bookings (line items, call-out fee, tax, tip, card) as JSON, HTML and PDF
+// reference: server/services/payments.ts, server/services/pricing.ts, server/_core/pdf.ts, app/api/receipts/[bookingId]/route.ts
+
+import { TRPCError } from '@trpc/server';
+import { type Booking } from '../../drizzle/schema';
+import { ENV } from '../_core/env';
+import { monoTextWidth, PDF_PAGE, type PdfText, renderTextPdf } from '../_core/pdf';
+import * as db from '../db';
+import { getPaymentSummary, toCents } from './payments';
+import { type QuoteInputs } from './pricing';
+
+export const RECEIPT_VERSION = 1;
+
+export const RECEIPT_FORMATS = ['json', 'html', 'pdf'] as const;
+export type ReceiptFormat = (typeof RECEIPT_FORMATS)[number];
+
+export type ReceiptLineItem = { code: 'labour' | 'call_out_fee' | 'tax' | 'tip' | 'refund', label: string, amountCents: number };
+
+/**
+ * Everything a receipt shows, in integer cents. Service prices include sales tax, so `serviceCents` is what was charged
+ * for the job and `tax` is the share of it that is tax; tips are untaxed and refunds are subtracted from the total.
+ */
+export type BookingReceipt = {
+  version: number,
+  orderId: string,
+  bookingId: number,
+  issuedAt: string,
+  currency: string,
+  serviceType: string,
+  serviceDescription: string | null,
+  locationAddress: string | null,
+  startedAt: string | null,
+  completedAt: string | null,
+  provider: { id: number, name: string, address: string | null, phone: string | null },
+  customer: { name: string | null, email: string | null },
+  lineItems: ReceiptLineItem[],
+  serviceCents: number,
+  tax: { ratePercent: number, amountCents: number },
+  tipCents: number,
+  refundedCents: number,
+  totalCents: number,
+  paymentMethod: { cardType: string, lastFour: string } | null
+};
+
+const formatMoney = (cents: number) => `${cents < 0 ? '-' : ''}$${(Math.abs(cents) / 100).toFixed(2)}`;
+
+function formatDate(iso: string | null): string {
+  if (!iso) return '-';
+  return new Date(iso).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short', timeZone: 'America/New_York' });
+}
+
+/** The call-out fee the booking was quoted with; bookings made before quotes were stored use the provider's current fee. */
+function callOutFeeCents(booking: Booking, providerFee: number | null | undefined): number {
+  const inputs = booking.quoteJson as Partial<QuoteInputs> | null;
+  return toCents(typeof inputs?.callOutFee === 'number' ? inputs.callOutFee : providerFee ?? 0);
+}
+
+/**
+ * Builds the receipt from the booking and its payment ledger. The charged amount is the ledger capture when there is
+ * one, otherwise the booking's recorded final cost.
+ */
+export async function buildReceipt(booking: Booking, now = new Date()): Promise<BookingReceipt> {
+  if (booking.status !== 'completed') {
+    throw new TRPCError({ code: 'CONFLICT', message: 'Receipts are available once the booking is completed.' });
+  }
+
+  const summary = await getPaymentSummary(booking.id);
+  const serviceCents = summary.capturedCents > 0 ? summary.capturedCents : booking.finalCost !== null ? toCents(booking.finalCost) : null;
+  if (serviceCents === null) {
+    throw new TRPCError({ code: 'CONFLICT', message: 'The final cost for this booking has not been recorded yet.' });
+  }
+
+  const [provider, customer, card] = await Promise.all([
+    db.getProviderById(booking.providerId),
+    db.getUserById(booking.userId),
+    summary.paymentMethodId === null ? undefined : db.getPaymentMethodById(summary.paymentMethodId)
+  ]);
+
+  const ratePercent = ENV.salesTaxPercent;
+  const taxCents = serviceCents - Math.round(serviceCents / (1 + ratePercent / 100));
+  const preTaxCents = serviceCents - taxCents;
+  const callOutCents = Math.min(callOutFeeCents(booking, provider?.callOutFee), preTaxCents);
+
+  const lineItems: ReceiptLineItem[] = [{ code: 'labour', label: 'Labour', amountCents: preTaxCents - callOutCents }];
+  if (callOutCents > 0) lineItems.push({ code: 'call_out_fee', label: 'Call-out fee', amountCents: callOutCents });
+  lineItems.push({ code: 'tax', label: `Sales tax (${ratePercent}%)`, amountCents: taxCents });
+  if (summary.tipCents > 0) lineItems.push({ code: 'tip', label: 'Tip', amountCents: summary.tipCents });
+  if (summary.refundedCents > 0) lineItems.push({ code: 'refund', label: 'Refunded', amountCents: -summary.refundedCents });
+
+  return {
+    version: RECEIPT_VERSION,
+    orderId: booking.orderId,
+    bookingId: booking.id,
+    issuedAt: now.toISOString(),
+    currency: 'usd',
+    serviceType: booking.serviceType,
+    serviceDescription: booking.serviceDescription,
+    locationAddress: booking.locationAddress,
+    startedAt: booking.startedAt?.toISOString() ?? null,
+    completedAt: booking.completedAt?.toISOString() ?? null,
+    provider: {
+      id: booking.providerId,
+      name: provider?.name ?? 'Service provider',
+      address: provider?.address ?? null,
+      phone: provider?.phone ?? null
+    },
+    customer: { name: customer?.name ?? null, email: customer?.email ?? null },
+    lineItems,
+    serviceCents,
+    tax: { ratePercent, amountCents: taxCents },
+    tipCents: summary.tipCents,
+    refundedCents: summary.refundedCents,
+    totalCents: serviceCents + summary.tipCents - summary.refundedCents,
+    paymentMethod: card ? { cardType: card.cardType, lastFour: card.lastFour } : null
+  };
+}
+
+export function receiptFileName(receipt: BookingReceipt, format: ReceiptFormat): string {
+  return `receipt-${receipt.orderId}.${format}`;
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', '\'': '&#39;' })[char] ?? char);
+
+function summaryRows(receipt: BookingReceipt): Array<[string, string]> {
+  return [
+    ['Order', receipt.orderId],
+    ['Provider', receipt.provider.name],
+    ['Service', receipt.serviceType],
+    ['Started', formatDate(receipt.startedAt)],
+    ['Completed', formatDate(receipt.completedAt)],
+    ['Paid with', receipt.paymentMethod ? `${receipt.paymentMethod.cardType} ending ${receipt.paymentMethod.lastFour}` : '-']
+  ];
+}
+
+export function renderReceiptHtml(receipt: BookingReceipt): string {
+  const details = summaryRows(receipt)
+    .map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`)
+    .join('');
+  const items = receipt.lineItems
+    .map(item => `<tr><td>${escapeHtml(item.label)}</td><td class="amount">${formatMoney(item.amountCents)}</td></tr>`)
+    .join('');
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Receipt ${escapeHtml(receipt.orderId)}</title>
+<style>
+body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; color: #0A2540; max-width: 480px; margin: 32px auto; }
+table { width: 100%; border-collapse: collapse; margin-bottom: 24px; }
+th, td { text-align: left; padding: 6px 0; font-size: 14px; }
+th { color: #64748B; font-weight: 500; width: 40%; }
+.amount { text-align: right; font-variant-numeric: tabular-nums; }
+.total td { border-top: 1px dashed #CBD5E1; font-weight: 700; font-size: 16px; padding-top: 12px; }
+footer { color: #64748B; font-size: 12px; }
+</style>
+</head>
+<body>
+<h1>YUBER receipt</h1>
+<table>${details}</table>
+<table>${items}<tr class="total"><td>Total paid</td><td class="amount">${formatMoney(receipt.totalCents)}</td></tr></table>
+<footer>Prices include ${receipt.tax.ratePercent}% sales tax. Issued ${escapeHtml(formatDate(receipt.issuedAt))}.</footer>
+</body>
+</html>
+`;
+}
+
+export function renderReceiptPdf(receipt: BookingReceipt): Uint8Array<ArrayBuffer> {
+  const left = 72;
+  const right = PDF_PAGE.width - 72;
+  const runs: PdfText[] = [];
+  let y = PDF_PAGE.height - 90;
+
+  const amountRow = (label: string, cents: number, font: 'regular' | 'bold' = 'regular', size = 11) => {
+    const amount = formatMoney(cents);
+    runs.push({ text: label, x: left, y, size, font });
+    runs.push({ text: amount, x: right - monoTextWidth(amount, size), y, size, font: 'mono' });
+    y -= size + 9;
+  };
+
+  runs.push({ text: 'YUBER receipt', x: left, y, size: 22, font: 'bold' });
+  y -= 40;
+  for (const [label, value] of summaryRows(receipt)) {
+    runs.push({ text: label, x: left, y, size: 11 });
+    runs.push({ text: value, x: left + 120, y, size: 11 });
+    y -= 20;
+  }
+
+  y -= 16;
+  receipt.lineItems.forEach(item => amountRow(item.label, item.amountCents));
+  y -= 8;
+  amountRow('Total paid', receipt.totalCents, 'bold', 13);
+
+  y -= 24;
+  runs.push({ text: `Prices include ${receipt.tax.ratePercent}% sales tax. Issued ${formatDate(receipt.issuedAt)}.`, x: left, y, size: 9 });
+
+  return renderTextPdf(runs, `Receipt ${receipt.orderId}`);
+}
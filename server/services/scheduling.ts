@@ -0,0 +1,253 @@
+// file: server/services/scheduling.ts
+// description: Provider opening hours (internal hoursJson and Yelp hours), bookable time slots and booking time validation
+// reference: drizzle/schema.ts, server/_core/yelp_rest_search.ts, server/routers.ts
+
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import { type Booking, type Provider } from '../../drizzle/schema';
+import { getYelpBusinessDetails, type YelpRestBusinessDetails } from '../_core/yelp_rest_search';
+import * as db from '../db';
+
+/** Provider hours are local wall-clock times; all current providers are in the Columbus, OH market. */
+export const SCHEDULING_TIME_ZONE = 'America/New_York';
+export const DEFAULT_JOB_MINUTES = 60;
+export const SLOT_STEP_MINUTES = 30;
+
+/** Used to offer slots when a provider has published no hours; never used to reject a booking. */
+const DEFAULT_OPEN_MINUTES = { start: 8 * 60, end: 18 * 60 };
+
+/** Bookings that hold the provider's time. */
+const BLOCKING_STATUSES: readonly Booking['status'][] = ['confirmed', 'in_progress'];
+
+/**
+ * One opening window. `day` is the JS weekday (0 = Sunday); minutes are from local midnight of that day and
+ * `end` may exceed 1440 for windows that run past midnight.
+ */
+export type OpeningWindow = { day: number, start: number, end: number };
+export type WeeklyHours = OpeningWindow[];
+export type TimeSlot = { start: string, end: string };
+type Interval = { start: Date, end: Date };
+
+// ============ HOURS PARSING ============
+
+const hhmm = z.string().regex(/^\d{2}:?\d{2}$/);
+const yelpOpenSchema = z.object({ day: z.number().int().min(0).max(6), start: hhmm, end: hhmm, is_overnight: z.boolean().optional() });
+const yelpHoursSchema = z.array(z.object({ open: z.array(yelpOpenSchema).nullish() }).passthrough());
+const dayRangesSchema = z.union([z.string(), z.array(z.string())]).nullable();
+const weeklyMapSchema = z.record(z.string(), dayRangesSchema);
+
+const DAY_KEYS: Record<string, number> = { sun: 0, mon: 1, tue: 2, wed: 3, thu: 4, fri: 5, sat: 6 };
+
+function toMinutes(value: string): number {
+  const digits = value.replace(':', '');
+  return Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2));
+}
+
+function openingWindow(day: number, start: number, end: number, overnight = false): OpeningWindow {
+  // A close time at or before the open time means the window ends the next day ("2200-0200", "0000-0000").
+  return { day, start, end: overnight || end <= start ? end + 24 * 60 : end };
+}
+
+/**
+ * Yelp business hours: `day` 0 is Monday, times are "HHMM".
+ */
+export function parseYelpHours(hours: YelpRestBusinessDetails['hours'] | unknown): WeeklyHours | null {
+  const parsed = yelpHoursSchema.safeParse(hours);
+  if (!parsed.success) return null;
+  const windows = parsed.data.flatMap(block => block.open ?? []).map(open =>
+    openingWindow((open.day + 1) % 7, toMinutes(open.start), toMinutes(open.end), open.is_overnight)
+  );
+  return windows.length ? windows : null;
+}
+
+/**
+ * `providers.hoursJson` accepts either Yelp's shape or a weekday map such as
+ * `{ "mon": "08:00-17:00", "sat": ["09:00-12:00", "13:00-16:00"], "sun": null }`.
+ * Returns null when no hours are recorded or the value is not recognised.
+ */
+export function parseProviderHours(hoursJson: unknown): WeeklyHours | null {
+  if (hoursJson === null || hoursJson === undefined) return null;
+  const value = typeof hoursJson === 'string' ? safeJson(hoursJson) : hoursJson;
+
+  const yelp = parseYelpHours(Array.isArray(value) ? value : [value]);
+  if (yelp) return yelp;
+
+  const weekly = weeklyMapSchema.safeParse(value);
+  if (!weekly.success) return null;
+
+  const windows: OpeningWindow[] = [];
+  for (const [key, ranges] of Object.entries(weekly.data)) {
+    const day = DAY_KEYS[key.toLowerCase().slice(0, 3)];
+    if (day === undefined || ranges === null) continue;
+    for (const range of Array.isArray(ranges) ? ranges : [ranges]) {
+      const [start, end] = range.split('-').map(part => part.trim());
+      if (!start || !end || !hhmm.safeParse(start).success || !hhmm.safeParse(end).success) continue;
+      windows.push(openingWindow(day, toMinutes(start), toMinutes(end)));
+    }
+  }
+  return windows.length ? windows : null;
+}
+
+function safeJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+// ============ TIME ZONE HELPERS ============
+
+const zonedFormatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: SCHEDULING_TIME_ZONE,
+  hourCycle: 'h23',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit'
+});
+
+function zonedParts(date: Date) {
+  const parts = Object.fromEntries(zonedFormatter.formatToParts(date).map(part => [part.type, Number(part.value)]));
+  return { year: parts.year ?? 0, month: parts.month ?? 1, day: parts.day ?? 1, minutes: (parts.hour ?? 0) * 60 + (parts.minute ?? 0), seconds: parts.second ?? 0 };
+}
+
+function offsetMs(date: Date): number {
+  const p = zonedParts(date);
+  return Date.UTC(p.year, p.month - 1, p.day, 0, p.minutes, p.seconds) - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Instant for `minutes` after local midnight of `dateKey` (YYYY-MM-DD) in the scheduling time zone.
+ */
+function zonedTime(dateKey: string, minutes: number): Date {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const guess = Date.UTC(year ?? 1970, (month ?? 1) - 1, day ?? 1, 0, minutes);
+  const first = guess - offsetMs(new Date(guess));
+  return new Date(guess - offsetMs(new Date(first)));
+}
+
+function dateKeyOf(date: Date): string {
+  const p = zonedParts(date);
+  return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+}
+
+function weekdayOf(dateKey: string): number {
+  return new Date(`${dateKey}T12:00:00Z`).getUTCDay();
+}
+
+function shiftDateKey(dateKey: string, days: number): string {
+  const date = new Date(`${dateKey}T12:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/** Concrete open intervals for the windows that start on `dateKey`. */
+function openIntervalsOn(hours: WeeklyHours, dateKey: string): Interval[] {
+  const day = weekdayOf(dateKey);
+  return hours.filter(w => w.day === day).map(w => ({ start: zonedTime(dateKey, w.start), end: zonedTime(dateKey, w.end) }));
+}
+
+// ============ AVAILABILITY ============
+
+function overlaps(a: Interval, b: Interval): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+/** Time a booking occupies; ASAP bookings are counted from when they started (or were placed). */
+function bookingInterval(booking: Booking): Interval {
+  const start = booking.scheduledAt ?? booking.startedAt ?? booking.createdAt;
+  const minutes = booking.durationMinutes ?? DEFAULT_JOB_MINUTES;
+  return { start, end: new Date(start.getTime() + minutes * 60_000) };
+}
+
+export function isWithinHours(hours: WeeklyHours, interval: Interval): boolean {
+  const dateKey = dateKeyOf(interval.start);
+  // Windows from the previous day can run past midnight into this one.
+  return [shiftDateKey(dateKey, -1), dateKey].flatMap(key => openIntervalsOn(hours, key)).some(open =>
+    open.start <= interval.start && interval.end <= open.end
+  );
+}
+
+type SlotOptions = { durationMinutes?: number, stepMinutes?: number, now?: Date };
+
+/**
+ * Free slots on `dateKey`: inside opening hours, not in the past and not overlapping `busy`.
+ */
+export function computeAvailableSlots(hours: WeeklyHours, busy: Interval[], dateKey: string, options: SlotOptions = {}): TimeSlot[] {
+  const durationMs = (options.durationMinutes ?? DEFAULT_JOB_MINUTES) * 60_000;
+  const stepMs = (options.stepMinutes ?? SLOT_STEP_MINUTES) * 60_000;
+  const now = options.now ?? new Date();
+
+  const slots: TimeSlot[] = [];
+  for (const open of openIntervalsOn(hours, dateKey)) {
+    for (let start = open.start.getTime(); start + durationMs <= open.end.getTime(); start += stepMs) {
+      const slot = { start: new Date(start), end: new Date(start + durationMs) };
+      if (slot.start < now || busy.some(interval => overlaps(slot, interval))) continue;
+      slots.push({ start: slot.start.toISOString(), end: slot.end.toISOString() });
+    }
+  }
+  return slots;
+}
+
+function defaultHours(): WeeklyHours {
+  return [0, 1, 2, 3, 4, 5, 6].map(day => ({ day, ...DEFAULT_OPEN_MINUTES }));
+}
+
+/**
+ * The provider's opening hours: their recorded `hoursJson`, else the published Yelp hours of `yelpBusinessId` (the
+ * provider's linked business by default). Null when neither is known or Yelp cannot be reached.
+ */
+export async function loadProviderHours(provider: Provider, yelpBusinessId: string | null | undefined = provider.yelpId): Promise<WeeklyHours | null> {
+  const recorded = parseProviderHours(provider.hoursJson);
+  if (recorded || !yelpBusinessId) return recorded;
+  try {
+    return parseYelpHours((await getYelpBusinessDetails(yelpBusinessId)).hours);
+  } catch (error) {
+    console.warn('[Scheduling] Yelp hours unavailable:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+type ProviderSlotsParams = {
+  provider: Provider,
+  date: string,
+  /** Yelp business whose hours are used when the provider has none recorded; defaults to the linked one. */
+  yelpBusinessId?: string | undefined,
+  durationMinutes?: number | undefined
+};
+
+export async function getProviderSlots({ provider, date, yelpBusinessId, durationMinutes }: ProviderSlotsParams) {
+  const hours = await loadProviderHours(provider, yelpBusinessId ?? provider.yelpId);
+  const busy = (await db.getBookingsByProvider(provider.id, BLOCKING_STATUSES)).map(bookingInterval);
+  const slots = computeAvailableSlots(hours ?? defaultHours(), busy, date, durationMinutes ? { durationMinutes } : {});
+  return { providerId: provider.id, date, timeZone: SCHEDULING_TIME_ZONE, hoursKnown: hours !== null, slots };
+}
+
+/**
+ * Whether the provider is open at `at` by their recorded hours; without hours, their availability flag decides.
+ */
+export function isProviderOpenAt(provider: Pick<Provider, 'hoursJson' | 'isAvailable'>, at: Date): boolean {
+  const hours = parseProviderHours(provider.hoursJson);
+  return hours ? isWithinHours(hours, { start: at, end: at }) : provider.isAvailable;
+}
+
+/**
+ * Rejects a booking that starts outside the provider's published hours (recorded or on Yelp, the same hours slots are
+ * offered from) or overlaps one of their confirmed jobs.
+ */
+export async function assertBookable(provider: Provider, start: Date, durationMinutes = DEFAULT_JOB_MINUTES): Promise<void> {
+  const interval = { start, end: new Date(start.getTime() + durationMinutes * 60_000) };
+
+  const hours = await loadProviderHours(provider);
+  if (hours && !isWithinHours(hours, interval)) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: `${provider.name} is not open at the requested time.` });
+  }
+
+  const busy = (await db.getBookingsByProvider(provider.id, BLOCKING_STATUSES)).map(bookingInterval);
+  if (busy.some(existing => overlaps(interval, existing))) {
+    throw new TRPCError({ code: 'CONFLICT', message: `${provider.name} is already booked at the requested time.` });
+  }
+}
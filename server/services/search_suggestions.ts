@@ -0,0 +1,50 @@
+// file: server/services/search_suggestions.ts
+// description: Search box suggestions: the user's recent searches, popular searches nearby and service-name autocomplete
+// reference: server/db.ts (searchHistory), shared/taxonomy.ts, server/routers.ts
+
+import { autocompleteServices, type ServiceSuggestion } from '@shared/taxonomy';
+import * as db from '../db';
+import { type PopularSearch, type RecentSearch } from '../db';
+import { type Coordinates } from './pricing';
+
+/** Popular searches are aggregated over grid cells this many degrees on a side (about 7 miles north to south). */
+export const SUGGESTION_CELL_DEGREES = 0.1;
+/** Only searches from this recent window count towards popularity. */
+const POPULAR_WINDOW_DAYS = 30;
+/** A search has to come from this many different people before anyone else is shown it. */
+const POPULAR_MIN_SEARCHERS = 2;
+
+export type SearchSuggestions = { recent: RecentSearch[], popular: PopularSearch[], services: ServiceSuggestion[] };
+
+/** The grid cell containing `location`, by rounding its coordinates down to SUGGESTION_CELL_DEGREES. */
+export function suggestionCell(location: Coordinates): { south: number, west: number, north: number, east: number } {
+  const south = Math.floor(location.lat / SUGGESTION_CELL_DEGREES) * SUGGESTION_CELL_DEGREES;
+  const west = Math.floor(location.lng / SUGGESTION_CELL_DEGREES) * SUGGESTION_CELL_DEGREES;
+  return { south, west, north: south + SUGGESTION_CELL_DEGREES, east: west + SUGGESTION_CELL_DEGREES };
+}
+
+/**
+ * Suggestions for the search box as the user types `prefix` (everything when empty). Recent searches need a signed-in
+ * user and popular ones a location; each list leaves out what an earlier list already offers.
+ */
+export async function getSearchSuggestions({ userId, prefix, location, limit = 5 }: {
+  userId: number | null | undefined,
+  prefix?: string | undefined,
+  location?: Coordinates | undefined,
+  limit?: number | undefined
+}): Promise<SearchSuggestions> {
+  const since = new Date(Date.now() - POPULAR_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  const [recent, popular] = await Promise.all([
+    userId ? db.getRecentSearches(userId, { prefix, limit }) : Promise.resolve([]),
+    location
+      ? db.getPopularSearches(suggestionCell(location), { since, prefix, minSearchers: POPULAR_MIN_SEARCHERS, limit: limit * 2 })
+      : Promise.resolve([])
+  ]);
+
+  const offered = new Set(recent.map(search => search.query.trim().toLowerCase()));
+  const popularFresh = popular.filter(search => !offered.has(search.query)).slice(0, limit);
+  popularFresh.forEach(search => offered.add(search.query));
+  const services = prefix ? autocompleteServices(prefix, limit).filter(suggestion => !offered.has(suggestion.text)) : [];
+
+  return { recent, popular: popularFresh, services };
+}
@@ -0,0 +1,160 @@
+// file: server/services/yelp_providers.ts
+// description: Materializes Yelp businesses into the providers table so bookings, favorites and reviews can reference them
+// reference: drizzle/schema.ts (providers.yelpId), server/_core/yelp_rest_search.ts, server/services/provider_search.ts
+
+import { TRPCError } from '@trpc/server';
+import { type InsertProvider, type Provider } from '../../drizzle/schema';
+import { UpstreamHttpError } from '../_core/resilient_http';
+import { getYelpBusinessDetails, type YelpRestBusinessDetails } from '../_core/yelp_rest_search';
+import * as db from '../db';
+import { haversineMiles, providerCoordinates, type QuotedProvider } from './pricing';
+import { normalizePhone } from './provider_search';
+
+/** Stored Yelp profiles older than this are refreshed the next time the business is materialized. */
+const PROFILE_REFRESH_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** An unlinked stored provider with the same name this close by is taken to be the same business. */
+const SAME_PLACE_MILES = 0.1;
+
+export type ProviderRef = { providerId?: number | undefined, yelpBusinessId?: string | undefined };
+
+type YelpProfile = InsertProvider & { yelpId: string };
+
+function profileFromYelp(details: YelpRestBusinessDetails): YelpProfile {
+  const address = details.location?.display_address?.join(', ') ?? details.location?.address1 ?? null;
+  const photos = details.photos?.length ? details.photos : details.image_url ? [details.image_url] : [];
+  return {
+    yelpId: details.id,
+    name: details.name,
+    category: details.categories?.[0]?.title ?? 'Local Service',
+    description: address ?? details.location?.city ?? null,
+    imageUrl: details.image_url ?? photos[0] ?? null,
+    bannerUrl: photos[0] ?? null,
+    photosJson: photos,
+    rating: details.rating ? Math.round(details.rating * 10) : null,
+    reviewCount: details.review_count ?? 0,
+    address,
+    latitude: details.coordinates?.latitude ?? null,
+    longitude: details.coordinates?.longitude ?? null,
+    phone: details.display_phone || details.phone || null,
+    website: details.url ?? null,
+    hoursJson: details.hours ?? null,
+    servicesJson: details.transactions ?? null,
+    specialties: details.categories?.map(category => category.title).join(', ') ?? null,
+    // Yelp publishes no ETA; left unknown rather than the column default
+    availableIn: null
+  };
+}
+
+/**
+ * What a refresh or link may change on a stored row: Yelp owns the reputation and photos; everything else is only
+ * filled in where the row has nothing, so rates and details entered by ops are kept.
+ */
+function yelpUpdates(row: Provider, profile: YelpProfile): Partial<InsertProvider> {
+  const updates: Partial<InsertProvider> = { yelpId: profile.yelpId, rating: profile.rating, reviewCount: profile.reviewCount, photosJson: profile.photosJson };
+  for (const key of ['imageUrl', 'bannerUrl', 'address', 'latitude', 'longitude', 'phone', 'website', 'hoursJson', 'servicesJson', 'specialties'] as const) {
+    if (row[key] === null || row[key] === undefined) {
+      Object.assign(updates, { [key]: profile[key] });
+    }
+  }
+  return updates;
+}
+
+function isSameStoredBusiness(row: Provider, profile: YelpProfile): boolean {
+  if (row.yelpId) return false;
+  const phone = normalizePhone(row.phone);
+  if (phone && phone === normalizePhone(profile.phone ?? null)) return true;
+  const stored = providerCoordinates(row);
+  // Without a location on both sides only the phone can confirm it; a shared name alone never merges
+  if (!stored || profile.latitude === null || profile.latitude === undefined || profile.longitude === null || profile.longitude === undefined) {
+    return false;
+  }
+  return haversineMiles(stored, { lat: profile.latitude, lng: profile.longitude }) <= SAME_PLACE_MILES;
+}
+
+async function fetchYelpProfile(yelpId: string): Promise<YelpProfile> {
+  try {
+    return profileFromYelp(await getYelpBusinessDetails(yelpId));
+  } catch (error) {
+    if (error instanceof UpstreamHttpError && (error.status === 404 || error.status === 400)) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Yelp business not found.' });
+    }
+    console.error('[YelpProviders] Business details unavailable', yelpId, error instanceof Error ? error.message : error);
+    throw new TRPCError({ code: 'SERVICE_UNAVAILABLE', message: 'Yelp is unavailable; try again shortly.' });
+  }
+}
+
+/**
+ * Returns the stored provider for a Yelp business, creating it from the Yelp profile (details, photos, hours,
+ * categories) on first use. A stored provider with the same name that is the same business gets linked instead; a
+ * different business with a taken name is stored under "Name (address)". Stale profiles are refreshed, but a failed
+ * refresh still returns the stored row.
+ */
+export async function materializeYelpProvider(yelpId: string): Promise<Provider> {
+  const existing = await db.getProviderByYelpId(yelpId);
+  if (existing && Date.now() - existing.updatedAt.getTime() < PROFILE_REFRESH_MS) {
+    return existing;
+  }
+
+  let profile: YelpProfile;
+  try {
+    profile = await fetchYelpProfile(yelpId);
+  } catch (error) {
+    if (existing) return existing;
+    throw error;
+  }
+  if (existing) {
+    return (await db.updateProvider(existing.id, yelpUpdates(existing, profile))) ?? existing;
+  }
+
+  const namesake = await db.getProviderByName(profile.name);
+  if (namesake && isSameStoredBusiness(namesake, profile)) {
+    return (await db.updateProvider(namesake.id, yelpUpdates(namesake, profile))) ?? namesake;
+  }
+
+  const name = namesake ? `${profile.name} (${profile.address?.split(',')[0] || yelpId})` : profile.name;
+  try {
+    const created = await db.createProvider({ ...profile, name });
+    if (created) return created;
+  } catch (error) {
+    // A concurrent request may have stored the same business first
+    const raced = await db.getProviderByYelpId(yelpId);
+    if (raced) return raced;
+    throw error;
+  }
+  throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Providers cannot be stored without a database.' });
+}
+
+/**
+ * Resolves a procedure's `providerId` / `yelpBusinessId` pair to a stored provider, materializing Yelp businesses.
+ */
+export async function resolveProvider({ providerId, yelpBusinessId }: ProviderRef): Promise<Provider> {
+  if (providerId !== undefined) {
+    const provider = await db.getProviderById(providerId);
+    if (!provider) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Provider not found.' });
+    }
+    return provider;
+  }
+  if (yelpBusinessId) {
+    return materializeYelpProvider(yelpBusinessId);
+  }
+  throw new TRPCError({ code: 'BAD_REQUEST', message: 'providerId or yelpBusinessId is required.' });
+}
+
+/**
+ * Read-only counterpart of `resolveProvider` for quotes: a Yelp business that is not stored yet is priced from its Yelp
+ * profile (no published rates) and is not written to the providers table.
+ */
+export async function lookupQuotedProvider({ providerId, yelpBusinessId }: ProviderRef): Promise<QuotedProvider> {
+  if (providerId !== undefined) {
+    return resolveProvider({ providerId });
+  }
+  if (yelpBusinessId) {
+    const stored = await db.getProviderByYelpId(yelpBusinessId);
+    if (stored) return stored;
+    const { category, latitude, longitude } = await fetchYelpProfile(yelpBusinessId);
+    return { category, hourlyRate: null, callOutFee: 0, latitude: latitude ?? null, longitude: longitude ?? null };
+  }
+  throw new TRPCError({ code: 'BAD_REQUEST', message: 'providerId or yelpBusinessId is required.' });
+}
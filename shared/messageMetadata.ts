@@ -0,0 +1,101 @@
+/**
+ * Message metadata
+ * The structured payload stored with a chat message (`messages.metadata`): a clarifying question with its options, a
+ * recommendation of providers with the reason for each, or a status update with progress. The payload is versioned
+ * and validated on write and on read, and its `kind` is the message's `messageType`.
+ */
+
+import { z } from 'zod';
+
+export const MESSAGE_METADATA_VERSION = 1;
+
+/** Most options kept from a clarifying question, and most providers kept in a recommendation. */
+export const MAX_CLARIFICATION_OPTIONS = 6;
+export const MAX_RECOMMENDED_PROVIDERS = 10;
+
+export const RecommendedProviderSchema = z.object({
+  /** Works wherever a provider ref is accepted. */
+  yelpBusinessId: z.string().min(1),
+  name: z.string(),
+  rating: z.number(),
+  reviewCount: z.number(),
+  price: z.string().nullable(),
+  categories: z.array(z.string()),
+  address: z.string().nullable(),
+  distanceMiles: z.number().nullable(),
+  imageUrl: z.string(),
+  url: z.string(),
+  /** Why the provider was picked, e.g. "Highest rated · 4.8★ from 320 reviews · 0.4 mi away". */
+  reason: z.string()
+});
+
+export const ClarificationMetadataSchema = z.object({
+  version: z.literal(MESSAGE_METADATA_VERSION),
+  kind: z.literal('clarification'),
+  question: z.string().min(1),
+  options: z.array(z.string().min(1)).max(MAX_CLARIFICATION_OPTIONS)
+});
+
+export const RecommendationMetadataSchema = z.object({
+  version: z.literal(MESSAGE_METADATA_VERSION),
+  kind: z.literal('recommendation'),
+  providers: z.array(RecommendedProviderSchema).min(1).max(MAX_RECOMMENDED_PROVIDERS)
+});
+
+export const StatusMetadataSchema = z.object({
+  version: z.literal(MESSAGE_METADATA_VERSION),
+  kind: z.literal('status'),
+  stage: z.enum(['thinking', 'searching']),
+  message: z.string(),
+  /** 0 to 1. */
+  progress: z.number().min(0).max(1)
+});
+
+export const MessageMetadataSchema = z.discriminatedUnion('kind', [
+  ClarificationMetadataSchema,
+  RecommendationMetadataSchema,
+  StatusMetadataSchema
+]);
+
+export type RecommendedProvider = z.infer<typeof RecommendedProviderSchema>;
+export type ClarificationMetadata = z.infer<typeof ClarificationMetadataSchema>;
+export type RecommendationMetadata = z.infer<typeof RecommendationMetadataSchema>;
+export type StatusMetadata = z.infer<typeof StatusMetadataSchema>;
+export type MessageMetadata = z.infer<typeof MessageMetadataSchema>;
+export type MessageType = 'text' | MessageMetadata['kind'];
+
+/** Plain text messages carry no metadata; every other type is the kind of its payload. */
+export function messageTypeFor(metadata: MessageMetadata | null | undefined): MessageType {
+  return metadata?.kind ?? 'text';
+}
+
+/** Validates a payload before it is stored; throws a `ZodError` when it does not match the current version. */
+export function parseMessageMetadata(value: unknown): MessageMetadata {
+  return MessageMetadataSchema.parse(value);
+}
+
+/** Validates a stored payload. Missing, malformed or other-version payloads read as null (a plain text message). */
+export function readMessageMetadata(value: unknown): MessageMetadata | null {
+  if (value === null || value === undefined) return null;
+  const result = MessageMetadataSchema.safeParse(value);
+  return result.success ? result.data : null;
+}
+
+const OPTION_LINE = /^\s*(?:[-*•]|\d+[.)])\s+(.+?)\s*$/;
+
+/**
+ * Splits a reply that ends with a clarifying question: `body` is the text without its option list, `question` the
+ * last line ending in "?" (null when there is none) and `options` the bulleted or numbered lines after it.
+ */
+export function splitClarification(text: string): { body: string, question: string | null, options: string[] } {
+  const lines = text.trim().split('\n');
+  const questionIndex = lines.findLastIndex(line => line.trim().endsWith('?'));
+  if (questionIndex === -1) return { body: text.trim(), question: null, options: [] };
+
+  const trailing = lines.slice(questionIndex + 1).filter(line => line.trim());
+  const options = trailing.map(line => OPTION_LINE.exec(line)?.[1]).filter((option): option is string => Boolean(option));
+  if (options.length !== trailing.length) return { body: text.trim(), question: null, options: [] };
+
+  const question = lines[questionIndex]!.trim().split(/(?<=[.!?])\s+/).pop()!;
+  return { body: lines.slice(0, questionIndex + 1).join('\n').trim(), question, options: options.slice(0, MAX_CLARIFICATION_OPTIONS) };
+}
@@ -0,0 +1,75 @@
+/**
+ * Notification preferences
+ * Which channels (email, push, SMS) each notification topic is delivered on, the defaults for users who never changed
+ * them, and the change format the settings screen and the settings agent both use.
+ */
+
+export const NOTIFICATION_CHANNELS = ['email', 'push', 'sms'] as const;
+
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number];
+
+export const NOTIFICATION_TOPICS = ['bookingUpdates', 'providerMessages', 'promotions', 'reminders'] as const;
+
+export type NotificationTopic = (typeof NOTIFICATION_TOPICS)[number];
+
+export type ChannelPreferences = Record<NotificationChannel, boolean>;
+
+export type NotificationPreferences = Record<NotificationTopic, ChannelPreferences>;
+
+export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  email: 'Email',
+  push: 'Push',
+  sms: 'SMS'
+};
+
+export const NOTIFICATION_TOPIC_LABELS: Record<NotificationTopic, string> = {
+  bookingUpdates: 'Booking updates',
+  providerMessages: 'Provider messages',
+  promotions: 'Promotions & offers',
+  reminders: 'Reminders'
+};
+
+/** Transactional topics go out by push and email; promotions are opt-in and SMS is opt-in for everything. */
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  bookingUpdates: { email: true, push: true, sms: false },
+  providerMessages: { email: true, push: true, sms: false },
+  promotions: { email: false, push: false, sms: false },
+  reminders: { email: true, push: true, sms: false }
+};
+
+/**
+ * Turns notifications on or off. Leaving out `topic` applies the change to every topic ("stop emailing me"), leaving
+ * out `channel` to every channel ("turn off promotions").
+ */
+export type NotificationPreferenceChange = {
+  topic?: NotificationTopic | undefined,
+  channel?: NotificationChannel | undefined,
+  enabled: boolean
+};
+
+/** Returns `preferences` with `changes` applied in order; the input is not modified. */
+export function applyNotificationPreferenceChanges(
+  preferences: NotificationPreferences,
+  changes: readonly NotificationPreferenceChange[]
+): NotificationPreferences {
+  const next = Object.fromEntries(NOTIFICATION_TOPICS.map(topic => [topic, { ...preferences[topic] }])) as NotificationPreferences;
+  for (const change of changes) {
+    const topics = change.topic ? [change.topic] : NOTIFICATION_TOPICS;
+    const channels = change.channel ? [change.channel] : NOTIFICATION_CHANNELS;
+    topics.forEach(topic => channels.forEach(channel => { next[topic][channel] = change.enabled; }));
+  }
+  return next;
+}
+
+/** Channels a topic is currently delivered on. */
+export function enabledChannels(preferences: NotificationPreferences, topic: NotificationTopic): NotificationChannel[] {
+  return NOTIFICATION_CHANNELS.filter(channel => preferences[topic][channel]);
+}
+
+/** One line per topic, e.g. "Promotions & offers: off" or "Reminders: Email, Push". */
+export function describeNotificationPreferences(preferences: NotificationPreferences): string[] {
+  return NOTIFICATION_TOPICS.map(topic => {
+    const channels = enabledChannels(preferences, topic);
+    return `${NOTIFICATION_TOPIC_LABELS[topic]}: ${channels.length ? channels.map(channel => NOTIFICATION_CHANNEL_LABELS[channel]).join(', ') : 'off'}`;
+  });
+}
@@ -0,0 +1,253 @@
+/**
+ * Service taxonomy
+ * Canonical service categories with their synonyms, Yelp category aliases and urgency hints, and the keyword
+ * classifier every part of the app uses to turn free text ("my sink is leaking", "Hair Salon") into a category.
+ */
+
+export const SERVICE_CATEGORIES = [
+  'plumbing',
+  'electrician',
+  'locksmith',
+  'glass',
+  'handyman',
+  'homecleaning',
+  'carwash',
+  'hair',
+  'restaurants'
+] as const;
+
+export type ServiceCategory = (typeof SERVICE_CATEGORIES)[number];
+
+export const URGENCIES = ['low', 'medium', 'high'] as const;
+
+export type Urgency = (typeof URGENCIES)[number];
+
+export type ServiceCategoryDefinition = {
+  /** Display name, e.g. "Home cleaning". */
+  label: string,
+  /** Search term sent to provider sources; also the key of the development provider fixtures. */
+  searchTerm: string,
+  /** Words that name the service itself; strong evidence. */
+  synonyms: string[],
+  /** Symptoms and tasks that point at the service ("leak", "locked out"). */
+  keywords: string[],
+  /** Generic words that only lean towards the service ("repair"). */
+  hints: string[],
+  /** Yelp category aliases for the `categories` search filter. */
+  yelpAliases: string[],
+  /** Urgency when the text carries no urgency hints. */
+  defaultUrgency: Urgency,
+  /** Typical requests with this category as the expected answer; used to evaluate the classifier. */
+  examples: string[]
+};
+
+export const SERVICE_TAXONOMY: Record<ServiceCategory, ServiceCategoryDefinition> = {
+  plumbing: {
+    label: 'Plumbing',
+    searchTerm: 'plumber',
+    synonyms: ['plumber', 'plumbing'],
+    keywords: ['pipe', 'leak', 'drain', 'faucet', 'toilet', 'sink', 'clog', 'sewer', 'water heater', 'hot water', 'water'],
+    hints: [],
+    yelpAliases: ['plumbing'],
+    defaultUrgency: 'medium',
+    examples: ['pipe burst', 'water leak', 'clogged drain', 'no hot water']
+  },
+  electrician: {
+    label: 'Electrical',
+    searchTerm: 'electrician',
+    synonyms: ['electrician', 'electrical', 'electric'],
+    keywords: ['wiring', 'outlet', 'power', 'outage', 'breaker', 'circuit', 'fuse', 'light switch', 'sparking'],
+    hints: [],
+    yelpAliases: ['electricians'],
+    defaultUrgency: 'medium',
+    examples: ['power outage', 'electrical fire', 'broken outlet']
+  },
+  locksmith: {
+    label: 'Locksmith',
+    searchTerm: 'locksmith',
+    synonyms: ['locksmith'],
+    keywords: ['locked out', 'lock', 'key', 'deadbolt', 'rekey'],
+    hints: [],
+    yelpAliases: ['locksmiths'],
+    defaultUrgency: 'high',
+    examples: ['locked out', 'lost keys', 'broken lock']
+  },
+  glass: {
+    label: 'Glass repair',
+    searchTerm: 'glass',
+    synonyms: ['glazier', 'glass repair', 'window repair'],
+    keywords: ['broken window', 'window', 'glass', 'shattered', 'mirror'],
+    hints: [],
+    yelpAliases: ['glassandmirrors', 'windowsinstallation'],
+    defaultUrgency: 'medium',
+    examples: ['broken window', 'shattered glass']
+  },
+  handyman: {
+    label: 'Handyman',
+    searchTerm: 'handyman',
+    synonyms: ['handyman', 'odd jobs'],
+    keywords: ['assemble', 'mount', 'drywall', 'shelf', 'shelves', 'caulk'],
+    hints: ['fix', 'repair', 'broken', 'install'],
+    yelpAliases: ['handyman'],
+    defaultUrgency: 'low',
+    examples: ['assemble furniture', 'patch drywall']
+  },
+  homecleaning: {
+    label: 'Home cleaning',
+    searchTerm: 'cleaning',
+    synonyms: ['home cleaning', 'house cleaning', 'cleaning service', 'cleaner', 'maid', 'housekeeping', 'housekeeper'],
+    keywords: ['clean', 'deep clean', 'vacuum', 'dust', 'mop'],
+    hints: [],
+    yelpAliases: ['homecleaning'],
+    defaultUrgency: 'low',
+    examples: ['house cleaning', 'deep clean before moving out']
+  },
+  carwash: {
+    label: 'Car wash',
+    searchTerm: 'carwash',
+    synonyms: ['car wash', 'carwash', 'auto detailing', 'car detailing', 'detailing'],
+    keywords: ['wash my car', 'wax', 'dirty car'],
+    hints: ['wash'],
+    yelpAliases: ['carwash', 'auto_detailing'],
+    defaultUrgency: 'low',
+    examples: ['wash my car', 'car detailing']
+  },
+  hair: {
+    label: 'Hair',
+    searchTerm: 'haircut',
+    synonyms: ['haircut', 'hair salon', 'salon', 'barber', 'hairdresser', 'stylist'],
+    keywords: ['hair', 'trim', 'blowout', 'fade'],
+    hints: [],
+    yelpAliases: ['hair', 'barbers'],
+    defaultUrgency: 'low',
+    examples: ['need a haircut', 'barber near me']
+  },
+  restaurants: {
+    label: 'Restaurants',
+    searchTerm: 'restaurant',
+    synonyms: ['restaurant', 'dinner', 'lunch', 'brunch', 'takeout'],
+    keywords: ['food', 'eat', 'hungry', 'sushi', 'pizza', 'italian', 'tacos'],
+    hints: [],
+    yelpAliases: ['restaurants'],
+    defaultUrgency: 'low',
+    examples: ['sushi for dinner', 'somewhere to eat']
+  }
+};
+
+/** Phrases that raise or lower urgency regardless of category; high wins when both appear. */
+export const URGENCY_HINTS: Record<Exclude<Urgency, 'medium'>, string[]> = {
+  high: ['emergency', 'urgent', 'asap', 'right now', 'immediately', 'burst', 'flood', 'sparking', 'smoke', 'fire', 'gas smell', 'smell gas', 'locked out', 'no power', 'no heat'],
+  low: ['no rush', 'whenever', 'next week', 'next month', 'sometime', 'quote', 'estimate']
+};
+
+/** Evidence weight per match; a category's score combines its matches as independent evidence. */
+const MATCH_WEIGHTS = { synonym: 0.9, keyword: 0.6, hint: 0.3 } as const;
+const MAX_CONFIDENCE = 0.99;
+
+export type ServiceClassification = {
+  category: ServiceCategory,
+  /** 0..1; lower when the text also matches another category. */
+  confidence: number,
+  urgency: Urgency,
+  /** Terms from the taxonomy found in the text. */
+  matched: string[]
+};
+
+/** Lowercase words separated by single spaces, padded so terms can be matched on word boundaries. */
+function normalizeText(text: string): string {
+  return ` ${text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()} `;
+}
+
+/** Endings a term may take and still match: "leak" finds "leaking" and "leaky", "clog" finds "clogged". */
+const TERM_ENDINGS = '(?:s|es|d|ed|ing|er|ers|y)?';
+
+/**
+ * Matches whole words, allowing the endings above, so "key" finds "keys" but not "keyboard" and "mount" finds
+ * "mounting" but not "mountain". `term` is already normalized (letters, digits and single spaces).
+ */
+function containsTerm(normalized: string, term: string): boolean {
+  const last = term.at(-1) ?? '';
+  return new RegExp(` ${term}${last}?${TERM_ENDINGS} `).test(normalized);
+}
+
+/** Matches at the start of a word, for autocompletion of what the user is still typing. */
+function containsPrefix(normalized: string, prefix: string): boolean {
+  return normalized.includes(` ${prefix}`);
+}
+
+/**
+ * Urgency from explicit hints in the text ("emergency", "no rush"), or `fallback` when there are none.
+ */
+export function detectUrgency(text: string, fallback: Urgency = 'medium'): Urgency {
+  const normalized = normalizeText(text);
+  if (URGENCY_HINTS.high.some(hint => containsTerm(normalized, hint))) return 'high';
+  if (URGENCY_HINTS.low.some(hint => containsTerm(normalized, hint))) return 'low';
+  return fallback;
+}
+
+/**
+ * Classifies free text into a service category by keyword evidence. Returns null when nothing in the text points at
+ * a category. Confidence is discounted by half the score of the runner-up, so ambiguous text ("broken lock") scores
+ * lower than text that only fits one category.
+ */
+export function classifyService(text: string | null | undefined): ServiceClassification | null {
+  const normalized = normalizeText(text ?? '');
+  const scored = SERVICE_CATEGORIES.map(category => {
+    const definition = SERVICE_TAXONOMY[category];
+    const matches = [
+      ...[definition.label.toLowerCase(), ...definition.synonyms, ...definition.yelpAliases].map(term => ({ term, weight: MATCH_WEIGHTS.synonym })),
+      ...definition.keywords.map(term => ({ term, weight: MATCH_WEIGHTS.keyword })),
+      ...definition.hints.map(term => ({ term, weight: MATCH_WEIGHTS.hint }))
+    ].filter(({ term }) => containsTerm(normalized, normalizeText(term).trim()));
+    const matched = [...new Set(matches.map(match => match.term))];
+    const miss = matches
+      .filter((match, index) => matches.findIndex(other => other.term === match.term) === index)
+      .reduce((product, match) => product * (1 - match.weight), 1);
+    return { category, score: 1 - miss, matched };
+  }).sort((a, b) => b.score - a.score);
+
+  const [best, runnerUp] = scored;
+  if (!best || best.score === 0) return null;
+  const confidence = Math.min(MAX_CONFIDENCE, best.score - (runnerUp?.score ?? 0) / 2);
+  return {
+    category: best.category,
+    confidence: Math.round(confidence * 100) / 100,
+    urgency: detectUrgency(text ?? '', SERVICE_TAXONOMY[best.category].defaultUrgency),
+    matched: best.matched
+  };
+}
+
+/**
+ * Resolves a category name, label, search term or Yelp alias ("Plumbing", "Hair Salon", "electricians", "plumber") to
+ * its category, or null when none matches.
+ */
+export function resolveServiceCategory(raw: string | null | undefined): ServiceCategory | null {
+  return classifyService(raw)?.category ?? null;
+}
+
+export type ServiceSuggestion = { text: string, category: ServiceCategory, label: string };
+
+/**
+ * Service names starting with `prefix` (at any word, so "wash" finds "car wash"), at most one per category, in
+ * taxonomy order with names that start with the prefix first.
+ */
+export function autocompleteServices(prefix: string, limit = 5): ServiceSuggestion[] {
+  const normalized = normalizeText(prefix).trim();
+  if (!normalized) return [];
+
+  return SERVICE_CATEGORIES.flatMap(category => {
+    const definition = SERVICE_TAXONOMY[category];
+    const names = [definition.label.toLowerCase(), ...definition.synonyms];
+    const text = names.find(name => name.startsWith(normalized)) ?? names.find(name => containsPrefix(normalizeText(name), normalized));
+    return text ? [{ text, category, label: definition.label, leading: text.startsWith(normalized) }] : [];
+  })
+    .sort((a, b) => Number(b.leading) - Number(a.leading))
+    .slice(0, limit)
+    .map(({ leading: _leading, ...suggestion }) => suggestion);
+}
+
+/** Display name for a stored service type, falling back to the raw value for types outside the taxonomy. */
+export function serviceLabel(raw: string): string {
+  const category = resolveServiceCategory(raw);
+  return category ? SERVICE_TAXONOMY[category].label : raw;
+}